@@ -26,6 +26,10 @@ interface ParsedLocation {
   lon?: number;
   x?: number;
   description?: string;
+  ref?: string | number; // Référence de la ligne, sinon son numéro
+  reference?: string | number;
+  pickup?: string | number; // Référence de la ligne de collecte d'une livraison
+  collecte?: string | number;
   [key: string]: any; // Pour permettre d'autres propriétés dynamiques
 }
 
@@ -139,7 +143,7 @@ export default function FileUpload({ onLocationsLoaded, onClose, existingLocatio
   };
 
   const convertToLocations = (data: ParsedLocation[]): Location[] => {
-    return data.map((item, index) => {
+    const locations = data.map((item, index) => {
       // Essayer de détecter les colonnes automatiquement
       const address = item.address || item.adresse || item.location || item.lieu || item.name || item.nom || '';
       const lat = item.latitude || item.lat || item.y || undefined;
@@ -164,6 +168,26 @@ export default function FileUpload({ onLocationsLoaded, onClose, existingLocatio
 
       return location;
     });
+
+    // Paires collecte/livraison : la colonne pickup/collecte d'une livraison
+    // désigne la référence (ou le numéro) de la ligne de collecte
+    const idByRef: Record<string, string> = {};
+    data.forEach((item, index) => {
+      idByRef[String(item.ref ?? item.reference ?? index + 1).trim()] = locations[index].id;
+    });
+
+    data.forEach((item, index) => {
+      const pickupRef = item.pickup ?? item.collecte;
+      if (pickupRef === undefined || String(pickupRef).trim() === '') return;
+
+      const pickupId = idByRef[String(pickupRef).trim()];
+      if (!pickupId || pickupId === locations[index].id) {
+        throw new Error(`Ligne ${index + 1}: Collecte "${pickupRef}" introuvable.`);
+      }
+      locations[index].pickupId = pickupId;
+    });
+
+    return locations;
   };
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -223,6 +247,11 @@ export default function FileUpload({ onLocationsLoaded, onClose, existingLocatio
                         {location.coordinates.latitude.toFixed(4)}, {location.coordinates.longitude.toFixed(4)}
                       </div>
                     )}
+                    {location.pickupId && (
+                      <div className="text-xs text-purple-700">
+                        Livraison de la collecte n°{preview.findIndex(loc => loc.id === location.pickupId) + 1}
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -352,6 +381,7 @@ export default function FileUpload({ onLocationsLoaded, onClose, existingLocatio
           <h4 className="text-sm font-medium text-gray-900 mb-2">Format attendu:</h4>
           <div className="text-xs text-gray-600 space-y-1">
             <p><strong>CSV/Excel:</strong> Colonnes: address/adresse, latitude (optionnel), longitude (optionnel)</p>
+            <p><strong>Collecte/livraison:</strong> colonne pickup/collecte sur la livraison, avec la référence (colonne ref) ou le numéro de ligne de la collecte</p>
             <p><strong>JSON:</strong> Array d'objets avec propriétés address, latitude, longitude</p>
           </div>
         </div>
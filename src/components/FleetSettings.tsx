@@ -0,0 +1,127 @@
+import { Truck, Car, Plus, X, Users } from 'lucide-react';
+import { VehicleType } from '../types/index.ts';
+import { getVehicleColor } from '../utils/routeUtils.ts';
+
+/**
+ * Vehicle as configured in the settings panel; the depot is chosen at calculation time
+ */
+export interface FleetVehicleConfig {
+  id: string;
+  name: string;
+  vehicleType: VehicleType;
+  maxShiftDuration?: number; // in minutes
+}
+
+interface FleetSettingsProps {
+  vehicles: FleetVehicleConfig[];
+  onVehiclesChange: (vehicles: FleetVehicleConfig[]) => void;
+  disabled?: boolean;
+}
+
+// Au-delà, la répartition devient trop lente pour le navigateur
+const MAX_FLEET_SIZE = 10;
+
+function createFleetVehicle(index: number, vehicleType: VehicleType = 'truck'): FleetVehicleConfig {
+  return {
+    id: `vehicle_${Date.now()}_${index}`,
+    name: `Véhicule ${index + 1}`,
+    vehicleType,
+  };
+}
+
+export default function FleetSettings({ vehicles, onVehiclesChange, disabled = false }: FleetSettingsProps) {
+  const isFleet = vehicles.length > 1;
+
+  const updateVehicle = (id: string, changes: Partial<FleetVehicleConfig>) => {
+    onVehiclesChange(vehicles.map(vehicle => (vehicle.id === id ? { ...vehicle, ...changes } : vehicle)));
+  };
+
+  const addVehicle = () => {
+    if (vehicles.length >= MAX_FLEET_SIZE) return;
+    // Passer en mode flotte crée directement deux véhicules
+    const base = vehicles.length === 0 ? [createFleetVehicle(0)] : vehicles;
+    onVehiclesChange([...base, createFleetVehicle(base.length)]);
+  };
+
+  const removeVehicle = (id: string) => {
+    const remaining = vehicles.filter(vehicle => vehicle.id !== id);
+    // Un seul véhicule restant revient au mode trajet unique
+    onVehiclesChange(remaining.length > 1 ? remaining : []);
+  };
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="mr-3">
+            <div className="w-8 h-8 bg-sky-100 rounded-lg flex items-center justify-center">
+              <Users className="h-4 w-4 text-sky-600" />
+            </div>
+          </div>
+          <div>
+            <div className="font-medium text-sm text-gray-900">Flotte</div>
+            <div className="text-xs text-gray-600">
+              {isFleet ? `${vehicles.length} véhicules depuis le départ` : 'Un seul véhicule'}
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={addVehicle}
+          disabled={disabled || vehicles.length >= MAX_FLEET_SIZE}
+          className="p-1.5 rounded text-sky-700 hover:bg-sky-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Ajouter un véhicule"
+          aria-label="Ajouter un véhicule"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isFleet && (
+        <div className="mt-3 space-y-2">
+          {vehicles.map((vehicle, index) => (
+            <div key={vehicle.id} className="flex items-center gap-2 text-xs">
+              <span
+                className="w-3 h-3 rounded-full flex-shrink-0"
+                style={{ backgroundColor: getVehicleColor(index) }}
+              />
+              <span className="font-medium text-gray-900 w-20 truncate">{vehicle.name}</span>
+              <button
+                onClick={() => updateVehicle(vehicle.id, { vehicleType: vehicle.vehicleType === 'car' ? 'truck' : 'car' })}
+                disabled={disabled}
+                className="p-1 rounded border border-gray-300 text-gray-700 hover:bg-white disabled:opacity-50"
+                title={vehicle.vehicleType === 'car' ? 'Voiture' : 'Camion'}
+                aria-label={`Type de ${vehicle.name} : ${vehicle.vehicleType === 'car' ? 'voiture' : 'camion'}`}
+              >
+                {vehicle.vehicleType === 'car' ? <Car className="h-3 w-3" /> : <Truck className="h-3 w-3" />}
+              </button>
+              <input
+                type="number"
+                min={1}
+                max={24}
+                step={0.5}
+                value={vehicle.maxShiftDuration !== undefined ? vehicle.maxShiftDuration / 60 : ''}
+                placeholder="Amplitude"
+                onChange={(e) => updateVehicle(vehicle.id, {
+                  maxShiftDuration: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) * 60
+                })}
+                disabled={disabled}
+                className="border border-gray-300 rounded px-1 py-0.5 w-20 disabled:opacity-50"
+                aria-label={`Amplitude maximale de ${vehicle.name} en heures`}
+              />
+              <span className="text-gray-600">h max</span>
+              <button
+                onClick={() => removeVehicle(vehicle.id)}
+                disabled={disabled}
+                className="ml-auto p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                title="Retirer le véhicule"
+                aria-label={`Retirer ${vehicle.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,50 @@
 import { ReactNode, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { MapPin, Menu, X } from 'lucide-react';
+import { MapPin, Menu, Server, X } from 'lucide-react';
+import { useProviderHealth } from '../hooks/useProviderHealth.ts';
+import { useRequestStats } from '../hooks/useRequestStats.ts';
 
 interface LayoutProps {
   children: ReactNode;
 }
 
+// Serveurs réellement utilisés, vérifiés au démarrage
+function ProviderStatus() {
+  const health = useProviderHealth();
+  const requests = useRequestStats();
+  if (!health) {
+    return <span className="text-xs text-gray-400">Vérification des serveurs…</span>;
+  }
+
+  const backends = [
+    { label: 'Voiture', name: health.routing.car },
+    { label: 'Camion', name: health.routing.truck },
+    { label: 'Adresses', name: health.geocoding },
+  ];
+
+  const requestDetails = Object.entries(requests.hosts)
+    .map(([host, stats]) => `${host} : ${stats.completed} terminées, ${stats.failed} en échec, ${stats.deduplicated} dédoublonnées`)
+    .join('\n');
+
+  return (
+    <div className="flex items-center space-x-3 text-xs text-gray-600" title="Serveurs de calcul et de géocodage en service">
+      <Server className="h-4 w-4 text-gray-400" />
+      {backends.map(({ label, name }) => (
+        <span key={label} className="flex items-center space-x-1">
+          <span className={`h-2 w-2 rounded-full ${name ? 'bg-green-500' : 'bg-red-500'}`} />
+          <span>{label} : {name ?? 'hors ligne'}</span>
+        </span>
+      ))}
+      {/* File d'attente du planificateur de requêtes (limites d'usage des serveurs publics) */}
+      {(requests.queued > 0 || requests.inFlight > 0) && (
+        <span className="text-amber-600" title={requestDetails}>
+          {requests.inFlight} en cours · {requests.queued} en attente
+        </span>
+      )}
+    </div>
+  );
+}
+
 export default function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -49,6 +88,10 @@ export default function Layout({ children }: LayoutProps) {
               </Link>
             </nav>
 
+            <div className="hidden lg:block">
+              <ProviderStatus />
+            </div>
+
             <div className="md:hidden">
               <button 
                 onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
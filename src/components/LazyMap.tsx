@@ -1,15 +1,17 @@
 import { lazy, Suspense } from 'react';
 import LoadingSpinner from './LoadingSpinner';
+import type { VehicleRouteLayer } from './OpenStreetMapComponent';
 
 // Lazy loading du composant de carte pour améliorer les performances initiales
 const OpenStreetMapComponent = lazy(() => import('./OpenStreetMapComponent'));
 
 interface LazyMapProps {
   route?: any;
+  routes?: VehicleRouteLayer[];
   locations: any[];
 }
 
-export default function LazyMap({ route, locations }: LazyMapProps) {
+export default function LazyMap({ route, routes, locations }: LazyMapProps) {
   return (
     <Suspense 
       fallback={
@@ -23,6 +25,7 @@ export default function LazyMap({ route, locations }: LazyMapProps) {
     >
       <OpenStreetMapComponent 
         route={route}
+        routes={routes}
         locations={locations}
       />
     </Suspense>
@@ -0,0 +1,52 @@
+import { LoadDemand, Location } from '../types/index.ts';
+import { LOAD_DIMENSIONS, LOAD_UNITS, LoadDimension } from '../utils/capacity.ts';
+import { trimAddress } from '../utils/routeUtils.ts';
+
+interface LoadChartProps {
+  locations: Location[];
+  loads: LoadDemand[]; // Load when leaving each location
+  capacity?: LoadDemand;
+}
+
+// Dimension affichée : la plus contraignante par rapport à la capacité, sinon la première renseignée
+function pickDimension(loads: LoadDemand[], capacity?: LoadDemand): LoadDimension | null {
+  const peak = (dimension: LoadDimension) => Math.max(0, ...loads.map(load => load[dimension] ?? 0));
+  const used = LOAD_DIMENSIONS.filter(dimension => peak(dimension) > 0);
+  if (used.length === 0) return null;
+
+  const ratio = (dimension: LoadDimension) => capacity?.[dimension] ? peak(dimension) / capacity[dimension]! : 0;
+  return used.reduce((best, dimension) => (ratio(dimension) > ratio(best) ? dimension : best));
+}
+
+export default function LoadChart({ locations, loads, capacity }: LoadChartProps) {
+  const dimension = pickDimension(loads, capacity);
+  if (!dimension) return null;
+
+  const limit = capacity?.[dimension];
+  const scale = Math.max(limit ?? 0, ...loads.map(load => load[dimension] ?? 0));
+  const unit = LOAD_UNITS[dimension];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="font-medium text-gray-900">Charge à bord</span>
+        <span className="text-gray-600">{limit !== undefined ? `capacité ${limit} ${unit}` : unit}</span>
+      </div>
+      <div className="flex items-end gap-px h-16 bg-gray-50 rounded p-1" role="img" aria-label={`Charge à bord en ${unit} le long du trajet`}>
+        {loads.map((load, index) => {
+          const value = load[dimension] ?? 0;
+          const location = locations[index];
+          const isDepot = index === 0 || !!location.depotReturnOf;
+          return (
+            <div
+              key={location.id}
+              className={`flex-1 rounded-t ${isDepot ? 'bg-orange-400' : 'bg-blue-400'}`}
+              style={{ height: `${scale > 0 ? Math.max(2, (value / scale) * 100) : 2}%` }}
+              title={`${isDepot ? 'Départ dépôt' : trimAddress(location.address)} : ${Math.round(value * 10) / 10} ${unit}`}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useRef, useCallback } from 'react';
-import { Lock, LockOpen, GripVertical, X, Edit, MapPin, AlertTriangle, ChevronUp, ChevronDown } from 'lucide-react';
-import { Location } from '../types/index.ts';
+import { Lock, LockOpen, GripVertical, X, Edit, MapPin, AlertTriangle, ChevronUp, ChevronDown, Clock, Package } from 'lucide-react';
+import { Location, LockPosition, ScheduledStop } from '../types/index.ts';
 import { trimAddress } from '../utils/routeUtils.ts';
+import { LOCK_POSITION_LABELS, getLockPosition } from '../utils/lockPosition.ts';
+import { LOAD_DIMENSIONS, LOAD_UNITS, hasDemand } from '../utils/capacity.ts';
+import { formatPlannedTime } from '../utils/schedule.ts';
 import AddressAutocomplete from './AddressAutocomplete.tsx';
 import { AddressSuggestion } from '../hooks/useAddressSearch.ts';
 
@@ -11,6 +14,9 @@ interface LocationListProps {
   onLocationEdit: (id: string, newAddress: string, coordinates?: { latitude: number; longitude: number }) => void;
   onLocationDelete: (id: string) => void;
   onLocationLock: (id: string) => void;
+  onLocationChange: (id: string, changes: Partial<Location>) => void;
+  scheduleById?: Record<string, ScheduledStop>; // Planned times once the route is optimized
+  departureDate?: string; // "YYYY-MM-DD" of the optimized route
 }
 
 interface DragState {
@@ -23,7 +29,10 @@ export default function LocationList({
   onLocationUpdate,
   onLocationEdit,
   onLocationDelete,
-  onLocationLock
+  onLocationLock,
+  onLocationChange,
+  scheduleById,
+  departureDate
 }: LocationListProps) {
   const [dragState, setDragState] = useState<DragState>({
     draggedIndex: null,
@@ -31,6 +40,7 @@ export default function LocationList({
   });
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  const [detailsId, setDetailsId] = useState<string | null>(null);
   const dragCounterRef = useRef(0);
 
   const handleDragStart = (e: React.DragEvent, index: number) => {
@@ -133,6 +143,20 @@ export default function LocationList({
     setEditValue('');
   }, [editingId, onLocationEdit]);
 
+  const updateTimeWindow = useCallback((location: Location, field: 'start' | 'end', value: string) => {
+    const current = location.timeWindow ?? { start: '08:00', end: '18:00' };
+    onLocationChange(location.id, { timeWindow: { ...current, [field]: value } });
+  }, [onLocationChange]);
+
+  // Un seul départ et une seule arrivée : l'emplacement qui l'était reste verrouillé à sa place
+  const updateLockPosition = useCallback((location: Location, lockPosition: LockPosition) => {
+    onLocationUpdate(locations.map((loc, index) => {
+      if (loc.id === location.id) return { ...loc, lockPosition, order: index };
+      if (lockPosition !== 'fixed' && getLockPosition(loc) === lockPosition) return { ...loc, lockPosition: 'fixed', order: index };
+      return loc;
+    }));
+  }, [locations, onLocationUpdate]);
+
   const cancelEdit = useCallback(() => {
     setEditingId(null);
     setEditValue('');
@@ -203,6 +227,10 @@ export default function LocationList({
         const isDragging = dragState.draggedIndex === index;
         const isDragOver = dragState.dragOverIndex === index;
         const isEditing = editingId === location.id;
+        const pickup = location.pickupId ? locations.find(loc => loc.id === location.pickupId) : undefined;
+        const delivery = locations.find(loc => loc.pickupId === location.id);
+        const lockPosition = getLockPosition(location);
+        const planned = scheduleById?.[location.id];
         
         return (
           <div
@@ -294,10 +322,148 @@ export default function LocationList({
                       </button>
                     </div>
                   )}
-                  {location.isLocked && (
+                  {planned && (
+                    <div
+                      className={`text-xs ${planned.lateness > 0 ? 'text-red-600' : 'text-blue-700'}`}
+                      title="Arrivée, départ et distance parcourue depuis le départ"
+                    >
+                      🕒 {formatPlannedTime(planned.arrivalTime, departureDate)}
+                      {planned.departureTime > planned.arrivalTime && ` → ${formatPlannedTime(planned.departureTime, departureDate)}`}
+                      {` · ${planned.cumulativeDistance.toFixed(1)} km`}
+                      {planned.lateness > 0 && ` · retard ${Math.round(planned.lateness)} min`}
+                    </div>
+                  )}
+                  {lockPosition && (
                     <div className="text-xs text-red-600 flex items-center">
                       <Lock className="h-3 w-3 mr-1" />
-                      Verrouillé
+                      <span className="mr-1">Verrouillé</span>
+                      <select
+                        value={lockPosition}
+                        onChange={(e) => updateLockPosition(location, e.target.value as LockPosition)}
+                        className="border border-red-200 rounded px-1 py-0.5 text-xs bg-white text-red-700"
+                        aria-label={`Type de verrouillage de ${trimAddress(location.address)}`}
+                      >
+                        {(Object.keys(LOCK_POSITION_LABELS) as LockPosition[]).map(position => (
+                          <option key={position} value={position}>
+                            {position === 'fixed' ? `${LOCK_POSITION_LABELS.fixed} (n°${index + 1})` : LOCK_POSITION_LABELS[position]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {(location.timeWindow || location.serviceDuration !== undefined) && detailsId !== location.id && (
+                    <div className="text-xs text-amber-700 flex items-center">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {location.timeWindow && `${location.timeWindow.start}–${location.timeWindow.end}`}
+                      {location.timeWindow && location.serviceDuration !== undefined && ' · '}
+                      {location.serviceDuration !== undefined && `${location.serviceDuration} min sur place`}
+                    </div>
+                  )}
+                  {detailsId === location.id && (
+                    <div className="mt-1 flex items-center gap-1 text-xs text-gray-700">
+                      <span>Créneau</span>
+                      <input
+                        type="time"
+                        value={location.timeWindow?.start ?? ''}
+                        onChange={(e) => e.target.value && updateTimeWindow(location, 'start', e.target.value)}
+                        className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                        aria-label={`Début du créneau de ${trimAddress(location.address)}`}
+                      />
+                      <span>–</span>
+                      <input
+                        type="time"
+                        value={location.timeWindow?.end ?? ''}
+                        onChange={(e) => e.target.value && updateTimeWindow(location, 'end', e.target.value)}
+                        className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                        aria-label={`Fin du créneau de ${trimAddress(location.address)}`}
+                      />
+                      {location.timeWindow && (
+                        <button
+                          onClick={() => onLocationChange(location.id, { timeWindow: undefined })}
+                          className="p-0.5 text-gray-400 hover:text-red-600"
+                          title="Supprimer le créneau"
+                          aria-label={`Supprimer le créneau de ${trimAddress(location.address)}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {(pickup || delivery) && detailsId !== location.id && (
+                    <div className="text-xs text-purple-700 truncate">
+                      {pickup
+                        ? `↳ Livraison de la collecte « ${trimAddress(pickup.address)} »`
+                        : `↱ Collecte pour « ${trimAddress(delivery!.address)} »`}
+                    </div>
+                  )}
+                  {hasDemand(location.demand) && detailsId !== location.id && (
+                    <div className="text-xs text-orange-700 flex items-center">
+                      <Package className="h-3 w-3 mr-1" />
+                      {LOAD_DIMENSIONS
+                        .filter(dimension => location.demand?.[dimension])
+                        .map(dimension => `${location.demand![dimension]} ${LOAD_UNITS[dimension]}`)
+                        .join(' · ')}
+                    </div>
+                  )}
+                  {detailsId === location.id && !delivery && (
+                    <div className="mt-1 flex items-center gap-1 text-xs text-gray-700">
+                      <span>Collecte à</span>
+                      <select
+                        value={location.pickupId ?? ''}
+                        onChange={(e) => onLocationChange(location.id, { pickupId: e.target.value || undefined })}
+                        className="border border-gray-300 rounded px-1 py-0.5 text-xs flex-1 min-w-0"
+                        aria-label={`Collecte liée à ${trimAddress(location.address)}`}
+                      >
+                        <option value="">Aucune (depuis le dépôt)</option>
+                        {/* Une collecte ne sert qu'une livraison et n'est pas elle-même une livraison */}
+                        {locations
+                          .filter(loc => loc.id !== location.id && !loc.pickupId &&
+                            !locations.some(other => other.pickupId === loc.id && other.id !== location.id))
+                          .map(loc => (
+                            <option key={loc.id} value={loc.id}>{trimAddress(loc.address)}</option>
+                          ))}
+                      </select>
+                    </div>
+                  )}
+                  {detailsId === location.id && (
+                    <div className="mt-1 flex items-center gap-1 text-xs text-gray-700">
+                      <span>Quantité</span>
+                      {LOAD_DIMENSIONS.map(dimension => (
+                        <span key={dimension} className="flex items-center gap-0.5">
+                          <input
+                            type="number"
+                            min={0}
+                            value={location.demand?.[dimension] ?? ''}
+                            onChange={(e) => onLocationChange(location.id, {
+                              demand: {
+                                ...location.demand,
+                                [dimension]: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value) || 0)
+                              }
+                            })}
+                            className="border border-gray-300 rounded px-1 py-0.5 text-xs w-14"
+                            aria-label={`Quantité de ${trimAddress(location.address)} en ${LOAD_UNITS[dimension]}`}
+                          />
+                          <span>{LOAD_UNITS[dimension]}</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {detailsId === location.id && (
+                    <div className="mt-1 flex items-center gap-1 text-xs text-gray-700">
+                      <span>Sur place</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={5}
+                        value={location.serviceDuration ?? ''}
+                        placeholder="défaut"
+                        onChange={(e) => onLocationChange(location.id, {
+                          serviceDuration: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value) || 0)
+                        })}
+                        className="border border-gray-300 rounded px-1 py-0.5 text-xs w-16"
+                        aria-label={`Temps sur place de ${trimAddress(location.address)} en minutes`}
+                      />
+                      <span>min</span>
                     </div>
                   )}
                 </div>
@@ -341,6 +507,19 @@ export default function LocationList({
                     <Edit className="h-3 w-3" />
                   </button>
                   
+                  <button
+                    onClick={() => setDetailsId(detailsId === location.id ? null : location.id)}
+                    className={`p-1 transition-colors touch-manipulation ${
+                      detailsId === location.id || location.timeWindow || location.serviceDuration !== undefined || hasDemand(location.demand)
+                        ? 'text-amber-600 hover:text-amber-800'
+                        : 'text-gray-400 hover:text-amber-600'
+                    }`}
+                    title="Créneau, quantité et temps sur place"
+                    aria-label={`Créneau, quantité et temps sur place de ${trimAddress(location.address)}`}
+                  >
+                    <Clock className="h-3 w-3" />
+                  </button>
+
                   <button
                     onClick={() => onLocationLock(location.id)}
                     className={`p-1 transition-colors touch-manipulation ${
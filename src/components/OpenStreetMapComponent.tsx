@@ -1,7 +1,9 @@
 import { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { Location, Route } from '../types/index.ts';
+import { Location, Route, ScheduledStop } from '../types/index.ts';
+import { formatPlannedTime } from '../utils/schedule.ts';
+import { LOCK_POSITION_LABELS, getLockPosition } from '../utils/lockPosition.ts';
 
 // Fix for default markers in Leaflet with Webpack
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -11,15 +13,46 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
+// Planned arrival and departure against the delivery slot, for marker popups
+function formatArrivalHtml(location: Location, stop?: ScheduledStop, departureDate?: string): string {
+  if (!stop && !location.timeWindow) return '';
+
+  const window = location.timeWindow ? `Créneau ${location.timeWindow.start}–${location.timeWindow.end}` : '';
+  if (!stop) {
+    return `<p style="margin: 4px 0 0 0; color: #b45309; font-size: 11px;">🕒 ${window}</p>`;
+  }
+
+  const color = stop.lateness > 0 ? '#dc2626' : stop.waitTime > 0 ? '#b45309' : '#15803d';
+  const status = stop.lateness > 0
+    ? ` · retard ${Math.round(stop.lateness)} min`
+    : stop.waitTime > 0 ? ` · attente ${Math.round(stop.waitTime)} min` : '';
+  const departure = stop.departureTime > stop.arrivalTime ? ` · départ ${formatPlannedTime(stop.departureTime, departureDate)}` : '';
+  return `<p style="margin: 4px 0 0 0; color: ${color}; font-size: 11px;">🕒 Arrivée ${formatPlannedTime(stop.arrivalTime, departureDate)}${departure}${window ? ` · ${window}` : ''}${status}</p>
+    <p style="margin: 2px 0 0 0; color: #666; font-size: 11px;">${stop.cumulativeDistance.toFixed(1)} km depuis le départ</p>`;
+}
+
+/**
+ * Route of one fleet vehicle, drawn in its own color
+ */
+export interface VehicleRouteLayer {
+  route: Route;
+  color: string;
+}
+
+// Dépôt partagé par plusieurs véhicules
+const SHARED_DEPOT_COLOR = '#111827';
+
 interface OpenStreetMapProps {
   locations: Location[];
   route?: Route;
+  routes?: VehicleRouteLayer[]; // Fleet routes, drawn instead of `route` when provided
   className?: string;
 }
 
 export default function OpenStreetMapComponent({ 
   locations, 
   route, 
+  routes,
   className = "w-full h-full rounded-lg" 
 }: OpenStreetMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
@@ -84,12 +117,28 @@ export default function OpenStreetMapComponent({
     
     if (validLocations.length === 0) return;
 
+    const plannedRoutes = routes ?? (route ? [{ route, color: '#3b82f6' }] : []);
+    const scheduleById: Record<string, ScheduledStop> = Object.fromEntries(
+      plannedRoutes.flatMap(layer => layer.route.schedule ?? []).map(stop => [stop.locationId, stop])
+    );
+
+    // En mode flotte, chaque arrêt prend la couleur et le rang de son véhicule
+    const vehicleStops: Record<string, { color: string; label: string }> = {};
+    routes?.forEach(({ route: vehicleRoute, color }) => {
+      vehicleRoute.locations.forEach((location, position) => {
+        vehicleStops[location.id] = vehicleStops[location.id]
+          ? { color: SHARED_DEPOT_COLOR, label: 'D' }
+          : { color, label: String(position + 1) };
+      });
+    });
+
     // Add new markers
     validLocations.forEach((location, index) => {
       if (!location.coordinates || !mapInstance.current) return;
 
       // Create custom icon
-      const iconColor = location.isLocked ? '#dc2626' : '#3b82f6';
+      const vehicleStop = vehicleStops[location.id];
+      const iconColor = vehicleStop?.color ?? (location.isLocked ? '#dc2626' : '#3b82f6');
       const customIcon = L.divIcon({
         html: `
           <div style="
@@ -106,7 +155,7 @@ export default function OpenStreetMapComponent({
             font-size: 12px;
             box-shadow: 0 2px 4px rgba(0,0,0,0.2);
           ">
-            ${index + 1}
+            ${vehicleStop?.label ?? index + 1}
           </div>
         `,
         className: 'custom-marker',
@@ -119,13 +168,15 @@ export default function OpenStreetMapComponent({
       }).addTo(mapInstance.current);
 
       // Add popup
+      const lockPosition = getLockPosition(location);
       const popupContent = `
         <div style="padding: 8px;">
           <h3 style="margin: 0 0 8px 0; font-weight: bold;">${location.address}</h3>
           <p style="margin: 0; color: #666; font-size: 12px;">
             ${location.coordinates.latitude.toFixed(6)}, ${location.coordinates.longitude.toFixed(6)}
           </p>
-          ${location.isLocked ? '<p style="margin: 4px 0 0 0; color: #dc2626; font-size: 11px;">🔒 Position verrouillée</p>' : ''}
+          ${lockPosition ? `<p style="margin: 4px 0 0 0; color: #dc2626; font-size: 11px;">🔒 Verrouillé : ${LOCK_POSITION_LABELS[lockPosition]}</p>` : ''}
+          ${formatArrivalHtml(location, scheduleById[location.id], plannedRoutes[0]?.route.departureDate)}
         </div>
       `;
       
@@ -141,7 +192,7 @@ export default function OpenStreetMapComponent({
       const group = new L.FeatureGroup(markersRef.current);
       mapInstance.current.fitBounds(group.getBounds().pad(0.01), { maxZoom: 16 }); // Padding minimal + zoom max
     }
-  }, [locations]);
+  }, [locations, route, routes]);
 
   // Update route when route changes
   useEffect(() => {
@@ -153,12 +204,14 @@ export default function OpenStreetMapComponent({
       routeLayerRef.current = null;
     }
 
-    if (!route || route.segments.length === 0) return;
+    const isFleet = routes !== undefined;
+    const plannedRoutes = routes ?? (route ? [{ route, color: '#3b82f6' }] : []);
+    if (plannedRoutes.every(layer => layer.route.segments.length === 0)) return;
 
     // Create route from segments with real road geometry
     const routeLayers: L.Layer[] = [];
     
-    route.segments.forEach((segment, index) => {
+    plannedRoutes.forEach(({ route: plannedRoute, color }) => plannedRoute.segments.forEach((segment, index) => {
       if (segment.polyline && segment.polyline.coordinates) {
         // Convertir les coordonnées GeoJSON en format Leaflet
         const coordinates = segment.polyline.coordinates.map((coord: number[]) => 
@@ -167,7 +220,8 @@ export default function OpenStreetMapComponent({
         
         if (coordinates.length > 1) {
           const segmentLine = L.polyline(coordinates, {
-            color: index === route.segments.length - 1 && route.isLoop ? '#ef4444' : '#3b82f6', // Rouge pour le retour en boucle
+            // Rouge pour le retour en boucle d'un trajet unique
+            color: !isFleet && index === plannedRoute.segments.length - 1 && plannedRoute.isLoop ? '#ef4444' : color,
             weight: 4,
             opacity: 0.8,
           });
@@ -181,7 +235,7 @@ export default function OpenStreetMapComponent({
             [segment.from.coordinates.latitude, segment.from.coordinates.longitude],
             [segment.to.coordinates.latitude, segment.to.coordinates.longitude]
           ], {
-            color: '#94a3b8', // Gris pour indiquer une estimation
+            color: isFleet ? color : '#94a3b8', // Gris pour indiquer une estimation (couleur du véhicule en flotte)
             weight: 2,
             opacity: 0.6,
             dashArray: '5, 10' // Ligne pointillée pour les estimations
@@ -190,7 +244,7 @@ export default function OpenStreetMapComponent({
           routeLayers.push(straightLine);
         }
       }
-    });
+    }));
 
     if (routeLayers.length > 0) {
       // Grouper toutes les couches de route
@@ -209,7 +263,7 @@ export default function OpenStreetMapComponent({
         mapInstance.current.fitBounds(allBounds.pad(0.01), { maxZoom: 16 }); // Padding minimal + zoom max pour la route
       }
     }
-  }, [route]);
+  }, [route, routes]);
 
   // Handle container resize
   useEffect(() => {
@@ -53,6 +53,7 @@ export default function ProgressBar({
 interface StepProgressProps {
   steps: string[];
   currentStep: number;
+  detail?: string; // Secondary line under the step label (e.g. "3/9")
   className?: string;
   showLoadingDots?: boolean;
 }
@@ -75,7 +76,7 @@ function LoadingDots() {
   return <span className="text-blue-600">{dots}</span>;
 }
 
-export function StepProgress({ steps, currentStep, className = '', showLoadingDots = false }: StepProgressProps) {
+export function StepProgress({ steps, currentStep, detail, className = '', showLoadingDots = false }: StepProgressProps) {
   return (
     <div className={`${className}`}>
       <div className="flex items-center justify-between">
@@ -112,6 +113,9 @@ export function StepProgress({ steps, currentStep, className = '', showLoadingDo
           {steps[currentStep]}
           {showLoadingDots && <LoadingDots />}
         </span>
+        {detail && (
+          <div className="text-xs text-gray-500 mt-1">{detail}</div>
+        )}
       </div>
     </div>
   );
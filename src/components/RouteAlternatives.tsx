@@ -0,0 +1,95 @@
+import { Check, Eye, EyeOff, Shuffle } from 'lucide-react';
+import { OptimizationMethod, Route } from '../types/index.ts';
+import { formatDuration } from '../utils/routeUtils.ts';
+import { estimateRouteCost, formatCost } from '../utils/routeCost.ts';
+
+interface RouteAlternativesProps {
+  routes: Route[]; // Proposed route first, then the alternatives
+  selectedRouteId: string;
+  previewRouteId?: string;
+  onPreview: (routeId?: string) => void;
+  onSelect: (route: Route) => void;
+}
+
+const METHOD_LABELS: Record<OptimizationMethod, string> = {
+  shortest_distance: 'distance',
+  fastest_time: 'temps',
+  balanced: 'équilibré',
+  lowest_cost: 'coût',
+};
+
+function getRouteLabel(route: Route): string {
+  switch (route.alternativeKind) {
+    case 'stop_order':
+      return `Ordre « ${METHOD_LABELS[route.optimizationMethod]} »`;
+    case 'roads':
+      return 'Autres routes';
+    default:
+      return 'Proposé';
+  }
+}
+
+export default function RouteAlternatives({ routes, selectedRouteId, previewRouteId, onPreview, onSelect }: RouteAlternativesProps) {
+  if (routes.length < 2) return null;
+
+  const costs = routes.map(estimateRouteCost);
+  const bestDistance = Math.min(...routes.map(route => route.totalDistance));
+  const bestDuration = Math.min(...routes.map(route => route.totalDuration));
+  const bestCost = Math.min(...costs);
+  const highlight = (value: number, best: number) => (value === best ? 'text-green-700 font-semibold' : 'text-gray-900');
+
+  return (
+    <div className="p-2 bg-gray-50 rounded text-xs">
+      <div className="font-medium text-gray-900 flex items-center mb-1">
+        <Shuffle className="h-3 w-3 mr-1" />
+        Trajets possibles
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal">Trajet</th>
+            <th className="font-normal text-right">Distance</th>
+            <th className="font-normal text-right">Durée</th>
+            <th className="font-normal text-right" title="Carburant, usure, péages et temps du conducteur, estimation">Coût est.</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {routes.map((route, index) => {
+            const isSelected = route.id === selectedRouteId;
+            const isPreviewed = route.id === previewRouteId;
+            return (
+              <tr key={route.id} className={isPreviewed ? 'bg-blue-50' : undefined}>
+                <td className="py-0.5 text-gray-700 truncate">{getRouteLabel(route)}</td>
+                <td className={`py-0.5 text-right ${highlight(route.totalDistance, bestDistance)}`}>{route.totalDistance.toFixed(1)} km</td>
+                <td className={`py-0.5 text-right ${highlight(route.totalDuration, bestDuration)}`}>{formatDuration(route.totalDuration)}</td>
+                <td className={`py-0.5 text-right ${highlight(costs[index], bestCost)}`}>{formatCost(costs[index])}</td>
+                <td className="py-0.5 pl-1 text-right whitespace-nowrap">
+                  {isSelected ? (
+                    <Check className="inline h-3 w-3 text-green-600" aria-label="Trajet retenu" />
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => onPreview(isPreviewed ? undefined : route.id)}
+                        className="text-gray-500 hover:text-blue-600 p-0.5"
+                        title={isPreviewed ? 'Masquer l\'aperçu' : 'Aperçu sur la carte'}
+                      >
+                        {isPreviewed ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                      </button>
+                      <button
+                        onClick={() => onSelect(route)}
+                        className="text-blue-600 hover:text-blue-800 font-medium ml-1"
+                      >
+                        Choisir
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
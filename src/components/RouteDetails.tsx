@@ -10,10 +10,21 @@ import {
   ChevronDown,
   ChevronUp,
   Route as RouteIcon,
-  Calculator
+  Calculator,
+  Coffee,
+  BedDouble,
+  AlertCircle,
+  Moon,
+  Euro
 } from 'lucide-react';
 import { Route } from '../types/index.ts';
 import { trimAddress } from '../utils/routeUtils.ts';
+import { formatPlannedTime, plannedDateTime } from '../utils/schedule.ts';
+import { overnightStop, segmentArrival } from '../utils/routeSchedule.ts';
+import { DRIVING_REST_LABELS } from '../utils/drivingRules.ts';
+import { SEGMENT_CONFIDENCE_LABELS, SEGMENT_SOURCE_LABELS, estimatedSegmentsWarning } from '../utils/segmentQuality.ts';
+import { describeCostBreakdown, formatCost, formatPreciseCost, resolveCostRates, routeCostBreakdown, segmentCost } from '../utils/routeCost.ts';
+import { formatObjectiveWeights } from '../utils/objective.ts';
 
 interface RouteDetailsProps {
   route: Route;
@@ -30,6 +41,7 @@ interface RouteStats {
 export default function RouteDetails({ route }: RouteDetailsProps) {
   const [showAdvancedStats, setShowAdvancedStats] = useState(false);
   const [showAllSegments, setShowAllSegments] = useState(false);
+  const [selectedDay, setSelectedDay] = useState(0);
 
   const calculateStats = (): RouteStats => {
     const segments = route.segments;
@@ -57,7 +69,9 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
       current.distance < shortest.distance ? current : shortest
     );
 
-    const avgSpeed = route.totalDuration > 0 ? (route.totalDistance / (route.totalDuration / 60)) : 0;
+    // Le temps sur place et les pauses ne comptent pas dans la vitesse moyenne
+    const drivingDuration = route.totalDuration - (route.totalServiceTime ?? 0) - (route.totalBreakTime ?? 0);
+    const avgSpeed = drivingDuration > 0 ? (route.totalDistance / (drivingDuration / 60)) : 0;
 
     return {
       avgSegmentDistance,
@@ -94,7 +108,9 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
       case 'fastest_time':
         return 'Temps le plus rapide';
       case 'balanced':
-        return 'Équilibré';
+        return route.objectiveWeights ? `Équilibré (${formatObjectiveWeights(route.objectiveWeights)})` : 'Équilibré';
+      case 'lowest_cost':
+        return 'Coût le plus bas';
       default:
         return method;
     }
@@ -105,7 +121,18 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
   };
 
   const stats = calculateStats();
-  const visibleSegments = showAllSegments ? route.segments : route.segments.slice(0, 4);
+  // Trajet sur plusieurs jours : un onglet par jour, une étape coupée par la nuit y figure en partie
+  const days = route.days && route.days.length > 1 ? route.days : undefined;
+  const day = days?.[Math.min(selectedDay, days.length - 1)];
+  const steps = day
+    ? day.legs.map(leg => ({ segment: route.segments[leg.segmentIndex], index: leg.segmentIndex, part: leg.to - leg.from, reachesEnd: leg.to === 1 }))
+    : route.segments.map((segment, index) => ({ segment, index, part: 1, reachesEnd: true }));
+  const visibleSteps = showAllSegments ? steps : steps.slice(0, 4);
+  const dayOvernightStop = day ? overnightStop(route, day) : undefined;
+  const estimatedWarning = estimatedSegmentsWarning(route);
+  const departureDay = route.departureDate ? plannedDateTime(0, route.departureDate)?.toLocaleDateString('fr-FR') : undefined;
+  const costRates = resolveCostRates(route.vehicleType, route.costSettings);
+  const routeCost = routeCostBreakdown(route);
 
   return (
     <div className="space-y-4">
@@ -117,7 +144,9 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
             Résumé du Trajet
           </h3>
           <div className="text-sm text-gray-500">
-            {new Date().toLocaleDateString('fr-FR')}
+            {route.departureTime
+              ? `Départ ${departureDay ? `le ${departureDay} ` : ''}à ${route.departureTime}`
+              : new Date().toLocaleDateString('fr-FR')}
           </div>
         </div>
 
@@ -141,6 +170,16 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
             <div className="text-xl font-bold text-green-700">
               {formatDuration(route.totalDuration)}
             </div>
+            {route.totalServiceTime !== undefined && route.totalServiceTime > 0 && (
+              <div className="text-xs text-green-800 mt-1">
+                Temps sur place : {formatDuration(route.totalServiceTime)}
+              </div>
+            )}
+            {route.totalBreakTime !== undefined && route.totalBreakTime > 0 && (
+              <div className="text-xs text-green-800 mt-1">
+                Pauses obligatoires : {formatDuration(route.totalBreakTime)}
+              </div>
+            )}
           </div>
 
           <div className="bg-purple-50 p-3 rounded-lg">
@@ -171,6 +210,9 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
               {getVehicleIcon(route.vehicleType)}
               <span className="ml-2 text-gray-700">
                 <span className="font-medium">Véhicule:</span> {route.vehicleType === 'car' ? 'Voiture' : 'Camion'}
+                {route.restrictionsVerified === false && (
+                  <span className="ml-1 text-xs text-amber-700">(restrictions non vérifiées)</span>
+                )}
               </span>
             </div>
             <div className="flex items-center">
@@ -186,6 +228,29 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
               </span>
             </div>
           </div>
+          {route.avoidance && (
+            <div className="mt-2 text-sm text-gray-700">
+              <span className="font-medium">Évitement:</span>{' '}
+              {[route.avoidance.tolls && 'péages', route.avoidance.highways && 'autoroutes'].filter(Boolean).join(', ')}
+              {!route.avoidance.applied
+                ? ' (non appliqué par le serveur de calcul)'
+                : route.avoidance.extraDistance !== undefined && route.avoidance.extraDuration !== undefined &&
+                  ` (${route.avoidance.extraDistance >= 0 ? '+' : ''}${route.avoidance.extraDistance.toFixed(1)} km, ${route.avoidance.extraDuration >= 0 ? '+' : '-'}${formatDuration(Math.abs(route.avoidance.extraDuration))})`}
+            </div>
+          )}
+          <div className="mt-2 flex items-center text-sm text-gray-700">
+            <Euro className="h-4 w-4 text-gray-600 mr-2 flex-shrink-0" />
+            <span>
+              <span className="font-medium">Coût estimé:</span> {formatCost(routeCost.total)}
+              <span className="text-xs text-gray-500"> ({describeCostBreakdown(routeCost)})</span>
+            </span>
+          </div>
+          {estimatedWarning && (
+            <div className="mt-2 flex items-center text-sm text-amber-800">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              <span className="font-medium">{estimatedWarning}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -262,7 +327,7 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
             <MapPin className="mr-2 h-5 w-5" />
             Étapes Détaillées
           </h3>
-          {route.segments.length > 4 && (
+          {steps.length > 4 && (
             <button
               onClick={() => setShowAllSegments(!showAllSegments)}
               className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
@@ -273,46 +338,126 @@ export default function RouteDetails({ route }: RouteDetailsProps) {
                 </>
               ) : (
                 <>
-                  Voir tout ({route.segments.length}) <ChevronDown className="ml-1 h-4 w-4" />
+                  Voir tout ({steps.length}) <ChevronDown className="ml-1 h-4 w-4" />
                 </>
               )}
             </button>
           )}
         </div>
 
+        {days && (
+          <div className="flex flex-wrap gap-1 mb-3" role="tablist">
+            {days.map((item, dayIndex) => (
+              <button
+                key={dayIndex}
+                role="tab"
+                aria-selected={item === day}
+                onClick={() => setSelectedDay(dayIndex)}
+                className={`px-3 py-1 rounded-full text-sm ${item === day ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                Jour {dayIndex + 1}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {day && (
+          <div className="mb-3 p-3 bg-indigo-50 rounded-lg text-sm text-indigo-900">
+            <div>
+              {formatPlannedTime(day.startTime, route.departureDate)} → {formatPlannedTime(day.endTime, route.departureDate)}
+              {` · ${day.distance.toFixed(1)} km · ${day.stopIds.length} arrêt(s) · travail ${formatDuration(day.workTime)}`}
+            </div>
+            {day.overnight && (
+              <div className="mt-1 text-xs flex items-center">
+                <Moon className="h-3 w-3 mr-1" />
+                {dayOvernightStop
+                  ? `Nuit à ${trimAddress(dayOvernightStop.address)}`
+                  : `Nuit sur la route vers ${trimAddress(route.segments[day.overnight.segmentIndex].to.address)}`}
+                {!dayOvernightStop && day.overnight.coordinates &&
+                  ` (${day.overnight.coordinates.latitude.toFixed(4)}, ${day.overnight.coordinates.longitude.toFixed(4)})`}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="space-y-2">
-          {visibleSegments.map((segment, index) => (
-            <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
-              <div className="flex items-center space-x-3 min-w-0 flex-1">
-                <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0">
-                  {index + 1}
+          {visibleSteps.map(({ segment, index, part, reachesEnd }) => {
+            const arrival = reachesEnd ? segmentArrival(route, index) : undefined;
+            // Part de l'étape roulée ce jour-là
+            const cost = segmentCost({
+              distance: segment.distance * part,
+              duration: segment.duration * part,
+              tollDistance: (segment.tollDistance ?? 0) * part,
+            }, costRates);
+            return (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
+                <div className="flex items-center space-x-3 min-w-0 flex-1">
+                  <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0">
+                    {index + 1}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium text-sm text-gray-900 truncate">
+                      {trimAddress(segment.from.address)}
+                    </div>
+                    <div className="text-xs text-gray-500 flex items-center">
+                      <Navigation className="h-3 w-3 mr-1" />
+                      {trimAddress(segment.to.address)}
+                    </div>
+                    {arrival && (
+                      <div className="text-xs text-blue-700">
+                        Arrivée {formatPlannedTime(arrival.arrivalTime, route.departureDate)}
+                        {arrival.departureTime > arrival.arrivalTime && ` · départ ${formatPlannedTime(arrival.departureTime, route.departureDate)}`}
+                        {` · ${arrival.cumulativeDistance.toFixed(1)} km cumulés`}
+                      </div>
+                    )}
+                    <div className="text-xs text-gray-500 truncate">
+                      {describeCostBreakdown(cost, formatPreciseCost)}
+                    </div>
+                  </div>
                 </div>
-                <div className="min-w-0 flex-1">
-                  <div className="font-medium text-sm text-gray-900 truncate">
-                    {trimAddress(segment.from.address)}
+                <div className="text-right flex-shrink-0 ml-3">
+                  <div className="text-sm font-medium text-gray-900">
+                    {segment.source === 'estimated' ? '≈ ' : ''}{(segment.distance * part).toFixed(1)} km
+                  </div>
+                  <div className="text-xs text-gray-500 flex items-center justify-end">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {formatDuration(segment.duration * part)}
                   </div>
-                  <div className="text-xs text-gray-500 flex items-center">
-                    <Navigation className="h-3 w-3 mr-1" />
-                    {trimAddress(segment.to.address)}
+                  <div className="text-xs text-gray-700">{formatPreciseCost(cost.total)}</div>
+                  {part < 1 && (
+                    <div className="text-xs text-indigo-700">Étape partielle</div>
+                  )}
+                  <div
+                    className={`text-xs ${segment.confidence === 'high' ? 'text-gray-400' : 'text-amber-700'}`}
+                    title={`Fiabilité : ${SEGMENT_CONFIDENCE_LABELS[segment.confidence]}`}
+                  >
+                    {SEGMENT_SOURCE_LABELS[segment.source]}
                   </div>
                 </div>
               </div>
-              <div className="text-right flex-shrink-0 ml-3">
-                <div className="text-sm font-medium text-gray-900">
-                  {segment.distance.toFixed(1)} km
-                </div>
-                <div className="text-xs text-gray-500 flex items-center justify-end">
-                  <Clock className="h-3 w-3 mr-1" />
-                  {formatDuration(segment.duration)}
+              {/* Pauses imposées par la réglementation, prises pendant ce segment */}
+              {route.breaks?.filter(pause => pause.segmentIndex === index && (!day || (pause.startTime >= day.startTime && pause.startTime < day.endTime))).map((pause, pauseIndex) => (
+                <div key={pauseIndex} className="flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-lg ml-6">
+                  <div className="flex items-center space-x-2 text-sm text-amber-900">
+                    {pause.type === 'daily_rest' ? <BedDouble className="h-4 w-4" /> : <Coffee className="h-4 w-4" />}
+                    <span className="font-medium">{DRIVING_REST_LABELS[pause.type]}</span>
+                    <span className="text-xs text-amber-700">à {formatPlannedTime(pause.startTime, route.departureDate)}</span>
+                  </div>
+                  <div className="text-xs text-amber-800 flex items-center">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {formatDuration(pause.duration)}
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
-          ))}
+            );
+          })}
         </div>
 
-        {!showAllSegments && route.segments.length > 4 && (
+        {!showAllSegments && steps.length > 4 && (
           <div className="text-center mt-3 text-sm text-gray-500">
-            ... et {route.segments.length - 4} autres étapes
+            ... et {steps.length - 4} autres étapes
           </div>
         )}
       </div>
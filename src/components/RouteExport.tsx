@@ -1,6 +1,11 @@
 import { useState } from 'react';
 import { Download, Share2, Navigation } from 'lucide-react';
 import { Route } from '../types/index.ts';
+import { formatPlannedTime, plannedDateTime } from '../utils/schedule.ts';
+import { overnightStop, routeDayLine, segmentArrival } from '../utils/routeSchedule.ts';
+import { DRIVING_REST_LABELS } from '../utils/drivingRules.ts';
+import { estimatedSegmentsWarning, isEstimatedSegment } from '../utils/segmentQuality.ts';
+import { resolveCostRates, routeCostBreakdown, segmentCost, CostBreakdown } from '../utils/routeCost.ts';
 import { useNotifications } from './Notification.tsx';
 import LoadingSpinner from './LoadingSpinner.tsx';
 import jsPDF from 'jspdf';
@@ -26,6 +31,14 @@ export default function RouteExport({ route }: RouteExportProps) {
     }
   };
 
+  // Montants sans symbole €, absent des polices standard du PDF
+  const formatPDFCost = (euros: number): string => `${euros.toFixed(2)} EUR`;
+
+  const describePDFCost = (cost: CostBreakdown): string =>
+    [`carburant ${formatPDFCost(cost.fuel)}`, `chauffeur ${formatPDFCost(cost.driver)}`, `usure ${formatPDFCost(cost.wear)}`, cost.tolls > 0 && `peages ${formatPDFCost(cost.tolls)}`]
+      .filter(Boolean)
+      .join(', ');
+
   const captureMapAndGeneratePDF = async () => {
     try {
       // Générer une carte simple pour le PDF
@@ -272,6 +285,13 @@ export default function RouteExport({ route }: RouteExportProps) {
     pdf.setFont('helvetica', 'bold');
     pdf.setTextColor(52, 152, 219);
     pdf.text('INFORMATIONS DU TRAJET', 20, yPosition);
+    if (route.departureTime) {
+      const departureDay = route.departureDate ? plannedDateTime(0, route.departureDate)?.toLocaleDateString('fr-FR') : undefined;
+      pdf.setFontSize(11);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(100, 100, 100);
+      pdf.text(`Depart prevu ${departureDay ? `le ${departureDay} ` : ''}a ${route.departureTime}`, pageWidth - 20, yPosition, { align: 'right' });
+    }
     
     yPosition += 15;
     
@@ -334,6 +354,14 @@ export default function RouteExport({ route }: RouteExportProps) {
     pdf.setFont('helvetica', 'normal');
     pdf.setTextColor(100, 100, 100);
     pdf.text('DURÉE', box3X + boxWidth/2, box3Y + 28, { align: 'center' });
+    const durationDetails = [
+      route.totalServiceTime ? `temps sur place : ${formatDuration(route.totalServiceTime)}` : '',
+      route.totalBreakTime ? `pauses : ${formatDuration(route.totalBreakTime)}` : '',
+    ].filter(Boolean);
+    if (durationDetails.length > 0) {
+      pdf.setFontSize(durationDetails.length > 1 ? 6 : 8);
+      pdf.text(`dont ${durationDetails.join(', ')}`, box3X + boxWidth/2, box3Y + 33, { align: 'center' });
+    }
     
     yPosition += boxHeight + 15;
     
@@ -357,6 +385,11 @@ export default function RouteExport({ route }: RouteExportProps) {
     pdf.setFont('helvetica', 'normal');
     pdf.setTextColor(100, 100, 100);
     pdf.text('VÉHICULE', box4X + box2Width/2, box4Y + 28, { align: 'center' });
+    if (route.restrictionsVerified === false) {
+      pdf.setFontSize(8);
+      pdf.setTextColor(200, 120, 0);
+      pdf.text('restrictions non verifiees', box4X + box2Width/2, box4Y + 33, { align: 'center' });
+    }
     
     // Box 5: Trajet en boucle
     const box5X = box4X + box2Width + spacing;
@@ -386,6 +419,33 @@ export default function RouteExport({ route }: RouteExportProps) {
     pdf.text('BOUCLE', box5X + box2Width/2, box5Y + 28, { align: 'center' });
     
     yPosition += boxHeight + 20;
+
+    // Coût estimé du trajet et sa répartition
+    const routeCost = routeCostBreakdown(route);
+    pdf.setFillColor(240, 248, 240);
+    pdf.setDrawColor(76, 175, 80);
+    pdf.rect(15, yPosition - 10, pageWidth - 30, 14, 'FD');
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(46, 125, 50);
+    pdf.text(`COUT ESTIME ${formatPDFCost(routeCost.total)}`, 20, yPosition - 1);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.text(describePDFCost(routeCost), pageWidth - 20, yPosition - 1, { align: 'right' });
+    yPosition += 14;
+
+    // Segments estimés à vol d'oiseau : la distance totale n'est qu'approximative
+    const estimatedWarning = estimatedSegmentsWarning(route);
+    if (estimatedWarning) {
+      pdf.setFillColor(255, 243, 224);
+      pdf.setDrawColor(200, 120, 0);
+      pdf.rect(15, yPosition - 10, pageWidth - 30, 14, 'FD');
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(200, 120, 0);
+      pdf.text(estimatedWarning, pageWidth / 2, yPosition - 1, { align: 'center' });
+      yPosition += 14;
+    }
     
     // === CARTE SUR LA PREMIÈRE PAGE ===
     
@@ -453,61 +513,174 @@ export default function RouteExport({ route }: RouteExportProps) {
     yPosition = 40;
     pdf.setTextColor(0, 0, 0);
     
-    route.segments.forEach((segment, index) => {
-      // Vérifier si on a besoin d'une nouvelle page
-      if (yPosition > pageHeight - 70) {
-        pdf.addPage();
-        yPosition = 20;
+    const costRates = resolveCostRates(route.vehicleType, route.costSettings);
+
+    // Trajet sur plusieurs jours : une section par jour, sinon toutes les étapes à la suite
+    const sections = route.days && route.days.length > 1
+      ? route.days.map(day => ({ day, legs: day.legs }))
+      : [{ day: undefined, legs: route.segments.map((_, segmentIndex) => ({ segmentIndex, from: 0, to: 1 })) }];
+
+    sections.forEach(({ day, legs }, dayIndex) => {
+      if (day) {
+        if (yPosition > pageHeight - 90) {
+          pdf.addPage();
+          yPosition = 20;
+        }
+        const dayDate = route.departureDate ? plannedDateTime(day.startTime, route.departureDate)?.toLocaleDateString('fr-FR') : undefined;
+        pdf.setFillColor(63, 81, 181);
+        pdf.rect(15, yPosition - 5, pageWidth - 30, 14, 'F');
+        pdf.setTextColor(255, 255, 255);
+        pdf.setFontSize(12);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text(`JOUR ${dayIndex + 1}${dayDate ? ` - ${dayDate}` : ''}`, 20, yPosition + 4);
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(10);
+        pdf.text(
+          `${formatPlannedTime(day.startTime, route.departureDate)} > ${formatPlannedTime(day.endTime, route.departureDate)} - ${day.distance.toFixed(1)} km - travail ${formatDuration(day.workTime)}`,
+          pageWidth - 20,
+          yPosition + 4,
+          { align: 'right' }
+        );
+        yPosition += 19;
       }
+
+      legs.forEach(({ segmentIndex: index, from, to }) => {
+        const segment = route.segments[index];
+        const part = to - from;
+        // Vérifier si on a besoin d'une nouvelle page
+        if (yPosition > pageHeight - 70) {
+          pdf.addPage();
+          yPosition = 20;
+        }
       
-      // Encadré pour chaque étape
-      const stepHeight = 50;
+        // Encadré pour chaque étape
+        const stepHeight = 58;
       
-      // Couleur de fond alternée
-      if (index % 2 === 0) {
-        pdf.setFillColor(248, 249, 250);
-      } else {
-        pdf.setFillColor(255, 255, 255);
-      }
-      pdf.rect(15, yPosition - 5, pageWidth - 30, stepHeight, 'F');
-      pdf.setDrawColor(200, 200, 200);
-      pdf.rect(15, yPosition - 5, pageWidth - 30, stepHeight);
+        // Couleur de fond alternée
+        if (index % 2 === 0) {
+          pdf.setFillColor(248, 249, 250);
+        } else {
+          pdf.setFillColor(255, 255, 255);
+        }
+        pdf.rect(15, yPosition - 5, pageWidth - 30, stepHeight, 'F');
+        pdf.setDrawColor(200, 200, 200);
+        pdf.rect(15, yPosition - 5, pageWidth - 30, stepHeight);
       
-      // Numéro d'étape
-      pdf.setFillColor(156, 39, 176);
-      pdf.circle(25, yPosition + 10, 8, 'F');
-      pdf.setTextColor(255, 255, 255);
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(`${index + 1}`, 25, yPosition + 13, { align: 'center' });
+        // Numéro d'étape
+        pdf.setFillColor(156, 39, 176);
+        pdf.circle(25, yPosition + 10, 8, 'F');
+        pdf.setTextColor(255, 255, 255);
+        pdf.setFontSize(12);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text(`${index + 1}`, 25, yPosition + 13, { align: 'center' });
       
-      // Informations de l'étape
-      pdf.setTextColor(0, 0, 0);
-      pdf.setFontSize(11);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('DEPART:', 40, yPosition + 5);
-      pdf.setFont('helvetica', 'normal');
+        // Informations de l'étape
+        pdf.setTextColor(0, 0, 0);
+        pdf.setFontSize(11);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('DEPART:', 40, yPosition + 5);
+        pdf.setFont('helvetica', 'normal');
       
-      // Limiter la longueur des adresses
-      const fromAddress = segment.from.address.length > 45 ? segment.from.address.substring(0, 45) + '...' : segment.from.address;
-      const toAddress = segment.to.address.length > 45 ? segment.to.address.substring(0, 45) + '...' : segment.to.address;
+        // Limiter la longueur des adresses
+        const fromAddress = segment.from.address.length > 45 ? segment.from.address.substring(0, 45) + '...' : segment.from.address;
+        const toAddress = segment.to.address.length > 45 ? segment.to.address.substring(0, 45) + '...' : segment.to.address;
       
-      pdf.text(fromAddress, 75, yPosition + 5);
+        pdf.text(fromAddress, 75, yPosition + 5);
       
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('ARRIVEE:', 40, yPosition + 15);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(toAddress, 75, yPosition + 15);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('ARRIVEE:', 40, yPosition + 15);
+        pdf.setFont('helvetica', 'normal');
+        pdf.text(toAddress, 75, yPosition + 15);
       
-      // Métriques de l'étape simplifiées
-      pdf.setFont('helvetica', 'bold');
-      pdf.setTextColor(76, 175, 80);
-      pdf.text(`${segment.distance.toFixed(1)} km`, 40, yPosition + 30);
+        // Métriques de l'étape simplifiées
+        pdf.setFont('helvetica', 'bold');
+        pdf.setTextColor(76, 175, 80);
+        pdf.text(`${(segment.distance * part).toFixed(1)} km`, 40, yPosition + 30);
       
-      pdf.setTextColor(255, 152, 0);
-      pdf.text(formatDuration(segment.duration), 90, yPosition + 30);
+        pdf.setTextColor(255, 152, 0);
+        pdf.text(formatDuration(segment.duration * part), 90, yPosition + 30);
+
+        if (isEstimatedSegment(segment)) {
+          pdf.setFontSize(9);
+          pdf.setTextColor(200, 120, 0);
+          pdf.text('ESTIME (vol d\'oiseau)', 140, yPosition + 30);
+        } else if (part < 1) {
+          pdf.setFontSize(9);
+          pdf.setTextColor(63, 81, 181);
+          pdf.text('ETAPE PARTIELLE', 140, yPosition + 30);
+        }
+
+        // Horaires planifiés à l'arrivée de l'étape
+        const arrival = to === 1 ? segmentArrival(route, index) : undefined;
+        if (arrival) {
+          const departure = arrival.departureTime > arrival.arrivalTime ? ` - depart ${formatPlannedTime(arrival.departureTime, route.departureDate)}` : '';
+          pdf.setFontSize(10);
+          pdf.setFont('helvetica', 'normal');
+          pdf.setTextColor(52, 152, 219);
+          pdf.text(`Arrivee ${formatPlannedTime(arrival.arrivalTime, route.departureDate)}${departure}`, 40, yPosition + 40);
+          pdf.setTextColor(100, 100, 100);
+          pdf.text(`${arrival.cumulativeDistance.toFixed(1)} km cumules`, pageWidth - 20, yPosition + 40, { align: 'right' });
+        }
+
+        // Coût de la partie de l'étape roulée
+        const cost = segmentCost({
+          distance: segment.distance * part,
+          duration: segment.duration * part,
+          tollDistance: (segment.tollDistance ?? 0) * part,
+        }, costRates);
+        pdf.setFontSize(9);
+        pdf.setFont('helvetica', 'bold');
+        pdf.setTextColor(46, 125, 50);
+        pdf.text(`Cout ${formatPDFCost(cost.total)}`, 40, yPosition + 49);
+        pdf.setFont('helvetica', 'normal');
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(describePDFCost(cost), pageWidth - 20, yPosition + 49, { align: 'right' });
       
-      yPosition += stepHeight + 5;
+        yPosition += stepHeight + 5;
+
+        // Pauses réglementaires prises pendant cette étape
+        const inDay = (time: number) => !day || (time >= day.startTime && time < day.endTime);
+        route.breaks?.filter(pause => pause.segmentIndex === index && inDay(pause.startTime)).forEach(pause => {
+          if (yPosition > pageHeight - 50) {
+            pdf.addPage();
+            yPosition = 20;
+          }
+          pdf.setFillColor(255, 248, 225);
+          pdf.rect(25, yPosition - 5, pageWidth - 40, 14, 'F');
+          pdf.setDrawColor(255, 193, 7);
+          pdf.rect(25, yPosition - 5, pageWidth - 40, 14);
+          pdf.setTextColor(130, 90, 0);
+          pdf.setFontSize(10);
+          pdf.setFont('helvetica', 'bold');
+          pdf.text(DRIVING_REST_LABELS[pause.type].toUpperCase(), 30, yPosition + 4);
+          pdf.setFont('helvetica', 'normal');
+          pdf.text(`a ${formatPlannedTime(pause.startTime, route.departureDate)} - ${formatDuration(pause.duration)}`, pageWidth - 20, yPosition + 4, { align: 'right' });
+          yPosition += 19;
+        });
+      });
+
+      // Étape de nuit suggérée en fin de journée
+      if (day?.overnight) {
+        if (yPosition > pageHeight - 50) {
+          pdf.addPage();
+          yPosition = 20;
+        }
+        const stop = overnightStop(route, day);
+        const place = stop
+          ? `a ${stop.address.length > 60 ? stop.address.substring(0, 60) + '...' : stop.address}`
+          : day.overnight.coordinates
+            ? `sur la route, pres de ${day.overnight.coordinates.latitude.toFixed(4)}, ${day.overnight.coordinates.longitude.toFixed(4)}`
+            : 'sur la route';
+        pdf.setFillColor(232, 234, 246);
+        pdf.rect(15, yPosition - 5, pageWidth - 30, 14, 'F');
+        pdf.setTextColor(63, 81, 181);
+        pdf.setFontSize(10);
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('NUIT', 20, yPosition + 4);
+        pdf.setFont('helvetica', 'normal');
+        pdf.text(place, 35, yPosition + 4);
+        yPosition += 24;
+      }
     });
     
     // Footer professionnel
@@ -659,26 +832,66 @@ export default function RouteExport({ route }: RouteExportProps) {
     });
   };
 
+  // Horaires planifiés d'un arrêt, repris dans la description du point GPX
+  const formatGPXSchedule = (index: number): string => {
+    const stop = route.schedule?.[index];
+    if (!stop) return '';
+    const departure = stop.departureTime > stop.arrivalTime ? `, départ ${formatPlannedTime(stop.departureTime, route.departureDate)}` : '';
+    return ` - arrivée ${formatPlannedTime(stop.arrivalTime, route.departureDate)}${departure}, ${stop.cumulativeDistance.toFixed(1)} km cumulés`;
+  };
+
+  // Élément <time> d'un point, seulement quand la date de départ est connue
+  const formatGPXTime = (minutes?: number): string => {
+    const date = minutes !== undefined && route.departureDate ? plannedDateTime(minutes, route.departureDate) : null;
+    return date ? `\n      <time>${date.toISOString()}</time>` : '';
+  };
+
   const generateGPXFile = () => {
     const date = new Date().toISOString();
+    const estimatedWarning = estimatedSegmentsWarning(route);
+    // Une trace par jour pour un trajet sur plusieurs jours
+    const days = route.days && route.days.length > 1 ? route.days : [];
     return `<?xml version="1.0" encoding="UTF-8"?>
 <gpx version="1.1" creator="OptimiseurTrajet" xmlns="http://www.topografix.com/GPX/1/1">
   <metadata>
     <name>Trajet Optimisé</name>
-    <desc>Trajet généré le ${new Date().toLocaleDateString('fr-FR')}</desc>
+    <desc>Trajet généré le ${new Date().toLocaleDateString('fr-FR')}${estimatedWarning ? ` - ${estimatedWarning}` : ''}</desc>
     <time>${date}</time>
   </metadata>
+  ${(route.breaks ?? []).map(pause => 
+    pause.coordinates ? `
+  <wpt lat="${pause.coordinates.latitude}" lon="${pause.coordinates.longitude}">
+    <name>${DRIVING_REST_LABELS[pause.type]} ${formatPlannedTime(pause.startTime, route.departureDate)}</name>
+    <desc>${formatDuration(pause.duration)} pendant l'étape ${pause.segmentIndex + 1}</desc>
+    <type>${pause.type}</type>
+  </wpt>` : ''
+  ).join('')}
+  ${days.map((day, index) => 
+    day.overnight?.coordinates ? `
+  <wpt lat="${day.overnight.coordinates.latitude}" lon="${day.overnight.coordinates.longitude}">
+    <name>Nuit ${index + 1}</name>
+    <desc>${overnightStop(route, day)?.address ?? 'Sur la route'} - arrivée ${formatPlannedTime(day.endTime, route.departureDate)}, reprise ${formatPlannedTime(days[index + 1]?.startTime ?? day.endTime, route.departureDate)}</desc>
+    <type>overnight</type>
+  </wpt>` : ''
+  ).join('')}
   <rte>
     <name>Trajet Optimisé ${route.totalDistance.toFixed(1)}km</name>
-    <desc>${route.locations.length} arrêts - ${formatDuration(route.totalDuration)}</desc>
+    <desc>${route.locations.length} arrêts - ${formatDuration(route.totalDuration)}${estimatedWarning ? ` - ${estimatedWarning}` : ''}</desc>
     ${route.locations.map((location, index) => 
       location.coordinates ? `
-    <rtept lat="${location.coordinates.latitude}" lon="${location.coordinates.longitude}">
+    <rtept lat="${location.coordinates.latitude}" lon="${location.coordinates.longitude}">${formatGPXTime(route.schedule?.[index]?.arrivalTime)}
       <name>Arrêt ${index + 1}</name>
-      <desc>${location.address}</desc>
+      <desc>${location.address}${formatGPXSchedule(index)}</desc>
     </rtept>` : ''
     ).join('')}
-  </rte>
+  </rte>${days.map((day, index) => `
+  <trk>
+    <name>Jour ${index + 1}</name>
+    <desc>${formatPlannedTime(day.startTime, route.departureDate)} - ${formatPlannedTime(day.endTime, route.departureDate)}, ${day.distance.toFixed(1)} km</desc>
+    <trkseg>${routeDayLine(route, day).map(([lon, lat]) => `
+      <trkpt lat="${lat}" lon="${lon}"/>`).join('')}
+    </trkseg>
+  </trk>`).join('')}
 </gpx>`;
   };
 
@@ -1,32 +1,77 @@
 import { useState, useEffect } from 'react';
-import { Upload, MapPin, AlertCircle, Settings2, Fuel, Navigation, FileText, Map, Car, Clock, X } from 'lucide-react';
-import { Location, VehicleType, OptimizationMethod, Route } from '../types/index.ts';
-import { freeRoutingService } from '../services/freeRoutingService.ts';
-import { trimAddress } from '../utils/routeUtils.ts';
+import { Upload, MapPin, AlertCircle, Settings2, Fuel, Navigation, FileText, Map, Car, Clock, X, CheckCircle, TrendingDown, Hourglass, Package, RefreshCw, Moon } from 'lucide-react';
+import { Location, VehicleType, OptimizationMethod, ArrivalMode, Route, RouteOptimizationRequest, RouteOptimizationResponse, OptimizationPhase, OptimizationProgress, ScheduledStop, FleetOptimizationResponse, LoadDemand, CapacityStrategy, UnservedLocation, TruckProfile, CostSettings, ObjectiveWeights } from '../types/index.ts';
+import { routeWorkerClient } from '../services/routeWorkerClient.ts';
+import { isAbortError, throwIfAborted } from '../utils/abort.ts';
+import { DEFAULT_DEPARTURE_TIME, formatPlannedTime, localIsoDate } from '../utils/schedule.ts';
+import { overnightStop, rescheduleRoute } from '../utils/routeSchedule.ts';
+import { DRIVING_REST_LABELS } from '../utils/drivingRules.ts';
+import { trimAddress, getVehicleColor, formatDuration, routeStops } from '../utils/routeUtils.ts';
 import { getUserPreferences, saveUserPreferences } from '../utils/cacheManager.ts';
+import { DEFAULT_VEHICLE_CAPACITIES } from '../utils/capacity.ts';
+import { estimatedSegmentsWarning, isEstimatedSegment, SEGMENT_CONFIDENCE_LABELS, SEGMENT_SOURCE_LABELS } from '../utils/segmentQuality.ts';
+import { describeCostBreakdown, formatCost, formatPreciseCost, resolveCostRates, routeCostBreakdown, segmentCost } from '../utils/routeCost.ts';
+import { DEFAULT_OBJECTIVE_WEIGHTS } from '../utils/objective.ts';
 import LazyMap from './LazyMap.tsx';
 import AddressAutocomplete from './AddressAutocomplete.tsx';
 import LazyFileUpload from './LazyFileUpload.tsx';
 import LocationList from './LocationList.tsx';
 import RouteSettings from './RouteSettings.tsx';
+import FleetSettings, { FleetVehicleConfig } from './FleetSettings.tsx';
 import RouteExport from './RouteExport.tsx';
+import LoadChart from './LoadChart.tsx';
+import RouteAlternatives from './RouteAlternatives.tsx';
 import { useNotifications, NotificationContainer } from './Notification.tsx';
 import { StepProgress } from './Progress.tsx';
 import { AddressSuggestion } from '../hooks/useAddressSearch.ts';
+import { useProviderHealth } from '../hooks/useProviderHealth.ts';
 
 export default function RouteOptimizer() {
   const [locations, setLocations] = useState<Location[]>([]);
   const [vehicleType, setVehicleType] = useState<VehicleType>('car');
   const [optimizationMethod, setOptimizationMethod] = useState<OptimizationMethod>('balanced');
-  const [isLoop, setIsLoop] = useState(false);
+  const [arrivalMode, setArrivalMode] = useState<ArrivalMode>('last_stop');
+  const [startDepot, setStartDepot] = useState<Location | undefined>();
+  const [endDepot, setEndDepot] = useState<Location | undefined>();
+  const [departureTime, setDepartureTime] = useState(DEFAULT_DEPARTURE_TIME);
+  const [departureDate, setDepartureDate] = useState(localIsoDate);
+  // Tournée sur plusieurs jours : temps de travail maximal par jour, en minutes
+  const [maxWorkingDay, setMaxWorkingDay] = useState<number | undefined>();
+  const [defaultServiceDuration, setDefaultServiceDuration] = useState(0);
+  const [vehicleCapacities, setVehicleCapacities] = useState<Record<VehicleType, LoadDemand>>(DEFAULT_VEHICLE_CAPACITIES);
+  const [capacityStrategy, setCapacityStrategy] = useState<CapacityStrategy>('multiple_trips');
+  const [truckProfile, setTruckProfile] = useState<TruckProfile>({});
+  // Taux de coût saisis, par type de véhicule (vide : valeurs par défaut)
+  const [costSettings, setCostSettings] = useState<Record<VehicleType, CostSettings>>({ car: {}, truck: {} });
+  const [objectiveWeights, setObjectiveWeights] = useState<ObjectiveWeights>(DEFAULT_OBJECTIVE_WEIGHTS);
+  const [avoidTolls, setAvoidTolls] = useState(false);
+  const [avoidHighways, setAvoidHighways] = useState(false);
   const [newAddress, setNewAddress] = useState('');
   const [route, setRoute] = useState<Route | undefined>();
+  const [routeMetadata, setRouteMetadata] = useState<RouteOptimizationResponse['metadata'] | undefined>();
+  // Trajet proposé puis alternatives ; `route` est celui retenu par l'utilisateur
+  const [routeOptions, setRouteOptions] = useState<Route[]>([]);
+  const [previewRouteId, setPreviewRouteId] = useState<string | undefined>();
+  // Paramètres du dernier calcul, pour recalculer les segments estimés
+  const [routeRequest, setRouteRequest] = useState<RouteOptimizationRequest | undefined>();
+  const [isRecalculating, setIsRecalculating] = useState(false);
+  // Flotte : vide tant qu'un seul véhicule est utilisé
+  const [fleetVehicles, setFleetVehicles] = useState<FleetVehicleConfig[]>([]);
+  const [fleetResult, setFleetResult] = useState<FleetOptimizationResponse | undefined>();
   const [isCalculating, setIsCalculating] = useState(false);
   const [calculationError, setCalculationError] = useState<string | null>(null);
   const [showFileUpload, setShowFileUpload] = useState(false);
   const [calculationStep, setCalculationStep] = useState(0);
+  const [calculationDetail, setCalculationDetail] = useState<string | undefined>();
   const [showExportPopup, setShowExportPopup] = useState(false);
+  const [selectedDay, setSelectedDay] = useState(0);
   
+  const isLoop = arrivalMode === 'return_to_start';
+  // Adresse d'arrivée retenue seulement quand ce mode est choisi
+  const arrivalDepot = arrivalMode === 'end_depot' ? endDepot : undefined;
+  // Points du trajet : les arrêts de la liste et les dépôts choisis
+  const routePointCount = locations.length + (startDepot ? 1 : 0) + (arrivalDepot ? 1 : 0);
+
   // Contrôleur d'abandon pour annuler les calculs
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   
@@ -39,7 +84,19 @@ export default function RouteOptimizer() {
     if (savedPreferences) {
       setVehicleType(savedPreferences.vehicleType);
       setOptimizationMethod(savedPreferences.optimizationMethod);
-      setIsLoop(savedPreferences.isLoop);
+      setArrivalMode(savedPreferences.arrivalMode ?? (savedPreferences.isLoop ? 'return_to_start' : 'last_stop'));
+      setStartDepot(savedPreferences.startDepot);
+      setEndDepot(savedPreferences.endDepot);
+      setDepartureTime(savedPreferences.departureTime ?? DEFAULT_DEPARTURE_TIME);
+      setMaxWorkingDay(savedPreferences.maxWorkingDay);
+      setDefaultServiceDuration(savedPreferences.defaultServiceDuration ?? 0);
+      setVehicleCapacities(savedPreferences.vehicleCapacities ?? DEFAULT_VEHICLE_CAPACITIES);
+      setCapacityStrategy(savedPreferences.capacityStrategy ?? 'multiple_trips');
+      setTruckProfile(savedPreferences.truckProfile ?? {});
+      setCostSettings(savedPreferences.costSettings ?? { car: {}, truck: {} });
+      setObjectiveWeights(savedPreferences.objectiveWeights ?? DEFAULT_OBJECTIVE_WEIGHTS);
+      setAvoidTolls(savedPreferences.avoidTolls ?? false);
+      setAvoidHighways(savedPreferences.avoidHighways ?? false);
       console.log('📖 Préférences utilisateur restaurées');
     }
   }, []);
@@ -50,18 +107,171 @@ export default function RouteOptimizer() {
       vehicleType,
       optimizationMethod,
       isLoop,
+      arrivalMode,
+      startDepot,
+      endDepot,
+      departureTime,
+      maxWorkingDay,
+      defaultServiceDuration,
+      vehicleCapacities,
+      capacityStrategy,
+      truckProfile,
+      costSettings,
+      objectiveWeights,
+      avoidTolls,
+      avoidHighways,
       autoSaveLocations: true
     };
     saveUserPreferences(preferences);
-  }, [vehicleType, optimizationMethod, isLoop]);
+  }, [vehicleType, optimizationMethod, isLoop, arrivalMode, startDepot, endDepot, departureTime, maxWorkingDay, defaultServiceDuration, vehicleCapacities, capacityStrategy, truckProfile, costSettings, objectiveWeights, avoidTolls, avoidHighways]);
   
   const calculationSteps = [
     'Validation des adresses',
     'Calcul des distances',
     'Optimisation du trajet',
-    'Génération de la carte'
+    'Tracé du trajet'
   ];
 
+  // Étape affichée pour chaque phase du calcul
+  const phaseSteps: Record<OptimizationPhase, number> = {
+    validation: 0,
+    matrix: 1,
+    optimization: 2,
+    segments: 3
+  };
+
+  const formatProgressDetail = (progress: OptimizationProgress): string | undefined => {
+    switch (progress.phase) {
+      case 'matrix':
+        return progress.total ? `Matrice ${progress.completed ?? 0}/${progress.total} requête(s)` : undefined;
+      case 'optimization':
+        return progress.iterations !== undefined && progress.bestScore !== undefined
+          ? `${progress.iterations} amélioration(s) · meilleur score ${progress.bestScore.toFixed(1)}`
+          : undefined;
+      case 'segments':
+        return progress.total ? `Segment ${progress.completed ?? 0}/${progress.total}` : undefined;
+      default:
+        return undefined;
+    }
+  };
+
+  const handleProgress = (progress: OptimizationProgress) => {
+    setCalculationStep(phaseSteps[progress.phase]);
+    setCalculationDetail(formatProgressDetail(progress));
+  };
+
+  const unservedReasons: Record<UnservedLocation['reason'], string> = {
+    time_window: 'créneau',
+    shift_duration: 'amplitude',
+    capacity: 'capacité'
+  };
+
+  // Horaires planifiés par emplacement
+  const scheduleById: Record<string, ScheduledStop> = Object.fromEntries(
+    (route?.schedule ?? []).map(stop => [stop.locationId, stop])
+  );
+
+  // Trajet sur plusieurs jours : un onglet par jour, une étape coupée par la nuit y figure en partie
+  const days = route?.days && route.days.length > 1 ? route.days : undefined;
+  const day = days?.[Math.min(selectedDay, days.length - 1)];
+  const routeSteps = !route ? [] : day
+    ? day.legs.map(leg => ({ segment: route.segments[leg.segmentIndex], index: leg.segmentIndex, part: leg.to - leg.from, reachesEnd: leg.to === 1 }))
+    : route.segments.map((segment, index) => ({ segment, index, part: 1, reachesEnd: true }));
+  const dayOvernightStop = route && day ? overnightStop(route, day) : undefined;
+  const routeCost = route ? routeCostBreakdown(route) : undefined;
+  const costRates = route ? resolveCostRates(route.vehicleType, route.costSettings) : undefined;
+
+  // Trajets de la flotte avec la couleur de chaque véhicule
+  const fleetRouteLayers = fleetResult?.routes.flatMap(({ route: vehicleRoute }, index) =>
+    vehicleRoute ? [{ route: vehicleRoute, color: getVehicleColor(index) }] : []
+  );
+
+  // Nouveau départ ou nouvelle journée de travail : horaires et jours recalculés sur les segments
+  // déjà tracés, sans nouveau calcul d'itinéraire
+  const handleScheduleChange = (time: string, date: string, workingDay: number | undefined) => {
+    setDepartureTime(time);
+    setDepartureDate(date);
+    setMaxWorkingDay(workingDay);
+    const departure = { departureTime: time, departureDate: date };
+    const reschedule = (plannedRoute: Route) => rescheduleRoute(plannedRoute, { ...departure, maxWorkingDay: workingDay });
+    setRoute(current => current && reschedule(current));
+    setRouteOptions(options => options.map(reschedule));
+    setRouteRequest(request => request && { ...request, ...departure, maxWorkingDay: workingDay });
+    // Les tournées de la flotte ne sont pas découpées en jours
+    setFleetResult(result => result && {
+      ...result,
+      routes: result.routes.map(item => (item.route ? { ...item, route: rescheduleRoute(item.route, departure) } : item))
+    });
+  };
+
+  const clearRoutes = () => {
+    setRoute(undefined);
+    setRouteOptions([]);
+    setPreviewRouteId(undefined);
+    setRouteRequest(undefined);
+    setFleetResult(undefined);
+  };
+
+  // Segments estimés à vol d'oiseau : surveiller le retour du serveur de calcul
+  const estimatedSegmentCount = route?.segments.filter(isEstimatedSegment).length ?? 0;
+  const estimatedWarning = route ? estimatedSegmentsWarning(route) : null;
+  const providerHealth = useProviderHealth({ enabled: estimatedSegmentCount > 0, pollIntervalMs: 30000 });
+  const routingBackendLive = !!route && !!providerHealth?.routing[route.vehicleType];
+
+  const recalculateEstimatedSegments = async () => {
+    if (!route || !routeRequest) return;
+    setIsRecalculating(true);
+    try {
+      const response = await routeWorkerClient.recalculateEstimatedSegments(routeRequest, route);
+      setRouteOptions(options => options.map(option => (option.id === route.id ? response.route : option)));
+      setRoute(response.route);
+
+      const remaining = response.route.segments.filter(isEstimatedSegment).length;
+      addNotification(remaining === 0 ? {
+        type: 'success',
+        title: 'Segments recalculés',
+        message: 'Tous les segments suivent maintenant les routes.',
+        autoClose: true,
+        autoCloseDuration: 4000
+      } : {
+        type: 'warning',
+        title: 'Serveur toujours indisponible',
+        message: `${remaining} segment(s) restent estimés à vol d'oiseau.`,
+        autoClose: true
+      });
+    } catch (error) {
+      console.error('Échec du recalcul des segments estimés:', error);
+      addNotification({
+        type: 'error',
+        title: 'Erreur de calcul',
+        message: 'Impossible de recalculer les segments estimés.',
+        autoClose: true
+      });
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  // Liste des emplacements dans l'ordre d'un trajet : les arrêts non planifiés restent en fin de liste,
+  // les retours au dépôt entre deux voyages et les dépôts de départ et d'arrivée ne sont pas des emplacements
+  const routeStopList = (plannedRoute: Route): Location[] => [
+    ...routeStops(plannedRoute.locations, [startDepot?.id, arrivalDepot?.id]),
+    ...(plannedRoute.unservedLocations ?? []).map(item => item.location)
+  ];
+
+  const selectRouteOption = (option: Route) => {
+    setRoute(option);
+    setLocations(routeStopList(option));
+    setPreviewRouteId(undefined);
+  };
+
+  const previewRoute = routeOptions.find(option => option.id === previewRouteId);
+
+  const handleFleetVehiclesChange = (vehicles: FleetVehicleConfig[]) => {
+    setFleetVehicles(vehicles);
+    clearRoutes();
+  };
+
   const addLocation = () => {
     if (newAddress.trim()) {
       const newLocation: Location = {
@@ -98,26 +308,34 @@ export default function RouteOptimizer() {
     setNewAddress('');
     
     // Effacer la route existante car les emplacements ont changé
-    setRoute(undefined);
+    clearRoutes();
   };
 
   const removeLocation = (id: string) => {
     setLocations(locations.filter(loc => loc.id !== id));
     // Clear route if locations change
-    setRoute(undefined);
+    clearRoutes();
   };
 
   const toggleLockLocation = (id: string) => {
-    setLocations(locations.map(loc => 
-      loc.id === id ? { ...loc, isLocked: !loc.isLocked } : loc
+    // Verrouillé à sa position actuelle ; le type (départ, arrivée, fixe) se choisit dans la liste
+    setLocations(locations.map((loc, index) =>
+      loc.id === id
+        ? { ...loc, isLocked: !loc.isLocked, lockPosition: loc.isLocked ? undefined : 'fixed', order: index }
+        : loc
     ));
     // Clear route when locks change
-    setRoute(undefined);
+    clearRoutes();
+  };
+
+  const handleLocationChange = (id: string, changes: Partial<Location>) => {
+    setLocations(locations.map(loc => (loc.id === id ? { ...loc, ...changes } : loc)));
+    clearRoutes();
   };
 
   const handleLocationUpdate = (newLocations: Location[]) => {
     setLocations(newLocations);
-    setRoute(undefined);
+    clearRoutes();
   };
 
   const handleLocationEdit = (id: string, newAddress: string, coordinates?: { latitude: number; longitude: number }) => {
@@ -128,7 +346,7 @@ export default function RouteOptimizer() {
         coordinates: coordinates || undefined // Garder les coordonnées si fournies, sinon les supprimer
       } : loc
     ));
-    setRoute(undefined);
+    clearRoutes();
   };
 
   const handleFileUpload = (uploadedLocations: Location[], replaceExisting: boolean) => {
@@ -149,12 +367,12 @@ export default function RouteOptimizer() {
         autoClose: true
       });
     }
-    setRoute(undefined);
+    clearRoutes();
     setShowFileUpload(false);
   };
 
   const optimizeRoute = async () => {
-    if (locations.length < 2) {
+    if (routePointCount < 2) {
       setCalculationError('Au moins 2 emplacements sont requis');
       addNotification({
         type: 'warning',
@@ -186,6 +404,20 @@ export default function RouteOptimizer() {
       vehicleType,
       optimizationMethod,
       isLoop,
+      startDepot,
+      endDepot: arrivalDepot,
+      departureTime,
+      departureDate,
+      maxWorkingDay,
+      defaultServiceDuration,
+      vehicleCapacities,
+      capacityStrategy,
+      truckProfile,
+      costSettings,
+      objectiveWeights,
+      avoidTolls,
+      avoidHighways,
+      fleetVehicles: [...fleetVehicles],
       locations: [...locations] // Copie pour éviter les mutations
     };
 
@@ -196,54 +428,115 @@ export default function RouteOptimizer() {
     setIsCalculating(true);
     setCalculationError(null);
     setCalculationStep(0);
+    setCalculationDetail(undefined);
 
     try {
-      // Fonction helper pour les timeouts annulables
-      const abortableTimeout = (ms: number) => {
-        return new Promise<void>((resolve, reject) => {
-          const timeoutId = setTimeout(() => resolve(), ms);
-          
-          // Écouter l'événement d'annulation
-          controller.signal.addEventListener('abort', () => {
-            clearTimeout(timeoutId);
-            reject(new Error('Calcul annulé par l\'utilisateur'));
-          });
+      if (currentParams.fleetVehicles.length > 1) {
+        // Flotte : tous les véhicules partent du départ (sinon du premier emplacement),
+        // et finissent à l'adresse d'arrivée ou y reviennent
+        const [depot, ...stops] = currentParams.startDepot
+          ? [currentParams.startDepot, ...currentParams.locations]
+          : currentParams.locations;
+        const fleetResponse = await routeWorkerClient.calculateFleetRoutes({
+          vehicles: currentParams.fleetVehicles.map(vehicle => ({
+            ...vehicle,
+            startLocation: depot,
+            endLocation: currentParams.endDepot,
+            capacity: currentParams.vehicleCapacities[vehicle.vehicleType]
+          })),
+          locations: stops,
+          truckProfile: currentParams.truckProfile,
+          avoidTolls: currentParams.avoidTolls,
+          avoidHighways: currentParams.avoidHighways,
+          optimizationMethod: currentParams.optimizationMethod,
+          departureTime: currentParams.departureTime,
+          departureDate: currentParams.departureDate,
+          defaultServiceDuration: currentParams.defaultServiceDuration,
+          costSettings: currentParams.costSettings,
+          objectiveWeights: currentParams.objectiveWeights,
+          signal: controller.signal,
+          onProgress: progress => {
+            if (!controller.signal.aborted) handleProgress(progress);
+          },
         });
-      };
 
-      // Étape 1: Validation
-      setCalculationStep(0);
-      await abortableTimeout(500);
-      
-      // Étape 2: Calcul des distances
-      setCalculationStep(1);
-      await abortableTimeout(800);
-      
-      // Étape 3: Optimisation
-      setCalculationStep(2);
-      await abortableTimeout(200);
+        throwIfAborted(controller.signal);
+
+        setRoute(undefined);
+        setRouteOptions([]);
+        setFleetResult(fleetResponse);
 
-      // Utiliser les paramètres figés pour le calcul
-      const response = await freeRoutingService.calculateRoute({
+        if (fleetResponse.unservedLocations.length > 0) {
+          addNotification({
+            type: 'warning',
+            title: 'Arrêts non planifiés',
+            message: `${fleetResponse.unservedLocations.length} arrêt(s) ne tiennent dans aucune tournée (amplitude, créneau ou capacité).`,
+            autoClose: false
+          });
+        }
+
+        const usedVehicles = fleetResponse.routes.filter(item => item.route).length;
+        addNotification({
+          type: 'success',
+          title: 'Tournées optimisées',
+          message: `${usedVehicles} tournée(s) calculée(s) pour ${currentParams.fleetVehicles.length} véhicule(s).`,
+          autoClose: true,
+          autoCloseDuration: 4000
+        });
+        return;
+      }
+
+      // Utiliser les paramètres figés pour le calcul (exécuté dans le worker, annulable)
+      const request: RouteOptimizationRequest = {
         locations: currentParams.locations,
+        startLocation: currentParams.startDepot,
+        endLocation: currentParams.endDepot,
         vehicleType: currentParams.vehicleType,
+        truckProfile: currentParams.truckProfile,
         optimizationMethod: currentParams.optimizationMethod,
         isLoop: currentParams.isLoop,
+        avoidTolls: currentParams.avoidTolls,
+        avoidHighways: currentParams.avoidHighways,
+        departureTime: currentParams.departureTime,
+        departureDate: currentParams.departureDate,
+        maxWorkingDay: currentParams.maxWorkingDay,
+        defaultServiceDuration: currentParams.defaultServiceDuration,
+        costSettings: currentParams.costSettings[currentParams.vehicleType],
+        objectiveWeights: currentParams.objectiveWeights,
+        vehicleCapacity: currentParams.vehicleCapacities[currentParams.vehicleType],
+        capacityStrategy: currentParams.capacityStrategy,
+      };
+      const response = await routeWorkerClient.calculateRoute({
+        ...request,
+        signal: controller.signal,
+        onProgress: progress => {
+          if (!controller.signal.aborted) handleProgress(progress);
+        },
       });
       
       // Vérifier une dernière fois avant de finaliser
-      if (controller.signal.aborted) {
-        throw new Error('Calcul annulé par l\'utilisateur');
-      }
-      
-      // Étape 4: Génération de la carte
-      setCalculationStep(3);
-      await abortableTimeout(300);
+      throwIfAborted(controller.signal);
 
       setRoute(response.route);
+      setSelectedDay(0);
+      setRouteOptions([response.route, ...(response.alternativeRoutes ?? [])]);
+      setPreviewRouteId(undefined);
+      setRouteRequest(request);
+      setRouteMetadata(response.metadata);
       
       // Mettre à jour les emplacements avec l'ordre optimisé
-      setLocations(response.route.locations);
+      const unserved = response.route.unservedLocations ?? [];
+      setLocations(routeStopList(response.route));
+
+      if (unserved.length > 0) {
+        const reasons = [...new Set(unserved.map(item => unservedReasons[item.reason]))].join(', ');
+        addNotification({
+          type: 'warning',
+          title: 'Arrêts non planifiés',
+          message: `${unserved.length} arrêt(s) ont été retirés du trajet (${reasons}).`,
+          autoClose: false
+        });
+      }
       
       // Notification de succès
       addNotification({
@@ -256,7 +549,7 @@ export default function RouteOptimizer() {
       
       console.log('Trajet optimisé avec succès:', response);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('annulé')) {
+      if (isAbortError(error) || controller.signal.aborted) {
         addNotification({
           type: 'info',
           title: 'Calcul annulé',
@@ -279,6 +572,7 @@ export default function RouteOptimizer() {
     } finally {
       setIsCalculating(false);
       setCalculationStep(0);
+      setCalculationDetail(undefined);
       setAbortController(null);
     }
   };
@@ -333,6 +627,9 @@ export default function RouteOptimizer() {
                   onLocationEdit={handleLocationEdit}
                   onLocationDelete={removeLocation}
                   onLocationLock={toggleLockLocation}
+                  onLocationChange={handleLocationChange}
+                  scheduleById={route ? scheduleById : undefined}
+                  departureDate={route?.departureDate}
                 />
               </div>
 
@@ -350,7 +647,7 @@ export default function RouteOptimizer() {
                   <button
                     onClick={isCalculating ? cancelCalculation : optimizeRoute}
                     disabled={
-                      (!isCalculating && locations.length < 2) || 
+                      (!isCalculating && routePointCount < 2) || 
                       (!isCalculating && locations.some(loc => !loc.coordinates))
                     }
                     className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center touch-manipulation py-3 sm:py-2.5 text-base sm:text-sm"
@@ -374,6 +671,7 @@ export default function RouteOptimizer() {
                       <StepProgress 
                         steps={calculationSteps}
                         currentStep={calculationStep}
+                        detail={calculationDetail}
                         showLoadingDots={true}
                       />
                     </div>
@@ -420,10 +718,43 @@ export default function RouteOptimizer() {
                     onVehicleTypeChange={setVehicleType}
                     optimizationMethod={optimizationMethod}
                     onOptimizationMethodChange={setOptimizationMethod}
-                    isLoop={isLoop}
-                    onLoopChange={setIsLoop}
+                    startDepot={startDepot}
+                    onStartDepotChange={depot => { setStartDepot(depot); clearRoutes(); }}
+                    endDepot={endDepot}
+                    onEndDepotChange={depot => { setEndDepot(depot); clearRoutes(); }}
+                    arrivalMode={arrivalMode}
+                    onArrivalModeChange={setArrivalMode}
+                    departureTime={departureTime}
+                    onDepartureTimeChange={time => handleScheduleChange(time, departureDate, maxWorkingDay)}
+                    departureDate={departureDate}
+                    onDepartureDateChange={date => handleScheduleChange(departureTime, date, maxWorkingDay)}
+                    maxWorkingDay={maxWorkingDay}
+                    onMaxWorkingDayChange={minutes => handleScheduleChange(departureTime, departureDate, minutes)}
+                    defaultServiceDuration={defaultServiceDuration}
+                    onDefaultServiceDurationChange={setDefaultServiceDuration}
+                    vehicleCapacity={vehicleCapacities[vehicleType]}
+                    onVehicleCapacityChange={capacity => setVehicleCapacities({ ...vehicleCapacities, [vehicleType]: capacity })}
+                    capacityStrategy={capacityStrategy}
+                    onCapacityStrategyChange={setCapacityStrategy}
+                    truckProfile={truckProfile}
+                    onTruckProfileChange={setTruckProfile}
+                    costSettings={costSettings[vehicleType]}
+                    onCostSettingsChange={settings => setCostSettings({ ...costSettings, [vehicleType]: settings })}
+                    objectiveWeights={objectiveWeights}
+                    onObjectiveWeightsChange={setObjectiveWeights}
+                    avoidTolls={avoidTolls}
+                    onAvoidTollsChange={setAvoidTolls}
+                    avoidHighways={avoidHighways}
+                    onAvoidHighwaysChange={setAvoidHighways}
                     disabled={isCalculating}
                   />
+                  <div className="mt-2">
+                    <FleetSettings
+                      vehicles={fleetVehicles}
+                      onVehiclesChange={handleFleetVehiclesChange}
+                      disabled={isCalculating}
+                    />
+                  </div>
                 </div>
               </div>
             </div>
@@ -445,10 +776,20 @@ export default function RouteOptimizer() {
                 </div>
               )}
               
+              {previewRoute && (
+                <div className="mb-2 flex-shrink-0 flex items-center justify-between text-xs text-blue-800 bg-blue-50 p-2 rounded">
+                  <span>Aperçu d'un autre trajet : {previewRoute.totalDistance.toFixed(1)} km, {formatDuration(previewRoute.totalDuration)}</span>
+                  <button onClick={() => setPreviewRouteId(undefined)} className="font-medium hover:text-blue-600">
+                    Revenir au trajet retenu
+                  </button>
+                </div>
+              )}
+              
               <div className="flex-1 min-h-0 h-64 sm:h-80 lg:flex-1 lg:h-auto">
                 <LazyMap
-                  locations={locations}
-                  route={route}
+                  locations={previewRoute ? routeStopList(previewRoute) : locations}
+                  route={previewRoute ?? route}
+                  routes={fleetRouteLayers}
                 />
               </div>
             </div>
@@ -478,15 +819,90 @@ export default function RouteOptimizer() {
                   <div className="grid grid-cols-2 gap-2">
                     <div className="bg-blue-50 p-2 rounded">
                       <div className="text-xs font-medium text-blue-900">Distance</div>
-                      <div className="text-sm sm:text-sm font-bold text-blue-700">{route.totalDistance.toFixed(1)} km</div>
+                      <div className="text-sm sm:text-sm font-bold text-blue-700">{estimatedWarning ? '≈ ' : ''}{route.totalDistance.toFixed(1)} km</div>
                     </div>
                     <div className="bg-green-50 p-2 rounded">
                       <div className="text-xs font-medium text-green-900">Durée</div>
                       <div className="text-sm sm:text-sm font-bold text-green-700">
                         {Math.floor(route.totalDuration / 60)}h{String(Math.round(route.totalDuration % 60)).padStart(2, '0')}
                       </div>
+                      {route.totalServiceTime !== undefined && route.totalServiceTime > 0 && (
+                        <div className="text-xs text-green-800">
+                          dont {Math.floor(route.totalServiceTime / 60)}h{String(Math.round(route.totalServiceTime % 60)).padStart(2, '0')} sur place
+                        </div>
+                      )}
+                      {route.totalBreakTime !== undefined && route.totalBreakTime > 0 && (
+                        <div className="text-xs text-green-800">
+                          dont {Math.floor(route.totalBreakTime / 60)}h{String(Math.round(route.totalBreakTime % 60)).padStart(2, '0')} de pauses
+                        </div>
+                      )}
                     </div>
                   </div>
+
+                  {routeCost && (
+                    <div className="p-2 bg-gray-50 rounded text-xs text-gray-700">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">Coût estimé</span>
+                        <span className="font-bold text-gray-900">{formatCost(routeCost.total)}</span>
+                      </div>
+                      <div className="text-gray-500">{describeCostBreakdown(routeCost)}</div>
+                    </div>
+                  )}
+
+                  {route.avoidance && (
+                    <div className="p-2 bg-gray-50 rounded text-xs text-gray-700">
+                      <span className="font-medium">
+                        Sans {[route.avoidance.tolls && 'péages', route.avoidance.highways && 'autoroutes'].filter(Boolean).join(' ni ')}
+                      </span>
+                      {!route.avoidance.applied ? (
+                        <span className="text-amber-700"> : évitement non pris en charge par le serveur</span>
+                      ) : route.avoidance.extraDistance !== undefined && route.avoidance.extraDuration !== undefined && (
+                        <span>
+                          {' '}: {route.avoidance.extraDistance >= 0 ? '+' : ''}{route.avoidance.extraDistance.toFixed(1)} km,
+                          {' '}{route.avoidance.extraDuration >= 0 ? '+' : '-'}{formatDuration(Math.abs(route.avoidance.extraDuration))}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  <RouteAlternatives
+                    routes={routeOptions}
+                    selectedRouteId={route.id}
+                    previewRouteId={previewRouteId}
+                    onPreview={setPreviewRouteId}
+                    onSelect={selectRouteOption}
+                  />
+
+                  {route.restrictionsVerified === false && (
+                    <div className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 flex items-start">
+                      <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                      <span>
+                        <span className="font-medium">Restrictions non vérifiées</span> : trajet calculé sans le gabarit du camion (OpenRouteService indisponible)
+                      </span>
+                    </div>
+                  )}
+
+                  {estimatedWarning && (
+                    <div className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 space-y-1">
+                      <div className="flex items-start">
+                        <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                        <span>
+                          <span className="font-medium">{estimatedWarning}</span> : le serveur de calcul n'a pas répondu, ces segments sont estimés à vol d'oiseau.
+                          {routingBackendLive ? ' Il répond à nouveau.' : ' Nouvelle vérification toutes les 30 s.'}
+                        </span>
+                      </div>
+                      {routeRequest && (
+                        <button
+                          onClick={recalculateEstimatedSegments}
+                          disabled={!routingBackendLive || isRecalculating || isCalculating}
+                          className="flex items-center px-2 py-1 rounded bg-amber-600 text-white font-medium hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <RefreshCw className={`h-3 w-3 mr-1 ${isRecalculating ? 'animate-spin' : ''}`} />
+                          Recalculer les segments estimés
+                        </button>
+                      )}
+                    </div>
+                  )}
                   
                   {/* Additional details - more compact */}
                   <div className="space-y-1 text-xs">
@@ -505,7 +921,7 @@ export default function RouteOptimizer() {
                         <MapPin className="h-3 w-3 mr-1" />
                         Arrêts:
                       </span>
-                      <span className="font-medium text-gray-900">{route.locations.length}</span>
+                      <span className="font-medium text-gray-900">{routeStops(route.locations, [startDepot?.id, arrivalDepot?.id]).length}</span>
                     </div>
                     
                     <div className="flex items-center justify-between">
@@ -515,10 +931,76 @@ export default function RouteOptimizer() {
                       </span>
                       <span className="font-medium text-gray-900 text-right">
                         {optimizationMethod === 'shortest_distance' ? 'Distance' : 
-                         optimizationMethod === 'fastest_time' ? 'Temps' : 'Équilibré'}
+                         optimizationMethod === 'fastest_time' ? 'Temps' :
+                         optimizationMethod === 'lowest_cost' ? 'Coût' : 'Équilibré'}
                       </span>
                     </div>
+
+                    {routeMetadata?.isOptimal && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-600 flex items-center">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Ordre:
+                        </span>
+                        <span className="font-medium text-green-600">Optimal prouvé</span>
+                      </div>
+                    )}
+
+                    {routeMetadata?.localSearch && routeMetadata.localSearch.improvementPercent > 0 && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-600 flex items-center">
+                          <TrendingDown className="h-3 w-3 mr-1" />
+                          Amélioration:
+                        </span>
+                        <span className="font-medium text-green-600">
+                          -{routeMetadata.localSearch.improvementPercent.toFixed(1)}% vs glouton
+                        </span>
+                      </div>
+                    )}
+                    
+                    {route.totalWaitTime !== undefined && route.totalWaitTime > 0 && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-600 flex items-center">
+                          <Hourglass className="h-3 w-3 mr-1" />
+                          Attente créneaux:
+                        </span>
+                        <span className="font-medium text-gray-900">{Math.round(route.totalWaitTime)} min</span>
+                      </div>
+                    )}
+
+                    {route.unservedLocations && route.unservedLocations.length > 0 && (
+                      <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">
+                        <div className="font-medium flex items-center">
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          {route.unservedLocations.length} arrêt(s) non planifié(s)
+                        </div>
+                        <ul className="mt-1 space-y-0.5">
+                          {route.unservedLocations.map(({ location, reason }) => (
+                            <li key={location.id} className="truncate">
+                              {trimAddress(location.address)}
+                              {reason === 'time_window' && location.timeWindow
+                                ? ` (${location.timeWindow.start}–${location.timeWindow.end})`
+                                : ` (${unservedReasons[reason]})`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     
+                    {route.tripCount !== undefined && route.tripCount > 1 && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-600 flex items-center">
+                          <Package className="h-3 w-3 mr-1" />
+                          Voyages:
+                        </span>
+                        <span className="font-medium text-gray-900">{route.tripCount} (rechargement au dépôt)</span>
+                      </div>
+                    )}
+
+                    {route.loads && (
+                      <LoadChart locations={route.locations} loads={route.loads} capacity={route.capacity} />
+                    )}
+
                     {isLoop && (
                       <div className="flex items-center justify-between">
                         <span className="text-gray-600 flex items-center">
@@ -534,6 +1016,63 @@ export default function RouteOptimizer() {
             </div>
           )}
 
+          {/* Tournées de la flotte - Mobile: fourth order, Desktop: Columns 1-4, Row 4 */}
+          {fleetResult && (
+            <div className="order-4 lg:col-span-4 lg:row-span-1">
+              <div className="card h-full flex flex-col min-h-0">
+                <h2 className="text-base font-semibold text-gray-900 flex items-center mb-2 flex-shrink-0">
+                  <Fuel className="mr-2 h-4 w-4" />
+                  Tournées ({fleetResult.routes.length} véhicules)
+                </h2>
+
+                <div className="flex-1 overflow-y-auto min-h-0 space-y-1 text-xs">
+                  {fleetResult.routes.map(({ vehicle, route: vehicleRoute }, index) => (
+                    <div key={vehicle.id} className="flex items-center gap-3 p-2 bg-gray-50 rounded">
+                      <span
+                        className="w-3 h-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: getVehicleColor(index) }}
+                      />
+                      <span className="font-medium text-gray-900 w-24 truncate">{vehicle.name}</span>
+                      <span className="text-gray-600 w-16">{vehicle.vehicleType === 'car' ? 'Voiture' : 'Camion'}</span>
+                      {vehicleRoute ? (
+                        <>
+                          {/* Les dépôts ne sont pas comptés comme des arrêts */}
+                          <span className="text-gray-900">{routeStops(vehicleRoute.locations, [vehicle.startLocation.id, vehicle.endLocation?.id]).length} arrêt(s)</span>
+                          <span className="text-blue-700 font-medium">{vehicleRoute.totalDistance.toFixed(1)} km</span>
+                          <span className="text-green-700 font-medium">{formatDuration(vehicleRoute.totalDuration)}</span>
+                          {vehicle.maxShiftDuration !== undefined && (
+                            <span className="text-gray-500">/ {formatDuration(vehicle.maxShiftDuration)} max</span>
+                          )}
+                          {vehicleRoute.restrictionsVerified === false && (
+                            <span className="text-amber-700" title="Trajet calculé sans le gabarit du camion">restrictions non vérifiées</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-gray-500 italic">Aucun arrêt attribué</span>
+                      )}
+                    </div>
+                  ))}
+
+                  {fleetResult.unservedLocations.length > 0 && (
+                    <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">
+                      <div className="font-medium flex items-center">
+                        <AlertCircle className="h-3 w-3 mr-1" />
+                        {fleetResult.unservedLocations.length} arrêt(s) non planifié(s)
+                      </div>
+                      <ul className="mt-1 space-y-0.5">
+                        {fleetResult.unservedLocations.map(({ location, reason }) => (
+                          <li key={location.id} className="truncate">
+                            {trimAddress(location.address)} ({unservedReasons[reason]})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Détails - Mobile: last order, Desktop: Columns 2-4, Row 4 */}
           {route && (
             <div className="order-5 lg:col-span-3 lg:row-span-1">
@@ -545,9 +1084,55 @@ export default function RouteOptimizer() {
                   </h2>
                 </div>
                 
+                {days && (
+                  <div className="flex flex-wrap gap-1 mb-2 flex-shrink-0" role="tablist">
+                    {days.map((item, dayIndex) => (
+                      <button
+                        key={dayIndex}
+                        role="tab"
+                        aria-selected={item === day}
+                        onClick={() => setSelectedDay(dayIndex)}
+                        className={`px-2 py-0.5 rounded-full text-xs ${item === day ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                      >
+                        Jour {dayIndex + 1}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {day && (
+                  <div className="mb-2 p-2 bg-indigo-50 rounded text-xs text-indigo-900 flex-shrink-0">
+                    <div>
+                      {formatPlannedTime(day.startTime, route.departureDate)} → {formatPlannedTime(day.endTime, route.departureDate)}
+                      {` · ${day.distance.toFixed(1)} km · ${day.stopIds.length} arrêt(s) · travail ${formatDuration(day.workTime)}`}
+                    </div>
+                    {day.overnight && (
+                      <div className="mt-1 flex items-center">
+                        <Moon className="h-3 w-3 mr-1" />
+                        {dayOvernightStop
+                          ? `Nuit à ${trimAddress(dayOvernightStop.address)}`
+                          : `Nuit sur la route vers ${trimAddress(route.segments[day.overnight.segmentIndex].to.address)}`}
+                        {!dayOvernightStop && day.overnight.coordinates &&
+                          ` (${day.overnight.coordinates.latitude.toFixed(4)}, ${day.overnight.coordinates.longitude.toFixed(4)})`}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="flex-1 min-h-0 overflow-y-auto max-h-48 lg:max-h-none">
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
-                    {route.segments.map((segment, index) => (
+                    {routeSteps.map(({ segment, index, part, reachesEnd }) => {
+                      // Le retour d'une boucle arrive au point de départ, déjà planifié au départ
+                      const isReturn = index >= route.locations.length - 1;
+                      const arrival = isReturn || !reachesEnd ? undefined : scheduleById[segment.to.id];
+                      const cumulativeDistance = !reachesEnd ? undefined : isReturn ? route.totalDistance : arrival?.cumulativeDistance;
+                      // Part de l'étape roulée ce jour-là
+                      const cost = costRates && segmentCost({
+                        distance: segment.distance * part,
+                        duration: segment.duration * part,
+                        tollDistance: (segment.tollDistance ?? 0) * part,
+                      }, costRates);
+                      return (
                       <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded text-xs hover:bg-gray-100 transition-colors">
                         <div className="flex items-center space-x-2 min-w-0 flex-1">
                           <div className="w-5 h-5 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0">
@@ -559,21 +1144,64 @@ export default function RouteOptimizer() {
                             </div>
                             <div className="text-xs text-gray-500 flex items-center">
                               <Navigation className="h-3 w-3 mr-1" />
-                              {trimAddress(segment.to.address)}
+                              {segment.to.depotReturnOf ? 'Retour au dépôt pour recharger' : trimAddress(segment.to.address)}
                             </div>
+                            {arrival && (
+                              <div className={`text-xs ${arrival.lateness > 0 ? 'text-red-600' : arrival.waitTime > 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+                                Arrivée {formatPlannedTime(arrival.arrivalTime, route.departureDate)}
+                                {arrival.departureTime > arrival.arrivalTime && ` · départ ${formatPlannedTime(arrival.departureTime, route.departureDate)}`}
+                                {arrival.serviceDuration > 0 && ` · sur place ${formatDuration(arrival.serviceDuration)}`}
+                                {segment.to.timeWindow && ` · créneau ${segment.to.timeWindow.start}–${segment.to.timeWindow.end}`}
+                                {arrival.lateness > 0 && ` · retard ${Math.round(arrival.lateness)} min`}
+                                {arrival.waitTime > 0 && ` · attente ${Math.round(arrival.waitTime)} min`}
+                              </div>
+                            )}
+                            {cost && (
+                              <div className="text-xs text-gray-500 truncate" title="Coût de l'étape">
+                                {describeCostBreakdown(cost, formatPreciseCost)}
+                              </div>
+                            )}
+                            {isReturn && reachesEnd && route.returnTime !== undefined && (
+                              <div className="text-xs text-gray-500">
+                                Retour {formatPlannedTime(route.returnTime, route.departureDate)}
+                              </div>
+                            )}
+                            {route.breaks?.filter(pause => pause.segmentIndex === index && (!day || (pause.startTime >= day.startTime && pause.startTime < day.endTime))).map((pause, pauseIndex) => (
+                              <div key={pauseIndex} className="text-xs text-amber-700">
+                                {DRIVING_REST_LABELS[pause.type]} à {formatPlannedTime(pause.startTime, route.departureDate)} ({formatDuration(pause.duration)})
+                              </div>
+                            ))}
                           </div>
                         </div>
                         <div className="text-right flex-shrink-0 ml-2">
                           <div className="text-xs font-medium text-gray-900">
-                            {segment.distance.toFixed(1)} km
+                            {isEstimatedSegment(segment) ? '≈ ' : ''}{(segment.distance * part).toFixed(1)} km
                           </div>
                           <div className="text-xs text-gray-500 flex items-center justify-end">
                             <Clock className="h-3 w-3 mr-1" />
-                            {Math.round(segment.duration)} min
+                            {Math.round(segment.duration * part)} min
+                          </div>
+                          {cost && (
+                            <div className="text-xs text-gray-700">{formatPreciseCost(cost.total)}</div>
+                          )}
+                          {part < 1 && (
+                            <div className="text-xs text-indigo-700">Étape partielle</div>
+                          )}
+                          {cumulativeDistance !== undefined && (
+                            <div className="text-xs text-gray-400" title="Distance cumulée depuis le départ">
+                              Σ {cumulativeDistance.toFixed(1)} km
+                            </div>
+                          )}
+                          <div
+                            className={`text-xs ${segment.confidence === 'high' ? 'text-gray-400' : 'text-amber-700'}`}
+                            title={`Fiabilité : ${SEGMENT_CONFIDENCE_LABELS[segment.confidence]}`}
+                          >
+                            {SEGMENT_SOURCE_LABELS[segment.source]}
                           </div>
                         </div>
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               </div>
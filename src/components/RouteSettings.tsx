@@ -1,13 +1,47 @@
-﻿import { Truck, Car, Route, Clock, Fuel } from 'lucide-react';
-import { VehicleType, OptimizationMethod } from '../types/index.ts';
+﻿import { useState } from 'react';
+import { Truck, Car, Route, Clock, Fuel, Timer, Package, Ruler, Ban, MapPin, X, CalendarDays, Euro } from 'lucide-react';
+import { VehicleType, OptimizationMethod, LoadDemand, CapacityStrategy, TruckProfile, Location, ArrivalMode, CostSettings, ObjectiveWeights } from '../types/index.ts';
+import { LOAD_DIMENSIONS, LOAD_UNITS } from '../utils/capacity.ts';
+import { TRUCK_DIMENSIONS, TRUCK_DIMENSION_LABELS } from '../utils/truckProfile.ts';
+import { trimAddress } from '../utils/routeUtils.ts';
+import { DEFAULT_WORKING_DAY } from '../utils/schedule.ts';
+import { COST_SETTINGS, COST_SETTING_LABELS, resolveCostRates } from '../utils/routeCost.ts';
+import { normalizeObjectiveWeights, OBJECTIVE_CRITERIA, OBJECTIVE_CRITERION_LABELS } from '../utils/objective.ts';
+import AddressAutocomplete from './AddressAutocomplete.tsx';
 
 interface RouteSettingsProps {
   vehicleType: VehicleType;
   optimizationMethod: OptimizationMethod;
-  isLoop: boolean;
+  startDepot?: Location; // Fixed departure, not part of the stop list
+  endDepot?: Location; // Fixed arrival, used when `arrivalMode` is end_depot
+  arrivalMode: ArrivalMode;
+  departureTime: string; // "HH:MM"
+  departureDate: string; // "YYYY-MM-DD"
+  maxWorkingDay?: number; // Minutes per day, set when the route is planned over several days
+  defaultServiceDuration: number; // minutes
+  vehicleCapacity: LoadDemand; // Capacity of the selected vehicle profile
+  capacityStrategy: CapacityStrategy;
+  truckProfile: TruckProfile;
+  costSettings: CostSettings; // Cost rates of the selected vehicle type
+  objectiveWeights: ObjectiveWeights; // Slider values of the balanced method, between 0 and 1
+  avoidTolls: boolean;
+  avoidHighways: boolean;
   onVehicleTypeChange: (type: VehicleType) => void;
   onOptimizationMethodChange: (method: OptimizationMethod) => void;
-  onLoopChange: (isLoop: boolean) => void;
+  onStartDepotChange: (depot: Location | undefined) => void;
+  onEndDepotChange: (depot: Location | undefined) => void;
+  onArrivalModeChange: (mode: ArrivalMode) => void;
+  onDepartureTimeChange: (time: string) => void;
+  onDepartureDateChange: (date: string) => void;
+  onMaxWorkingDayChange: (minutes: number | undefined) => void;
+  onDefaultServiceDurationChange: (minutes: number) => void;
+  onVehicleCapacityChange: (capacity: LoadDemand) => void;
+  onCapacityStrategyChange: (strategy: CapacityStrategy) => void;
+  onTruckProfileChange: (profile: TruckProfile) => void;
+  onCostSettingsChange: (settings: CostSettings) => void;
+  onObjectiveWeightsChange: (weights: ObjectiveWeights) => void;
+  onAvoidTollsChange: (avoid: boolean) => void;
+  onAvoidHighwaysChange: (avoid: boolean) => void;
   disabled?: boolean; // Nouveau prop pour désactiver pendant les calculs
 }
 
@@ -27,13 +61,90 @@ interface OptimizationOption {
   color: string;
 }
 
+interface DepotInputProps {
+  id: string;
+  depot?: Location;
+  placeholder: string;
+  onChange: (depot: Location | undefined) => void;
+  disabled: boolean;
+}
+
+/**
+ * Address of a depot: autocomplete until one is chosen, then the address with a clear button
+ */
+function DepotInput({ id, depot, placeholder, onChange, disabled }: DepotInputProps) {
+  const [query, setQuery] = useState('');
+
+  if (depot) {
+    return (
+      <div className="flex items-center p-2 bg-white border border-gray-200 rounded text-sm text-gray-900">
+        <MapPin className="h-3 w-3 mr-1 text-indigo-600 flex-shrink-0" />
+        <span className="truncate flex-1" title={depot.address}>{trimAddress(depot.address)}</span>
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={disabled}
+          className="p-0.5 text-gray-400 hover:text-red-600 disabled:opacity-50"
+          title="Retirer l'adresse"
+          aria-label={`Retirer ${trimAddress(depot.address)}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <AddressAutocomplete
+      value={query}
+      onChange={setQuery}
+      onSelect={suggestion => {
+        onChange({
+          id,
+          address: suggestion.display_name,
+          coordinates: { latitude: parseFloat(suggestion.lat), longitude: parseFloat(suggestion.lon) },
+        });
+        setQuery('');
+      }}
+      placeholder={placeholder}
+      className="w-full text-sm"
+      disabled={disabled}
+    />
+  );
+}
+
 export default function RouteSettings({
   vehicleType,
   optimizationMethod,
-  isLoop,
+  startDepot,
+  endDepot,
+  arrivalMode,
+  departureTime,
+  departureDate,
+  maxWorkingDay,
+  defaultServiceDuration,
+  vehicleCapacity,
+  capacityStrategy,
+  truckProfile,
+  costSettings,
+  objectiveWeights,
+  avoidTolls,
+  avoidHighways,
   onVehicleTypeChange,
   onOptimizationMethodChange,
-  onLoopChange,
+  onStartDepotChange,
+  onEndDepotChange,
+  onArrivalModeChange,
+  onDepartureTimeChange,
+  onDepartureDateChange,
+  onMaxWorkingDayChange,
+  onDefaultServiceDurationChange,
+  onVehicleCapacityChange,
+  onCapacityStrategyChange,
+  onTruckProfileChange,
+  onCostSettingsChange,
+  onObjectiveWeightsChange,
+  onAvoidTollsChange,
+  onAvoidHighwaysChange,
   disabled = false
 }: RouteSettingsProps) {
   const vehicleOptions: VehicleOption[] = [
@@ -72,10 +183,19 @@ export default function RouteSettings({
       method: 'balanced',
       label: 'Équilibré',
       icon: Fuel,
-      description: 'Équilibre entre distance et temps',
+      description: 'Selon vos poids : distance, temps, coût et émissions',
       color: 'text-purple-600'
+    },
+    {
+      method: 'lowest_cost',
+      label: 'Coût le plus bas',
+      icon: Euro,
+      description: 'Minimise carburant, usure et salaire du chauffeur',
+      color: 'text-emerald-600'
     }
   ];
+  const defaultCostRates = resolveCostRates(vehicleType);
+  const objectiveShares = normalizeObjectiveWeights(objectiveWeights);
 
   return (
     <div className="space-y-4">
@@ -149,9 +269,30 @@ export default function RouteSettings({
             );
           })}
         </div>
+        {optimizationMethod === 'balanced' && (
+          <div className="mt-2 p-3 bg-gray-50 rounded-lg space-y-2">
+            <div className="text-xs text-gray-600">Poids de chaque critère (part de l'objectif)</div>
+            {OBJECTIVE_CRITERIA.map(criterion => (
+              <label key={criterion} className="flex items-center text-xs text-gray-600">
+                <span className="w-24">{OBJECTIVE_CRITERION_LABELS[criterion]}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={objectiveWeights[criterion]}
+                  onChange={(e) => onObjectiveWeightsChange({ ...objectiveWeights, [criterion]: Number(e.target.value) })}
+                  disabled={disabled}
+                  className="flex-1 accent-purple-600 disabled:opacity-50"
+                />
+                <span className="w-10 text-right">{Math.round(objectiveShares[criterion] * 100)} %</span>
+              </label>
+            ))}
+          </div>
+        )}
       </div>
 
-      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+      <div className="p-3 bg-gray-50 rounded-lg">
         <div className="flex items-center">
           <div className="mr-3">
             <div className="w-8 h-8 bg-indigo-100 rounded-lg flex items-center justify-center">
@@ -159,21 +300,314 @@ export default function RouteSettings({
             </div>
           </div>
           <div>
-            <div className="font-medium text-sm text-gray-900">Trajet en boucle</div>
-            <div className="text-xs text-gray-600">Retourner au point de départ</div>
+            <div className="font-medium text-sm text-gray-900">Départ et arrivée</div>
+            <div className="text-xs text-gray-600">Adresses fixes, en plus des arrêts de la liste</div>
+          </div>
+        </div>
+        <div className="mt-2 space-y-2">
+          <div>
+            <div className="text-xs text-gray-600 mb-0.5">Départ</div>
+            <DepotInput
+              id="depot_start"
+              depot={startDepot}
+              placeholder="Dépôt (vide : parmi les arrêts)"
+              onChange={onStartDepotChange}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <div className="text-xs text-gray-600 mb-0.5">Arrivée</div>
+            <select
+              value={arrivalMode}
+              onChange={(e) => onArrivalModeChange(e.target.value as ArrivalMode)}
+              disabled={disabled}
+              className="input-field w-full text-sm disabled:opacity-50"
+              aria-label="Arrivée"
+            >
+              <option value="return_to_start">Retour au départ</option>
+              <option value="end_depot">Autre adresse (domicile, second entrepôt)</option>
+              <option value="last_stop">Au dernier arrêt</option>
+            </select>
+          </div>
+          {arrivalMode === 'end_depot' && (
+            <DepotInput
+              id="depot_end"
+              depot={endDepot}
+              placeholder="Adresse d'arrivée"
+              onChange={onEndDepotChange}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-center">
+          <div className="mr-3">
+            <div className="w-8 h-8 bg-red-100 rounded-lg flex items-center justify-center">
+              <Ban className="h-4 w-4 text-red-600" />
+            </div>
+          </div>
+          <div>
+            <div className="font-medium text-sm text-gray-900">Éviter</div>
+            <div className="text-xs text-gray-600">Le surcoût en distance et en temps est indiqué dans les résultats</div>
+          </div>
+        </div>
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+          <label className={`flex items-center text-sm text-gray-700 ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+            <input
+              type="checkbox"
+              checked={avoidTolls}
+              onChange={(e) => onAvoidTollsChange(e.target.checked)}
+              disabled={disabled}
+              className="mr-2"
+            />
+            Péages
+          </label>
+          <label className={`flex items-center text-sm text-gray-700 ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+            <input
+              type="checkbox"
+              checked={avoidHighways}
+              onChange={(e) => onAvoidHighwaysChange(e.target.checked)}
+              disabled={disabled}
+              className="mr-2"
+            />
+            Autoroutes
+          </label>
+        </div>
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-center">
+          <div className="mr-3">
+            <div className="w-8 h-8 bg-emerald-100 rounded-lg flex items-center justify-center">
+              <Euro className="h-4 w-4 text-emerald-600" />
+            </div>
+          </div>
+          <div>
+            <div className="font-medium text-sm text-gray-900">
+              Coûts {vehicleType === 'car' ? 'de la voiture' : 'du camion'}
+            </div>
+            <div className="text-xs text-gray-600">Vide = valeur moyenne ; péages ajoutés quand le calcul les connaît</div>
+          </div>
+        </div>
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          {COST_SETTINGS.map(setting => (
+            <label key={setting} className="text-xs text-gray-600">
+              {COST_SETTING_LABELS[setting].label}
+              <div className="flex items-center mt-0.5">
+                <input
+                  type="number"
+                  min={0}
+                  step={COST_SETTING_LABELS[setting].step}
+                  value={costSettings[setting] ?? ''}
+                  placeholder={String(defaultCostRates[setting])}
+                  onChange={(e) => onCostSettingsChange({
+                    ...costSettings,
+                    [setting]: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value))
+                  })}
+                  disabled={disabled}
+                  className="input-field w-full text-sm disabled:opacity-50"
+                />
+                <span className="ml-1 whitespace-nowrap">{COST_SETTING_LABELS[setting].unit}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-center">
+          <div className="mr-3">
+            <div className="w-8 h-8 bg-amber-100 rounded-lg flex items-center justify-center">
+              <Clock className="h-4 w-4 text-amber-600" />
+            </div>
+          </div>
+          <div>
+            <div className="font-medium text-sm text-gray-900">Départ prévu</div>
+            <div className="text-xs text-gray-600">Heures d'arrivée à chaque arrêt et respect des créneaux</div>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="date"
+            value={departureDate}
+            onChange={(e) => e.target.value && onDepartureDateChange(e.target.value)}
+            disabled={disabled}
+            className="input-field w-36 text-sm disabled:opacity-50"
+            aria-label="Date de départ"
+          />
+          <input
+            type="time"
+            value={departureTime}
+            onChange={(e) => e.target.value && onDepartureTimeChange(e.target.value)}
+            disabled={disabled}
+            className="input-field w-28 text-sm disabled:opacity-50"
+            aria-label="Heure de départ"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-center">
+          <div className="mr-3">
+            <div className="w-8 h-8 bg-teal-100 rounded-lg flex items-center justify-center">
+              <Timer className="h-4 w-4 text-teal-600" />
+            </div>
+          </div>
+          <div>
+            <div className="font-medium text-sm text-gray-900">Temps sur place</div>
+            <div className="text-xs text-gray-600">Par arrêt, sauf valeur propre à l'arrêt</div>
           </div>
         </div>
-        <label className={`relative inline-flex items-center ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}>
+        <div className="flex items-center">
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={defaultServiceDuration}
+            onChange={(e) => onDefaultServiceDurationChange(Math.max(0, Number(e.target.value) || 0))}
+            disabled={disabled}
+            className="input-field w-20 text-sm disabled:opacity-50"
+            aria-label="Temps sur place par défaut en minutes"
+          />
+          <span className="ml-1 text-xs text-gray-600">min</span>
+        </div>
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <div className="mr-3">
+              <div className="w-8 h-8 bg-indigo-100 rounded-lg flex items-center justify-center">
+                <CalendarDays className="h-4 w-4 text-indigo-600" />
+              </div>
+            </div>
+            <div>
+              <div className="font-medium text-sm text-gray-900">Plusieurs jours</div>
+              <div className="text-xs text-gray-600">Découpe le trajet en journées avec une étape de nuit</div>
+            </div>
+          </div>
           <input
             type="checkbox"
-            checked={isLoop}
-            onChange={(e) => !disabled && onLoopChange(e.target.checked)}
+            checked={maxWorkingDay !== undefined}
+            onChange={(e) => onMaxWorkingDayChange(e.target.checked ? DEFAULT_WORKING_DAY : undefined)}
             disabled={disabled}
-            className="sr-only peer"
+            aria-label="Tournée sur plusieurs jours"
           />
-          <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
-        </label>
+        </div>
+        {maxWorkingDay !== undefined && (
+          <div className="mt-2 flex items-center justify-end">
+            <span className="mr-2 text-xs text-gray-600">Journée de travail (conduite + sur place)</span>
+            <input
+              type="number"
+              min={1}
+              max={24}
+              step={0.5}
+              value={maxWorkingDay / 60}
+              onChange={(e) => Number(e.target.value) > 0 && onMaxWorkingDayChange(Math.round(Math.min(24, Number(e.target.value)) * 60))}
+              disabled={disabled}
+              className="input-field w-20 text-sm disabled:opacity-50"
+              aria-label="Temps de travail maximal par jour en heures"
+            />
+            <span className="ml-1 text-xs text-gray-600">h</span>
+          </div>
+        )}
       </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-center">
+          <div className="mr-3">
+            <div className="w-8 h-8 bg-orange-100 rounded-lg flex items-center justify-center">
+              <Package className="h-4 w-4 text-orange-600" />
+            </div>
+          </div>
+          <div>
+            <div className="font-medium text-sm text-gray-900">
+              Capacité {vehicleType === 'car' ? 'de la voiture' : 'du camion'}
+            </div>
+            <div className="text-xs text-gray-600">Vide = sans limite ; le départ (ou le premier emplacement) est le dépôt</div>
+          </div>
+        </div>
+        <div className="mt-2 grid grid-cols-3 gap-2">
+          {LOAD_DIMENSIONS.map(dimension => (
+            <div key={dimension} className="flex items-center">
+              <input
+                type="number"
+                min={0}
+                value={vehicleCapacity[dimension] ?? ''}
+                onChange={(e) => onVehicleCapacityChange({
+                  ...vehicleCapacity,
+                  [dimension]: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value))
+                })}
+                disabled={disabled}
+                className="input-field w-full text-sm disabled:opacity-50"
+                aria-label={`Capacité en ${LOAD_UNITS[dimension]}`}
+              />
+              <span className="ml-1 text-xs text-gray-600">{LOAD_UNITS[dimension]}</span>
+            </div>
+          ))}
+        </div>
+        <select
+          value={capacityStrategy}
+          onChange={(e) => onCapacityStrategyChange(e.target.value as CapacityStrategy)}
+          disabled={disabled}
+          className="input-field w-full mt-2 text-sm disabled:opacity-50"
+          aria-label="En cas de dépassement de capacité"
+        >
+          <option value="multiple_trips">Si plein : retour au dépôt pour recharger</option>
+          <option value="skip_stops">Si plein : laisser les arrêts en trop</option>
+        </select>
+      </div>
+
+      {vehicleType === 'truck' && (
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center">
+            <div className="mr-3">
+              <div className="w-8 h-8 bg-slate-200 rounded-lg flex items-center justify-center">
+                <Ruler className="h-4 w-4 text-slate-700" />
+              </div>
+            </div>
+            <div>
+              <div className="font-medium text-sm text-gray-900">Gabarit du camion</div>
+              <div className="text-xs text-gray-600">Ponts bas, rues étroites et tonnage vérifiés par OpenRouteService</div>
+            </div>
+          </div>
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            {TRUCK_DIMENSIONS.map(dimension => (
+              <label key={dimension} className="text-xs text-gray-600">
+                {TRUCK_DIMENSION_LABELS[dimension].label}
+                <div className="flex items-center mt-0.5">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={truckProfile[dimension] ?? ''}
+                    placeholder={String(TRUCK_DIMENSION_LABELS[dimension].example)}
+                    onChange={(e) => onTruckProfileChange({
+                      ...truckProfile,
+                      [dimension]: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value))
+                    })}
+                    disabled={disabled}
+                    className="input-field w-full text-sm disabled:opacity-50"
+                  />
+                  <span className="ml-1">{TRUCK_DIMENSION_LABELS[dimension].unit}</span>
+                </div>
+              </label>
+            ))}
+            <label className="flex items-center text-xs text-gray-700 col-span-2 mt-1">
+              <input
+                type="checkbox"
+                checked={truckProfile.hazmat ?? false}
+                onChange={(e) => onTruckProfileChange({ ...truckProfile, hazmat: e.target.checked || undefined })}
+                disabled={disabled}
+                className="mr-2"
+              />
+              Matières dangereuses (ADR)
+            </label>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
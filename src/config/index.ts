@@ -1,5 +1,31 @@
 // Environment configuration
 import { configLogger as logger } from '../utils/logger';
+import { ROUTING_PROVIDER_IDS, GEOCODING_PROVIDER_IDS, ProviderEndpoint } from '../services/providers/types';
+
+// Comma-separated provider list ("ors,osrm"); unknown ids are ignored
+const parseProviderList = <T extends string>(value: string | undefined, known: readonly T[], fallback: T[]): T[] => {
+  const ids = (value ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  const unknown = ids.filter(id => !known.includes(id as T));
+  if (unknown.length > 0) {
+    logger.warn(`Fournisseurs inconnus ignorés : ${unknown.join(', ')}`);
+  }
+  const valid = ids.filter((id): id is T => known.includes(id as T));
+  return valid.length > 0 ? valid : fallback;
+};
+
+// Backend base URL (without trailing slash) and optional auth header written "Name: value"
+const parseEndpoint = (url: string | undefined, fallbackUrl: string, authHeader: string | undefined): ProviderEndpoint => {
+  const endpoint: ProviderEndpoint = { url: (url || fallbackUrl).replace(/\/+$/, '') };
+  if (authHeader) {
+    const separator = authHeader.indexOf(':');
+    if (separator > 0) {
+      endpoint.headers = { [authHeader.slice(0, separator).trim()]: authHeader.slice(separator + 1).trim() };
+    } else {
+      logger.warn(`En-tête d'authentification ignoré pour ${endpoint.url} (format attendu "Nom: valeur")`);
+    }
+  }
+  return endpoint;
+};
 
 export const config = {
   mapbox: {
@@ -21,6 +47,44 @@ export const config = {
     enableFileUpload: import.meta.env.VITE_ENABLE_FILE_UPLOAD === 'true',
     enableAnalytics: import.meta.env.VITE_ENABLE_ANALYTICS === 'true',
   },
+  optimization: {
+    // Maximum time spent in the 2-opt / Or-opt improvement phase
+    localSearchTimeBudgetMs: Number(import.meta.env.VITE_LOCAL_SEARCH_TIME_BUDGET_MS) || 2000,
+  },
+  providers: {
+    // Moteurs de calcul par type de véhicule, par ordre de préférence (les suivants servent de secours)
+    routing: {
+      car: parseProviderList(import.meta.env.VITE_ROUTING_PROVIDERS_CAR, ROUTING_PROVIDER_IDS, ['osrm']),
+      truck: parseProviderList(import.meta.env.VITE_ROUTING_PROVIDERS_TRUCK, ROUTING_PROVIDER_IDS, ['ors', 'osrm']),
+    },
+    geocoding: parseProviderList(import.meta.env.VITE_GEOCODING_PROVIDERS, GEOCODING_PROVIDER_IDS, ['nominatim']),
+  },
+  // Serveurs publics par défaut, remplaçables par des instances auto-hébergées
+  endpoints: {
+    osrm: parseEndpoint(import.meta.env.VITE_OSRM_URL, 'https://router.project-osrm.org', import.meta.env.VITE_OSRM_AUTH_HEADER),
+    ors: parseEndpoint(import.meta.env.VITE_ORS_URL, 'https://api.openrouteservice.org', import.meta.env.VITE_ORS_AUTH_HEADER),
+    valhalla: parseEndpoint(import.meta.env.VITE_VALHALLA_URL, 'https://valhalla1.openstreetmap.de', import.meta.env.VITE_VALHALLA_AUTH_HEADER),
+    graphhopper: parseEndpoint(import.meta.env.VITE_GRAPHHOPPER_URL, 'https://graphhopper.com/api/1', import.meta.env.VITE_GRAPHHOPPER_AUTH_HEADER),
+    nominatim: parseEndpoint(import.meta.env.VITE_NOMINATIM_URL, 'https://nominatim.openstreetmap.org', import.meta.env.VITE_NOMINATIM_AUTH_HEADER),
+    // Nom du profil camion d'un serveur OSRM auto-hébergé (le serveur public n'en a pas)
+    osrmTruckProfile: import.meta.env.VITE_OSRM_TRUCK_PROFILE || undefined,
+  },
+  // Limites par serveur appliquées par le planificateur de requêtes
+  requestLimits: {
+    hosts: {
+      // Politiques d'usage des serveurs publics : 1 requête par seconde au maximum,
+      // par contexte (le thread principal et le worker ont chacun leur file)
+      'nominatim.openstreetmap.org': { minIntervalMs: 1000, maxConcurrent: 1 },
+      'router.project-osrm.org': { minIntervalMs: 1000, maxConcurrent: 1 },
+    } as Record<string, { minIntervalMs: number; maxConcurrent: number }>,
+    defaultLimit: { minIntervalMs: 0, maxConcurrent: 4 },
+  },
+  // Nouvelles tentatives après une erreur passagère (429, 5xx, réseau), puis disjoncteur par moteur
+  resilience: {
+    retry: { retries: 2, baseDelayMs: 500, maxDelayMs: 5000 },
+    failureThreshold: 3,
+    cooldownMs: 30000,
+  },
   map: {
     defaultCenter: {
       latitude: 48.8566,
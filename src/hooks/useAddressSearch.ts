@@ -1,4 +1,7 @@
 import { useState, useCallback, useRef } from 'react';
+import { config } from '../config/index.ts';
+import { NOMINATIM_USER_AGENT } from '../services/providers/nominatim.ts';
+import { requestScheduler } from '../services/requestScheduler.ts';
 
 export interface AddressSuggestion {
   display_name: string;
@@ -24,6 +27,11 @@ export interface AddressSuggestion {
 const searchCache = new Map<string, { results: AddressSuggestion[], timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+const nominatimHeaders = {
+  ...config.endpoints.nominatim.headers,
+  'User-Agent': NOMINATIM_USER_AGENT,
+};
+
 export function useAddressSearch() {
   const [suggestions, setSuggestions] = useState<AddressSuggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -123,18 +131,17 @@ export function useAddressSearch() {
       
       let url;
       if (isStructuredQuery) {
-        url = `https://nominatim.openstreetmap.org/search?${searchParams.toString()}`;
+        url = `${config.endpoints.nominatim.url}/search?${searchParams.toString()}`;
       } else {
         const encodedQuery = encodeURIComponent(searchQuery);
-        url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodedQuery}&countrycodes=${countryCode}&limit=12&addressdetails=1&dedupe=1&extratags=1`;
+        url = `${config.endpoints.nominatim.url}/search?format=json&q=${encodedQuery}&countrycodes=${countryCode}&limit=12&addressdetails=1&dedupe=1&extratags=1`;
       }
 
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'RouteOptimizer/1.0.0 (https://github.com/yourproject/route-optimizer)',
-        },
+      // Planificateur partagé : 1 requête/s vers le Nominatim public, prioritaire sur le géocodage en lot
+      const response = await requestScheduler.fetch(url, {
+        headers: nominatimHeaders,
         signal, // Ajouter le signal d'abandon
-      });
+      }, 'interactive');
 
       if (!response.ok) {
         throw new Error(`Erreur de recherche: ${response.statusText}`);
@@ -173,14 +180,12 @@ export function useAddressSearch() {
           
           try {
             const variantQuery = encodeURIComponent(variant);
-            const variantUrl = `https://nominatim.openstreetmap.org/search?format=json&q=${variantQuery}&countrycodes=${countryCode}&limit=6&addressdetails=1&dedupe=1`;
+            const variantUrl = `${config.endpoints.nominatim.url}/search?format=json&q=${variantQuery}&countrycodes=${countryCode}&limit=6&addressdetails=1&dedupe=1`;
             
-            const variantResponse = await fetch(variantUrl, {
-              headers: {
-                'User-Agent': 'RouteOptimizer/1.0.0 (https://github.com/yourproject/route-optimizer)',
-              },
+            const variantResponse = await requestScheduler.fetch(variantUrl, {
+              headers: nominatimHeaders,
               signal, // Ajouter le signal d'abandon
-            });
+            }, 'interactive');
             
             if (variantResponse.ok) {
               const variantData: AddressSuggestion[] = await variantResponse.json();
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { freeRoutingService } from '../services/freeRoutingService.ts';
+import { ProviderHealth } from '../services/providers/healthCheck.ts';
+
+interface ProviderHealthOptions {
+  enabled?: boolean; // Defaults to true
+  pollIntervalMs?: number; // Check again periodically, e.g. while waiting for a backend to come back
+}
+
+/**
+ * Backends in use, checked when the component mounts (null while checking)
+ */
+export function useProviderHealth({ enabled = true, pollIntervalMs }: ProviderHealthOptions = {}): ProviderHealth | null {
+  const [health, setHealth] = useState<ProviderHealth | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    const check = () => {
+      freeRoutingService.checkProviderHealth().then(result => {
+        if (!cancelled) setHealth(result);
+      });
+    };
+
+    check();
+    const timer = pollIntervalMs ? setInterval(check, pollIntervalMs) : undefined;
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled, pollIntervalMs]);
+
+  return health;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { combineRequestStats, requestScheduler } from '../services/requestScheduler.ts';
+import { routeWorkerClient } from '../services/routeWorkerClient.ts';
+import { RequestSchedulerStats } from '../types/index.ts';
+
+/**
+ * Live stats of the HTTP requests to the backends: address search on the main
+ * thread plus route calculations in the optimization worker
+ */
+export function useRequestStats(): RequestSchedulerStats {
+  const [mainStats, setMainStats] = useState(() => requestScheduler.getStats());
+  const [workerStats, setWorkerStats] = useState<RequestSchedulerStats | null>(null);
+
+  useEffect(() => {
+    const unsubscribeMain = requestScheduler.subscribe(setMainStats);
+    const unsubscribeWorker = routeWorkerClient.subscribeRequestStats(setWorkerStats);
+    return () => {
+      unsubscribeMain();
+      unsubscribeWorker();
+    };
+  }, []);
+
+  return workerStats ? combineRequestStats(mainStats, workerStats) : mainStats;
+}
@@ -1,60 +1,129 @@
-import { Location, Route, RouteSegment, VehicleType, OptimizationMethod, RouteOptimizationRequest, RouteOptimizationResponse } from '../types/index.ts';
+import { Location, Route, RouteSegment, VehicleType, OptimizationMethod, RouteOptimizationRequest, RouteOptimizationResponse, DistanceMatrix, OptimizationProgress, UnservedLocation, FleetOptimizationRequest, FleetOptimizationResponse, FleetRoute, LoadDemand, TruckProfile, RouteAvoidance, RouteAlternativeKind, SegmentConfidence, LockPosition } from '../types/index.ts';
 import { getCachedRoute, setCachedRoute } from '../utils/cacheManager.ts';
 import { routingLogger as logger } from '../utils/logger.ts';
 import { config } from '../config/index.ts';
+import { solveHeldKarp, HELD_KARP_MAX_NODES } from '../utils/tspSolver.ts';
+import { improveTour, createMatrixEvaluator } from '../utils/localSearch.ts';
+import { throwIfAborted, isAbortError } from '../utils/abort.ts';
+import { assignStopsToVehicles } from '../utils/fleetAssignment.ts';
+import { computeLoadProfile, fitsCapacity, hasDemand, splitIntoTrips, tripFitsCapacity, LoadStop } from '../utils/capacity.ts';
+import { findPickupDeliveryPairs, repairPrecedence, withPrecedence, PrecedencePair } from '../utils/precedence.ts';
+import { computeSchedule, createScheduleEvaluator, parseTimeOfDay, parseTimeWindow, DEFAULT_DEPARTURE_TIME, ScheduleStopInput } from '../utils/schedule.ts';
+import { rescheduleRoute, scheduleRoute } from '../utils/routeSchedule.ts';
+import { isEstimatedSegment } from '../utils/segmentQuality.ts';
+import { findRouteEnds, getLockPosition, resolveLockedOrder } from '../utils/lockPosition.ts';
+import { estimateRouteCost, formatCost } from '../utils/routeCost.ts';
+import { formatObjectiveWeights, objectiveSegmentWeights, resolveObjectiveWeights, SegmentWeights } from '../utils/objective.ts';
+import { createProviderRegistry, ProviderRegistry } from './providers/registry.ts';
+import { RoutingAdapter, RoutingOptions, RoutingProviderId, RoutedPath } from './providers/types.ts';
+import { CircuitBreaker, isRetryableError, withRetry } from './providers/resilience.ts';
+import { checkProviderHealth, ProviderHealth } from './providers/healthCheck.ts';
 
 export interface FreeRoutingProvider {
   calculateRoute(request: RouteOptimizationRequest): Promise<RouteOptimizationResponse>;
-  geocodeAddress(address: string): Promise<{ latitude: number; longitude: number } | null>;
+  geocodeAddress(address: string, signal?: AbortSignal): Promise<{ latitude: number; longitude: number } | null>;
 }
 
+interface OrderOptimizationResult {
+  locations: Location[];
+  algorithm: string;
+  isOptimal: boolean; // True when the order is proven optimal (exact solver)
+  localSearch?: RouteOptimizationResponse['metadata']['localSearch'];
+  unservedLocations?: UnservedLocation[];
+  matrix?: DistanceMatrix; // Built for the heuristics, reused to split trips
+}
+
+type ProgressCallback = (progress: OptimizationProgress) => void;
+
+// Paramètres partagés par les phases d'optimisation une fois la matrice construite
+interface OptimizationContext {
+  weights: SegmentWeights;
+  isLoop: boolean;
+  matrix: DistanceMatrix;
+  departureTime: number; // Minutes since midnight
+  defaultServiceDuration: number; // Minutes on site for stops without their own value
+  drivingRules: boolean; // Mandatory breaks are part of the schedule (trucks)
+  workingDay?: number; // Multi-day route: nights are part of the schedule
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+interface LocalSearchOutcome {
+  locations: Location[];
+  score: number; // Objective value, including time window penalties
+  stats: NonNullable<OrderOptimizationResult['localSearch']>;
+}
+
+// Minimum delay between two local search progress events
+const PROGRESS_THROTTLE_MS = 100;
+
 // Maximum number of segments to keep in cache to prevent memory leaks
 const MAX_SEGMENT_CACHE_SIZE = 100;
 
-// OpenRouteService API configuration
-const ORS_BASE_URL = 'https://api.openrouteservice.org';
+// Alternative routes returned next to the proposed one
+const MAX_ALTERNATIVE_ROUTES = 2;
+
+// Maximum number of coordinates sent in a single matrix request
+const MAX_TABLE_COORDINATES = 50;
 
 export class OpenStreetMapRoutingService implements FreeRoutingProvider {
-  private nominatimBaseUrl = 'https://nominatim.openstreetmap.org';
-  private osrmBaseUrl = 'https://router.project-osrm.org';
-  private openRouteServiceApiKey: string | null = null;
-  
   // Cache for calculated segments to avoid redundant API calls (LRU-like with max size)
   private segmentCache = new Map<string, RouteSegment>();
   private segmentCacheOrder: string[] = []; // Track insertion order for LRU eviction
-
-  constructor() {
-    // Check for OpenRouteService API key for real truck routing
-    this.openRouteServiceApiKey = import.meta.env.VITE_OPENROUTESERVICE_API_KEY || null;
-    if (this.openRouteServiceApiKey) {
-      logger.info('OpenRouteService API key configurée - routing camion réel activé');
+  // Second route of each segment (same key as the segment cache), for the "other roads" alternative
+  private segmentAlternatives = new Map<string, RouteSegment>();
+  // Disjoncteur de chaque moteur, conservé d'un calcul à l'autre
+  private circuitBreakers: Partial<Record<RoutingProviderId, CircuitBreaker>> = {};
+
+  // Moteurs de calcul et de géocodage, choisis par type de véhicule
+  constructor(private providers: ProviderRegistry = createProviderRegistry()) {
+    const truckChain = providers.routingChain('truck');
+    if (truckChain.some(adapter => adapter.supportsTruckProfile)) {
+      logger.info(`Routing camion réel activé (${truckChain.map(adapter => adapter.name).join(' → ')})`);
     }
   }
 
   /**
-   * Check if real truck routing is available via OpenRouteService
+   * Check if a configured backend routes trucks with their real profile
    */
   public hasTruckRouting(): boolean {
-    return !!this.openRouteServiceApiKey;
+    return this.providers.routingChain('truck').some(adapter => adapter.supportsTruckProfile);
   }
 
-  private generateSegmentKey(from: Location, to: Location, vehicleType: VehicleType): string {
-    return `${from.id}-${to.id}-${vehicleType}`;
+  /**
+   * Ping the configured backends and report the one each chain will use
+   */
+  public checkProviderHealth(): Promise<ProviderHealth> {
+    return checkProviderHealth(this.providers);
+  }
+
+  private generateSegmentKey(from: Location, to: Location, routing: RoutingOptions): string {
+    return `${from.id}-${to.id}-${routing.vehicleType}${routing.avoidTolls ? '-notoll' : ''}${routing.avoidHighways ? '-nomotorway' : ''}`;
   }
 
   private clearSegmentCache(): void {
     this.segmentCache.clear();
+    this.segmentAlternatives.clear();
   }
 
-  async calculateRoute(request: RouteOptimizationRequest): Promise<RouteOptimizationResponse> {
+  async calculateRoute(baseRequest: RouteOptimizationRequest): Promise<RouteOptimizationResponse> {
     const startTime = Date.now();
+    const request = this.withDepots(baseRequest);
     
     // Vérifier le cache en premier
     const cachedRoute = getCachedRoute(request);
     if (cachedRoute) {
       logger.debug('Route trouvée dans le cache, retour immédiat');
+      // Horaires recalculés pour le jour demandé (la date ne fait pas partie de la clé)
+      const route = rescheduleRoute(cachedRoute, { departureDate: request.departureDate });
       return {
-        route: cachedRoute,
+        route: {
+          ...route,
+          // Les trajets mis en cache avant l'ajout de la fiabilité n'ont que des segments calculés
+          segments: route.segments.map(segment => ({ ...segment, source: 'cache', confidence: segment.confidence ?? 'high' })),
+          // Les taux de coût ne font partie de la clé que lorsque le coût ou les émissions comptent
+          costSettings: request.costSettings,
+        },
         metadata: {
           calculationTime: Date.now() - startTime,
           algorithm: 'cache-hit',
@@ -66,7 +135,12 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     // Clear cache for each new route calculation
     this.clearSegmentCache();
     
+    const { signal } = request;
+
     try {
+      throwIfAborted(signal);
+      request.onProgress?.({ phase: 'validation' });
+
       // Vérifier que tous les emplacements ont des coordonnées
       const missingCoordinates = request.locations.filter(loc => !loc.coordinates);
       if (missingCoordinates.length > 0) {
@@ -79,138 +153,760 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
         throw new Error('Au moins 2 emplacements sont requis pour calculer un trajet');
       }
 
-      // Tous les emplacements ont des coordonnées, procéder à l'optimisation
-      const optimizedLocations = await this.optimizeLocationOrder(
-        request.locations,
-        request.optimizationMethod,
-        request.isLoop,
-        request.vehicleType
-      );
+      this.validatePickupDeliveryPairs(resolveLockedOrder(request.locations));
 
-      // Calculer les segments du trajet
-      const segments = await this.calculateRouteSegments(
-        optimizedLocations,
-        request.vehicleType,
-        request.isLoop
-      );
+      // Tous les emplacements ont des coordonnées, procéder à l'optimisation
+      const optimization = await this.optimizeLocationOrder(request);
 
-      const route: Route = {
-        id: this.generateRouteId(),
-        locations: optimizedLocations,
-        totalDistance: segments.reduce((sum, seg) => sum + seg.distance, 0),
-        totalDuration: segments.reduce((sum, seg) => sum + seg.duration, 0),
-        vehicleType: request.vehicleType,
-        isLoop: request.isLoop,
-        segments,
-        optimizationMethod: request.optimizationMethod,
-      };
+      // Calculer les segments, les horaires et les charges du trajet
+      const route = await this.buildRoute(request, optimization);
 
       // Log optimization results for debugging
       logger.debug('Optimisation de trajet terminée:', {
         vehicleType: request.vehicleType,
         method: request.optimizationMethod,
         isLoop: request.isLoop,
-        optimizationType: request.locations.length <= 8 ? 'advanced' : 'nearest-neighbor',
+        optimizationType: optimization.algorithm,
         totalDistance: route.totalDistance.toFixed(1) + 'km',
         totalDuration: Math.round(route.totalDuration) + 'min',
-        locationsOrder: optimizedLocations.map(loc => loc.address.substring(0, 30) + '...')
+        locationsOrder: route.locations.map(loc => loc.address.substring(0, 30) + '...')
       });
 
       // Enhanced logging to show parameter effects
-      if (request.optimizationMethod === 'shortest_distance') {
+      if (request.optimizationMethod === 'lowest_cost') {
+        logger.debug(`Optimisé pour COÛT LE PLUS BAS: ${formatCost(estimateRouteCost(route))}`);
+      } else if (request.optimizationMethod === 'shortest_distance') {
         logger.debug(`Optimisé pour DISTANCE LA PLUS COURTE: ${route.totalDistance.toFixed(1)}km`);
       } else if (request.optimizationMethod === 'fastest_time') {
         logger.debug(`Optimisé pour TEMPS LE PLUS RAPIDE: ${Math.round(route.totalDuration)}min`);
       } else {
-        logger.debug(`Optimisation ÉQUILIBRÉE: ${route.totalDistance.toFixed(1)}km / ${Math.round(route.totalDuration)}min`);
+        logger.debug(`Optimisation ÉQUILIBRÉE (${formatObjectiveWeights(resolveObjectiveWeights(request))}): ${route.totalDistance.toFixed(1)}km / ${Math.round(route.totalDuration)}min`);
       }
 
       // Cache performance summary
       logger.debug(`Performance du cache: ${this.segmentCache.size} segments en cache`);
 
-      // Sauvegarder la route calculée dans le cache
-      setCachedRoute(request, route);
+      const alternativeRoutes = request.alternatives === false
+        ? undefined
+        : await this.buildAlternativeRoutes(request, route, optimization.matrix);
+
+      // Ne jamais mettre en cache le résultat d'un calcul annulé
+      throwIfAborted(signal);
+
+      // Sauvegarder la route calculée dans le cache, sauf si des segments sont estimés (moteur indisponible)
+      if (route.segments.some(isEstimatedSegment)) {
+        logger.warn('Segments estimés à vol d\'oiseau : trajet non mis en cache');
+      } else {
+        setCachedRoute(request, route);
+      }
 
       return {
         route,
+        alternativeRoutes,
         metadata: {
           calculationTime: Date.now() - startTime,
-          algorithm: 'openstreetmap-free',
-          apiProvider: 'nominatim+osrm',
+          algorithm: optimization.algorithm,
+          apiProvider: this.describeProviders(request.vehicleType),
+          isOptimal: optimization.isOptimal,
+          localSearch: optimization.localSearch,
         },
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        logger.info('Calcul de trajet annulé');
+        throw error;
+      }
       logger.error('Échec du calcul de trajet:', error);
       throw new Error(`Impossible de calculer le trajet: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
     }
   }
 
-  async geocodeAddress(address: string): Promise<{ latitude: number; longitude: number } | null> {
+  /**
+   * Route again the segments of `route` estimated in a straight line, once the
+   * routing backend answers again. The stops and their order are kept.
+   */
+  async recalculateEstimatedSegments(baseRequest: RouteOptimizationRequest, route: Route): Promise<RouteOptimizationResponse> {
+    const startTime = Date.now();
+    const request = this.withDepots(baseRequest);
+    const routing = this.routingOptions(request);
+    const total = route.segments.filter(isEstimatedSegment).length;
+    let completed = 0;
+    request.onProgress?.({ phase: 'segments', completed, total });
+
+    const segments: RouteSegment[] = [];
+    for (const segment of route.segments) {
+      if (!isEstimatedSegment(segment)) {
+        segments.push(segment);
+        continue;
+      }
+      segments.push(await this.calculateSegment(segment.from, segment.to, routing, request.signal));
+      request.onProgress?.({ phase: 'segments', completed: ++completed, total });
+    }
+
+    const optimization = {
+      locations: route.locations,
+      algorithm: 'segment-recalculation',
+      isOptimal: false,
+      unservedLocations: route.unservedLocations,
+    };
+    const recalculated = await this.buildRoute(request, optimization, segments);
+    throwIfAborted(request.signal);
+
+    const remaining = segments.filter(isEstimatedSegment).length;
+    logger.info(`Segments estimés recalculés: ${total - remaining}/${total}`);
+    if (remaining === 0) {
+      setCachedRoute(request, recalculated);
+    }
+
+    return {
+      route: recalculated,
+      metadata: {
+        calculationTime: Date.now() - startTime,
+        algorithm: optimization.algorithm,
+        apiProvider: this.describeProviders(request.vehicleType),
+      },
+    };
+  }
+
+  /**
+   * Route through the optimized stops: road segments, schedule and loads.
+   * `roadSegments` replaces the segment calculation (alternative roads of the same order).
+   */
+  private async buildRoute(
+    request: RouteOptimizationRequest,
+    optimization: OrderOptimizationResult,
+    roadSegments?: RouteSegment[]
+  ): Promise<Route> {
+    const optimizedLocations = optimization.locations;
+    const routing = this.routingOptions(request);
+    const segments = roadSegments ?? await this.calculateRouteSegments(
+      optimizedLocations,
+      routing,
+      request.isLoop,
+      request.onProgress,
+      request.signal
+    );
+    const avoidance = await this.buildRouteAvoidance(optimizedLocations, segments, routing, request.isLoop, request.signal);
+
+    const defaultServiceDuration = request.defaultServiceDuration ?? 0;
+    const totalServiceTime = optimizedLocations.reduce(
+      (sum, loc) => sum + (loc.serviceDuration ?? defaultServiceDuration),
+      0
+    );
+    const routeSchedule = scheduleRoute(
+      optimizedLocations,
+      segments,
+      this.scheduleStops(optimizedLocations, defaultServiceDuration),
+      this.resolveDepartureTime(request),
+      this.hasDrivingRules(request.vehicleType),
+      request.maxWorkingDay
+    );
+    if (routeSchedule.days && routeSchedule.days.length > 1) {
+      logger.debug(`Trajet sur ${routeSchedule.days.length} jours (journée de ${request.maxWorkingDay} min)`);
+    }
+    if (routeSchedule.breaks?.length) {
+      logger.debug(`Réglementation temps de conduite: ${routeSchedule.breaks.length} pause(s) insérée(s), ${routeSchedule.totalBreakTime} min`);
+    }
+
+    const route: Route = {
+      id: this.generateRouteId(),
+      locations: optimizedLocations,
+      totalDistance: segments.reduce((sum, seg) => sum + seg.distance, 0),
+      totalDuration: segments.reduce((sum, seg) => sum + seg.duration, 0) + totalServiceTime + (routeSchedule.totalBreakTime ?? 0),
+      vehicleType: request.vehicleType,
+      isLoop: request.isLoop,
+      segments,
+      optimizationMethod: request.optimizationMethod,
+      departureTime: request.departureTime ?? DEFAULT_DEPARTURE_TIME,
+      departureDate: request.departureDate,
+      maxWorkingDay: request.maxWorkingDay,
+      costSettings: request.costSettings,
+      objectiveWeights: request.optimizationMethod === 'balanced' ? resolveObjectiveWeights(request) : undefined,
+      ...routeSchedule,
+      totalServiceTime,
+      unservedLocations: optimization.unservedLocations,
+      ...this.buildRouteLoads(optimizedLocations, request),
+      restrictionsVerified: request.vehicleType === 'truck'
+        ? segments.every(segment => segment.restrictionsVerified)
+        : undefined,
+      avoidance,
+    };
+
+    if (route.restrictionsVerified === false) {
+      logger.warn('Trajet camion calculé sans le profil poids lourd : restrictions non vérifiées');
+    }
+
+    return route;
+  }
+
+  /**
+   * Other candidates for the same stops: the orders found by the other optimization
+   * methods (on the same matrix), then the proposed order on the second road the routing backend offers
+   * for its segments. Candidates with the same order and roads as an earlier one are dropped.
+   */
+  private async buildAlternativeRoutes(
+    request: RouteOptimizationRequest,
+    route: Route,
+    matrix?: DistanceMatrix
+  ): Promise<Route[]> {
+    const alternatives: Route[] = [];
+    const orders = new Set([this.orderSignature(route.locations)]);
+    const alternativeRequest = { ...request, onProgress: undefined };
+
+    const otherMethods = (['shortest_distance', 'fastest_time', 'balanced', 'lowest_cost'] as OptimizationMethod[])
+      .filter(method => method !== request.optimizationMethod);
+    for (const method of otherMethods) {
+      if (alternatives.length >= MAX_ALTERNATIVE_ROUTES) break;
+      try {
+        const methodRequest = { ...alternativeRequest, optimizationMethod: method };
+        const optimization = await this.optimizeLocationOrder(methodRequest, matrix);
+        const signature = this.orderSignature(optimization.locations);
+        if (orders.has(signature)) continue;
+        orders.add(signature);
+        alternatives.push(this.asAlternative(await this.buildRoute(methodRequest, optimization), 'stop_order'));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        logger.warn(`Alternative « ${method} » ignorée:`, error);
+      }
+    }
+
+    const routing = this.routingOptions(request);
+    const otherRoads = route.segments.map(segment =>
+      this.segmentAlternatives.get(this.generateSegmentKey(segment.from, segment.to, routing)) ?? segment
+    );
+    if (alternatives.length < MAX_ALTERNATIVE_ROUTES && otherRoads.some((segment, index) => segment !== route.segments[index])) {
+      const optimization = { locations: route.locations, algorithm: 'alternative-roads', isOptimal: false, unservedLocations: route.unservedLocations };
+      alternatives.push(this.asAlternative(await this.buildRoute(alternativeRequest, optimization, otherRoads), 'roads'));
+    }
+
+    logger.debug(`${alternatives.length} trajet(s) alternatif(s) trouvé(s)`);
+    return alternatives;
+  }
+
+  private asAlternative(route: Route, kind: RouteAlternativeKind): Route {
+    return { ...route, alternativeKind: kind };
+  }
+
+  private orderSignature(locations: Location[]): string {
+    return locations.map(loc => loc.id).join('>');
+  }
+
+  /**
+   * Split the stops across a fleet and calculate one route per vehicle.
+   * Stops are assigned on a shared matrix, then each vehicle route is optimized
+   * like a single route with its depots locked at both ends.
+   */
+  async calculateFleetRoutes(request: FleetOptimizationRequest): Promise<FleetOptimizationResponse> {
+    const startTime = Date.now();
+    const { vehicles, onProgress, signal } = request;
+
     try {
-      const encodedAddress = encodeURIComponent(address);
-      const url = `${this.nominatimBaseUrl}/search?format=json&q=${encodedAddress}&limit=1&addressdetails=1`;
-      
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'RouteOptimizer/1.0.0 (https://github.com/yourproject/route-optimizer)',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Échec du géocodage: ${response.statusText}`);
+      throwIfAborted(signal);
+      onProgress?.({ phase: 'validation' });
+
+      if (vehicles.length === 0) {
+        throw new Error('Au moins un véhicule est requis');
+      }
+      const depots = vehicles.flatMap(vehicle => [vehicle.startLocation, vehicle.endLocation ?? vehicle.startLocation]);
+      const missingCoordinates = [...depots, ...request.locations].filter(loc => !loc.coordinates);
+      if (missingCoordinates.length > 0) {
+        throw new Error(
+          `Les emplacements suivants n'ont pas de coordonnées : ${missingCoordinates.map(loc => loc.address).join(', ')}`
+        );
       }
 
-      const data = await response.json();
-      
-      if (data && data.length > 0) {
-        const result = data[0];
-        return { 
-          latitude: parseFloat(result.lat), 
-          longitude: parseFloat(result.lon) 
-        };
+      // Le verrouillage n'a pas de sens une fois les arrêts répartis entre véhicules
+      const depotIds = new Set(depots.map(depot => depot.id));
+      const stops = request.locations
+        .filter(loc => !depotIds.has(loc.id))
+        .map(loc => ({ ...loc, isLocked: false, order: undefined }));
+      this.validatePickupDeliveryPairs(stops);
+
+      const points = [...new Map([...depots, ...stops].map(loc => [loc.id, loc])).values()];
+      // Une matrice par type de véhicule : un camion est réparti avec ses propres temps de trajet
+      const matrices: Partial<Record<VehicleType, DistanceMatrix>> = {};
+      for (const vehicleType of new Set(vehicles.map(vehicle => vehicle.vehicleType))) {
+        matrices[vehicleType] = await this.fetchDistanceMatrix(points, { ...this.routingOptions(request), vehicleType }, onProgress, signal);
+        throwIfAborted(signal);
       }
-      
-      return null;
+      const matrix = matrices[vehicles[0].vehicleType]!;
+      onProgress?.({ phase: 'optimization' });
+
+      const defaultServiceDuration = request.defaultServiceDuration ?? 0;
+      const stopInputs = Object.fromEntries(
+        stops.map(stop => [matrix.indexById[stop.id], this.scheduleStops([stop], defaultServiceDuration)[0]])
+      );
+      const assignment = assignStopsToVehicles(
+        stops.map(stop => matrix.indexById[stop.id]),
+        vehicles.map(vehicle => ({
+          startIndex: matrix.indexById[vehicle.startLocation.id],
+          endIndex: matrix.indexById[(vehicle.endLocation ?? vehicle.startLocation).id],
+          durations: matrices[vehicle.vehicleType]!.durations,
+          drivingRules: this.hasDrivingRules(vehicle.vehicleType),
+          maxShiftDuration: vehicle.maxShiftDuration,
+          capacity: vehicle.capacity,
+        })),
+        {
+          durations: matrix.durations,
+          stops: stopInputs,
+          demands: Object.fromEntries(stops.map(stop => [matrix.indexById[stop.id], stop.demand ?? {}])),
+          pickupOf: Object.fromEntries(findPickupDeliveryPairs(stops).map(([pickup, delivery]) => [
+            matrix.indexById[stops[delivery].id],
+            matrix.indexById[stops[pickup].id],
+          ])),
+          departureTime: this.resolveDepartureTime(request),
+          signal,
+        }
+      );
+      throwIfAborted(signal);
+
+      const unservedLocations: UnservedLocation[] = assignment.unassigned.map(({ stop, reason }) => ({
+        location: points[stop],
+        reason,
+      }));
+
+      const routes: FleetRoute[] = [];
+      for (let v = 0; v < vehicles.length; v++) {
+        const vehicle = vehicles[v];
+        onProgress?.({ phase: 'segments', completed: v, total: vehicles.length });
+        const tour = assignment.tours[v].map(index => points[index]);
+        if (tour.length === 0) {
+          routes.push({ vehicle });
+          continue;
+        }
+
+        // Dépôts verrouillés aux extrémités, sans temps sur place
+        const start: Location = { ...vehicle.startLocation, isLocked: true, lockPosition: 'start', serviceDuration: vehicle.startLocation.serviceDuration ?? 0 };
+        const end: Location | undefined = vehicle.endLocation && vehicle.endLocation.id !== vehicle.startLocation.id
+          ? { ...vehicle.endLocation, isLocked: true, lockPosition: 'end', serviceDuration: vehicle.endLocation.serviceDuration ?? 0 }
+          : undefined;
+
+        const { route } = await this.calculateRoute({
+          locations: end ? [start, ...tour, end] : [start, ...tour],
+          vehicleType: vehicle.vehicleType,
+          truckProfile: request.truckProfile,
+          avoidTolls: request.avoidTolls,
+          avoidHighways: request.avoidHighways,
+          isLoop: !end,
+          optimizationMethod: request.optimizationMethod,
+          departureTime: request.departureTime,
+          departureDate: request.departureDate,
+          defaultServiceDuration,
+          costSettings: request.costSettings?.[vehicle.vehicleType],
+          objectiveWeights: request.objectiveWeights,
+          // La répartition respecte déjà la capacité : un seul voyage par véhicule
+          vehicleCapacity: vehicle.capacity,
+          capacityStrategy: 'skip_stops',
+          alternatives: false,
+          signal,
+        });
+        unservedLocations.push(...(route.unservedLocations ?? []));
+        routes.push({ vehicle, route });
+      }
+      onProgress?.({ phase: 'segments', completed: vehicles.length, total: vehicles.length });
+
+      logger.debug('Répartition flotte terminée:', {
+        vehicles: vehicles.length,
+        stops: stops.length,
+        workloads: assignment.workloads.map(workload => Math.round(workload) + 'min'),
+        unserved: unservedLocations.length,
+      });
+
+      return {
+        routes,
+        unservedLocations,
+        metadata: {
+          calculationTime: Date.now() - startTime,
+          algorithm: 'fleet-balanced-insertion',
+          apiProvider: [...new Set(vehicles.map(vehicle => this.describeProviders(vehicle.vehicleType)))].join(', '),
+        },
+      };
     } catch (error) {
-      logger.error('Échec du géocodage:', error);
-      return null;
+      if (isAbortError(error)) {
+        logger.info('Calcul de flotte annulé');
+        throw error;
+      }
+      logger.error('Échec du calcul de flotte:', error);
+      throw new Error(`Impossible de répartir les arrêts: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
     }
   }
 
-  private async optimizeLocationOrder(
-    locations: Location[],
-    method: OptimizationMethod,
-    isLoop: boolean,
-    vehicleType: VehicleType
-  ): Promise<Location[]> {
-    if (locations.length <= 2) {
-      return locations;
+  async geocodeAddress(address: string, signal?: AbortSignal): Promise<{ latitude: number; longitude: number } | null> {
+    for (const geocoder of this.providers.geocodingChain()) {
+      try {
+        const coordinates = await geocoder.geocode(address, signal);
+        if (coordinates) return coordinates;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        logger.error(`Échec du géocodage (${geocoder.name}):`, error);
+      }
     }
+    return null;
+  }
+
+  /**
+   * Put the start and end depots of the request around its stops, locked at both ends.
+   * The end depot only applies to open routes: a loop goes back to the start.
+   */
+  private withDepots(request: RouteOptimizationRequest): RouteOptimizationRequest {
+    const { startLocation, endLocation, ...rest } = request;
+    const end = request.isLoop ? undefined : endLocation;
+    if (!startLocation && !end) return rest;
+
+    // Pas de temps sur place aux dépôts, sauf valeur propre
+    const depot = (location: Location, lockPosition: LockPosition): Location => ({
+      ...location,
+      isLocked: true,
+      lockPosition,
+      serviceDuration: location.serviceDuration ?? 0,
+    });
+    // Un dépôt déjà présent dans la liste (trajet précédent réutilisé) n'y figure qu'une fois
+    const depotIds = new Set([startLocation?.id, end?.id]);
+    return {
+      ...rest,
+      locations: [
+        ...(startLocation ? [depot(startLocation, 'start')] : []),
+        ...request.locations.filter(loc => !depotIds.has(loc.id)),
+        ...(end ? [depot(end, 'end')] : []),
+      ],
+    };
+  }
+
+  private async optimizeLocationOrder(request: RouteOptimizationRequest, matrix?: DistanceMatrix): Promise<OrderOptimizationResult> {
+    const locations = resolveLockedOrder(request.locations);
+    // Sans marchandise à transporter, la capacité ne contraint pas le trajet
+    if (!request.vehicleCapacity || !locations.some(loc => hasDemand(loc.demand))) {
+      return this.optimizeStopOrder({ ...request, locations }, matrix);
+    }
+
+    // Trajet ouvert sans départ imposé : le véhicule est chargé là où l'optimisation fait commencer le trajet
+    const lockedStart = locations.find(loc => loc.isLocked && loc.order === 0);
+    if (!lockedStart && !request.isLoop) {
+      const optimization = await this.optimizeStopOrder({ ...request, locations }, matrix);
+      return this.applyVehicleCapacity(optimization, request, request.vehicleCapacity);
+    }
+
+    // Le véhicule est chargé au dépôt (l'emplacement verrouillé au départ, sinon le premier de la boucle) : il reste en tête du trajet
+    const depot = lockedStart ?? locations.find(loc => !loc.isLocked) ?? locations[0];
+    const stops = locations.filter(loc => loc !== depot);
+    const optimization = await this.optimizeStopOrder({
+      ...request,
+      locations: [{ ...depot, isLocked: true, lockPosition: 'start', order: 0 }, ...stops],
+    }, matrix);
+    return this.applyVehicleCapacity(
+      { ...optimization, locations: [depot, ...optimization.locations.slice(1)] },
+      request,
+      request.vehicleCapacity
+    );
+  }
+
+  /**
+   * Optimize the visiting order; `knownMatrix` skips the /table calls when the
+   * same locations were already measured (alternative routes)
+   */
+  private async optimizeStopOrder(request: RouteOptimizationRequest, knownMatrix?: DistanceMatrix): Promise<OrderOptimizationResult> {
+    const { isLoop, vehicleType, onProgress, signal } = request;
+    const locations = resolveLockedOrder(request.locations);
 
     // Séparer les emplacements verrouillés
     const lockedLocations = locations.filter(loc => loc.isLocked);
     const unlockedLocations = locations.filter(loc => !loc.isLocked);
 
+    if (locations.length <= 2) {
+      return {
+        locations: this.mergeLockedLocations(locations.length, lockedLocations, unlockedLocations),
+        algorithm: 'trivial',
+        isOptimal: true,
+      };
+    }
+
     if (unlockedLocations.length === 0) {
-      return locations.sort((a, b) => (a.order || 0) - (b.order || 0));
+      return {
+        locations: this.mergeLockedLocations(locations.length, lockedLocations, []),
+        algorithm: 'locked-order',
+        isOptimal: false,
+      };
     }
 
-    // Pour des performances optimales avec l'API, utiliser une approche hybride
+    // Une seule matrice distance/durée alimente toutes les heuristiques
+    const matrix = knownMatrix ?? await this.fetchDistanceMatrix(locations, this.routingOptions(request), onProgress, signal);
+    throwIfAborted(signal);
+    onProgress?.({ phase: 'optimization' });
+
+    const weights = objectiveSegmentWeights(request);
+    const context: OptimizationContext = {
+      weights,
+      isLoop,
+      matrix,
+      departureTime: this.resolveDepartureTime(request),
+      defaultServiceDuration: request.defaultServiceDuration ?? 0,
+      drivingRules: this.hasDrivingRules(vehicleType),
+      workingDay: request.maxWorkingDay,
+      onProgress,
+      signal,
+    };
+
+    // Le départ et l'arrivée verrouillés encadrent les emplacements à ordonner
+    const { start, end } = findRouteEnds(lockedLocations);
+    const nodes = [...(start ? [start] : []), ...unlockedLocations, ...(end ? [end] : [])];
+    const isEnd = (loc: Location) => loc === start || loc === end;
+
     let optimized: Location[];
+    let algorithm: string;
     
-    if (unlockedLocations.length <= 8) {
-      // Pour peu d'emplacements, utiliser un algorithme plus sophistiqué
-      optimized = await this.advancedOptimization(unlockedLocations, method, isLoop, vehicleType);
+    if (nodes.length <= HELD_KARP_MAX_NODES) {
+      // Pour peu d'emplacements, résolution exacte (programmation dynamique)
+      // Le départ et l'arrivée sont fixes : une paire qui les contredit est corrigée ensuite
+      const fixedStart = !!start || isLoop;
+      const precedences = findPickupDeliveryPairs(nodes).filter(([pickup, delivery]) =>
+        !(fixedStart && delivery === 0) && !(end && pickup === nodes.length - 1)
+      );
+      optimized = this.exactOptimization(nodes, weights, isLoop, matrix, precedences, {
+        startIndex: fixedStart ? 0 : undefined,
+        endIndex: end ? nodes.length - 1 : undefined,
+      });
+      algorithm = 'held-karp';
     } else {
       // Pour beaucoup d'emplacements, utiliser l'algorithme du plus proche voisin amélioré
-      optimized = await this.nearestNeighborOptimization(unlockedLocations, method, isLoop);
+      // (l'arrivée verrouillée est rajoutée en dernier lors de la fusion)
+      optimized = this.nearestNeighborOptimization(nodes.filter(loc => loc !== end), weights, isLoop, matrix);
+      algorithm = 'nearest-neighbor';
+    }
+    optimized = optimized.filter(loc => !isEnd(loc));
+
+    // Fusionner avec les emplacements verrouillés, chaque collecte avant sa livraison
+    const merged = this.mergeLockedLocations(locations.length, lockedLocations, optimized);
+    const result = this.enforcePickupBeforeDelivery(merged);
+    const wasRepaired = result.some((loc, index) => loc !== merged[index]);
+
+    if (this.hasTimeWindows(locations)) {
+      return { ...this.timeWindowOptimization(result, lockedLocations, unlockedLocations, algorithm, context), matrix };
     }
 
-    // Fusionner avec les emplacements verrouillés
+    // Le départ et l'arrivée sont résolus exactement ; une position fixe ou une paire corrigée ôte la preuve
+    const isOptimal = algorithm === 'held-karp' && !lockedLocations.some(loc => getLockPosition(loc) === 'fixed') && !wasRepaired;
+    if (isOptimal) {
+      return { locations: result, algorithm: 'held-karp-optimal', isOptimal, matrix };
+    }
+
+    // Phase d'amélioration locale sur le trajet complet (emplacements verrouillés fixes)
+    throwIfAborted(signal);
+    const improvement = this.localSearchImprovement(result, context);
+    return {
+      locations: improvement.locations,
+      algorithm: `${algorithm}+local-search`,
+      isOptimal: false,
+      localSearch: improvement.stats,
+      matrix,
+    };
+  }
+
+  /**
+   * Keep the route within the vehicle capacity. The first location is the depot:
+   * either go back there to reload between trips (optimal split of the optimized order),
+   * or leave out the stops that no longer fit. A pickup and its delivery are always
+   * kept or left out together; a final destination locked at the end stays last.
+   */
+  private applyVehicleCapacity(
+    optimization: OrderOptimizationResult,
+    request: RouteOptimizationRequest,
+    capacity: LoadDemand
+  ): OrderOptimizationResult {
+    const [depot, ...others] = optimization.locations;
+    const destination = others.length > 0 && getLockPosition(others[others.length - 1]) === 'end' ? others[others.length - 1] : undefined;
+    const stops = destination ? others.slice(0, -1) : others;
+    const unservedLocations = [...(optimization.unservedLocations ?? [])];
+    const partners = this.pairPartners(stops);
+    const skipped = new Set<string>();
+    const skip = (stop: Location) => {
+      [stop, partners[stop.id]].forEach(loc => {
+        if (loc && !skipped.has(loc.id)) {
+          skipped.add(loc.id);
+          unservedLocations.push({ location: loc, reason: 'capacity' });
+        }
+      });
+    };
+
+    // Un arrêt plus gros que le véhicule ne peut être chargé dans aucun voyage
+    stops.filter(stop => !fitsCapacity(stop.demand, capacity)).forEach(skip);
+    const loadable = stops.filter(stop => !skipped.has(stop.id));
+
+    let locations = [depot, ...loadable];
+    let algorithm = optimization.algorithm;
+
+    if (!tripFitsCapacity(this.toLoadStops(loadable), capacity)) {
+      const trips = request.capacityStrategy === 'skip_stops'
+        ? null
+        : splitIntoTrips(
+            this.toLoadStops(loadable),
+            capacity,
+            (from, to) => this.capacityLegCost(from < 0 ? depot : loadable[from], to < 0 ? depot : loadable[to], request, optimization.matrix),
+            request.isLoop
+          );
+
+      if (trips) {
+        locations = [depot, ...trips.flatMap((trip, index) => [
+          ...(index > 0 ? [this.createDepotReturn(depot, index)] : []),
+          ...trip.map(position => loadable[position]),
+        ])];
+        if (optimization.matrix && this.hasTimeWindows(locations)) {
+          locations = this.dropLateAfterReloads(locations, request, optimization.matrix, unservedLocations);
+        }
+        algorithm = `${algorithm}+capacity-split`;
+        logger.debug(`Capacité dépassée: ${trips.length} voyages depuis le dépôt`);
+      } else {
+        // Garder les arrêts (ou paires collecte/livraison) dans l'ordre tant que le chargement tient
+        const kept = new Set<string>();
+        loadable.forEach(stop => {
+          if (kept.has(stop.id) || skipped.has(stop.id)) return;
+          const unit = [stop.id, partners[stop.id]?.id].filter((id): id is string => id !== undefined);
+          const candidate = loadable.filter(loc => kept.has(loc.id) || unit.includes(loc.id));
+          if (tripFitsCapacity(this.toLoadStops(candidate), capacity)) {
+            unit.forEach(id => kept.add(id));
+          } else {
+            skip(stop);
+          }
+        });
+        locations = [depot, ...loadable.filter(stop => kept.has(stop.id))];
+      }
+    }
+
+    if (skipped.size > 0) {
+      logger.warn(`${skipped.size} emplacement(s) impossible(s) à charger dans le véhicule`);
+    }
+    if (destination) {
+      locations = [...locations, destination];
+    }
+
+    return {
+      ...optimization,
+      locations,
+      algorithm,
+      isOptimal: optimization.isOptimal && locations.length === optimization.locations.length,
+      unservedLocations: unservedLocations.length > 0 ? unservedLocations : undefined,
+    };
+  }
+
+  /**
+   * Returns to the depot delay the stops that follow them: stops now late are
+   * removed one by one (with their pair partner) and reported as unserved,
+   * like in the time window pass
+   */
+  private dropLateAfterReloads(
+    locations: Location[],
+    request: RouteOptimizationRequest,
+    matrix: DistanceMatrix,
+    unservedLocations: UnservedLocation[]
+  ): Location[] {
+    const context = {
+      matrix,
+      departureTime: this.resolveDepartureTime(request),
+      defaultServiceDuration: request.defaultServiceDuration ?? 0,
+      drivingRules: this.hasDrivingRules(request.vehicleType),
+      workingDay: request.maxWorkingDay,
+    };
+    let current = locations;
+    for (;;) {
+      const schedule = this.scheduleFromMatrix(current, context);
+      const partners = this.pairPartners(current);
+      let worstIndex = -1;
+      schedule.stops.forEach((stop, index) => {
+        const location = current[index];
+        const removable = index > 0 && !location.depotReturnOf && !location.isLocked && !partners[location.id]?.isLocked;
+        if (removable && stop.lateness > 0 && (worstIndex < 0 || stop.lateness > schedule.stops[worstIndex].lateness)) {
+          worstIndex = index;
+        }
+      });
+      if (worstIndex < 0) return current;
+
+      const removed = current[worstIndex];
+      const partner = partners[removed.id];
+      [removed, partner].forEach(loc => {
+        if (loc) unservedLocations.push({ location: loc, reason: 'time_window' });
+      });
+      // Un retour au dépôt qui n'est plus suivi d'aucun arrêt disparaît
+      current = current
+        .filter(loc => loc !== removed && loc !== partner)
+        .filter((loc, index, list) => !loc.depotReturnOf || (index < list.length - 1 && !list[index + 1].depotReturnOf));
+    }
+  }
+
+  private capacityLegCost(
+    from: Location,
+    to: Location,
+    request: RouteOptimizationRequest,
+    matrix?: DistanceMatrix
+  ): number {
+    return matrix
+      ? this.scoreSegment(from, to, objectiveSegmentWeights(request), matrix)
+      : this.estimateSegment(from, to, request.vehicleType).distance;
+  }
+
+  /**
+   * Loads of a stop list, linking each delivery to its pickup position
+   */
+  private toLoadStops(locations: Location[]): LoadStop[] {
+    const positionById: Record<string, number> = Object.fromEntries(locations.map((loc, index) => [loc.id, index]));
+    return locations.map(loc => ({
+      demand: loc.demand,
+      pickupIndex: loc.pickupId !== undefined ? positionById[loc.pickupId] : undefined,
+    }));
+  }
+
+  /**
+   * Other half of each pickup/delivery pair, by location id
+   */
+  private pairPartners(locations: Location[]): Record<string, Location> {
+    const partners: Record<string, Location> = {};
+    findPickupDeliveryPairs(locations).forEach(([pickup, delivery]) => {
+      partners[locations[pickup].id] = locations[delivery];
+      partners[locations[delivery].id] = locations[pickup];
+    });
+    return partners;
+  }
+
+  /**
+   * Copy of the depot visited between two trips to reload the vehicle
+   */
+  private createDepotReturn(depot: Location, trip: number): Location {
+    return {
+      ...depot,
+      id: `${depot.id}_reload_${trip}`,
+      isLocked: false,
+      order: undefined,
+      timeWindow: undefined,
+      demand: undefined,
+      depotReturnOf: depot.id,
+    };
+  }
+
+  /**
+   * Load on board along the route, when the vehicle carries something
+   */
+  private buildRouteLoads(
+    locations: Location[],
+    request: RouteOptimizationRequest
+  ): Pick<Route, 'capacity' | 'loads' | 'tripCount'> {
+    if (!request.vehicleCapacity && !locations.some(loc => hasDemand(loc.demand))) return {};
+    return {
+      capacity: request.vehicleCapacity,
+      loads: computeLoadProfile(locations),
+      tripCount: 1 + locations.filter(loc => loc.depotReturnOf).length,
+    };
+  }
+
+  /**
+   * Put locked locations back at their `order` index, filling the gaps with the optimized ones
+   */
+  private mergeLockedLocations(
+    size: number,
+    lockedLocations: Location[],
+    optimized: Location[]
+  ): Location[] {
     const result: Location[] = [];
     let optimizedIndex = 0;
 
-    for (let i = 0; i < locations.length; i++) {
+    for (let i = 0; i < size; i++) {
       const lockedAtPosition = lockedLocations.find(loc => loc.order === i);
       if (lockedAtPosition) {
         result.push(lockedAtPosition);
@@ -218,54 +914,449 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
         result.push(optimized[optimizedIndex++]);
       }
     }
-
     return result;
   }
 
-  private async advancedOptimization(
+  /**
+   * A delivery must name an existing pickup that is not itself a delivery or shared;
+   * locked locations must already respect the pair order
+   */
+  private validatePickupDeliveryPairs(locations: Location[]): void {
+    const byId: Record<string, Location> = Object.fromEntries(locations.map(loc => [loc.id, loc]));
+    const usedPickups = new Set<string>();
+
+    locations.forEach(loc => {
+      const pickup = loc.pickupId !== undefined ? byId[loc.pickupId] : undefined;
+      // Collecte absente de la requête : simple livraison depuis le dépôt
+      if (!pickup) return;
+
+      if (pickup.id === loc.id || pickup.pickupId !== undefined || usedPickups.has(pickup.id)) {
+        throw new Error(`Paire collecte/livraison invalide pour "${loc.address}"`);
+      }
+      usedPickups.add(pickup.id);
+
+      if (pickup.isLocked && loc.isLocked && (loc.order ?? 0) < (pickup.order ?? 0)) {
+        throw new Error(`La livraison "${loc.address}" est verrouillée avant sa collecte "${pickup.address}"`);
+      }
+    });
+  }
+
+  /**
+   * Swap deliveries placed before their pickup, leaving locked locations in place
+   */
+  private enforcePickupBeforeDelivery(locations: Location[]): Location[] {
+    const pairs = findPickupDeliveryPairs(locations);
+    if (pairs.length === 0) return locations;
+
+    const fixedNodes = new Set(locations.map((loc, index) => (loc.isLocked ? index : -1)).filter(index => index >= 0));
+    return repairPrecedence(locations.map((_, index) => index), pairs, fixedNodes).map(index => locations[index]);
+  }
+
+  private hasTimeWindows(locations: Location[]): boolean {
+    return locations.some(loc => parseTimeWindow(loc.timeWindow) !== undefined);
+  }
+
+  /**
+   * EU driving time rules only apply to trucks
+   */
+  private hasDrivingRules(vehicleType: VehicleType): boolean {
+    return vehicleType === 'truck';
+  }
+
+  private routingOptions(request: { vehicleType?: VehicleType; truckProfile?: TruckProfile; avoidTolls?: boolean; avoidHighways?: boolean }): RoutingOptions {
+    return {
+      vehicleType: request.vehicleType ?? 'car',
+      truckProfile: request.truckProfile,
+      avoidTolls: request.avoidTolls,
+      avoidHighways: request.avoidHighways,
+    };
+  }
+
+  private requestsAvoidance(routing: RoutingOptions): boolean {
+    return !!routing.avoidTolls || !!routing.avoidHighways;
+  }
+
+  /**
+   * Routing backends for a vehicle type, in order of preference
+   */
+  private routingChain(vehicleType: VehicleType): RoutingAdapter[] {
+    const chain = this.providers.routingChain(vehicleType);
+    if (chain.length === 0) {
+      logger.warn(`Aucun moteur de calcul configuré pour ${vehicleType}, estimation à vol d'oiseau`);
+    }
+    return chain;
+  }
+
+  private describeProviders(vehicleType: VehicleType): string {
+    return [
+      ...this.providers.geocodingChain().map(geocoder => geocoder.id),
+      ...this.providers.routingChain(vehicleType).map(adapter => adapter.id),
+    ].join('+');
+  }
+
+  /**
+   * Route through `locations` with the first backend that answers
+   */
+  private async routeWithFallback(
     locations: Location[],
-    method: OptimizationMethod,
-    isLoop: boolean,
-    vehicleType: VehicleType
-  ): Promise<Location[]> {
-    if (locations.length <= 1) return locations;
+    routing: RoutingOptions,
+    pathOptions: { geometry: boolean; alternatives?: boolean },
+    signal?: AbortSignal
+  ): Promise<{ provider: RoutingProviderId; paths: RoutedPath[] }> {
+    const points = locations.map(loc => loc.coordinates!);
+    const { adapter, result } = await this.callWithFallback(
+      this.routingChain(routing.vehicleType),
+      adapter => adapter.route(points, routing, pathOptions, signal),
+      'Aucun moteur de calcul configuré',
+      signal
+    );
+    return { provider: adapter.id, paths: result };
+  }
 
-    // Essayer plusieurs permutations et garder la meilleure
-    const maxPermutations = Math.min(this.factorial(locations.length), 120); // Limiter pour les performances
-    let bestOrder = locations;
-    let bestScore = Infinity;
+  /**
+   * Call the backends in order until one answers (returned with its result).
+   * Transient errors are retried with backoff first; backends whose circuit is open are skipped.
+   */
+  private async callWithFallback<T>(
+    adapters: RoutingAdapter[],
+    call: (adapter: RoutingAdapter) => Promise<T>,
+    noBackendMessage: string,
+    signal?: AbortSignal
+  ): Promise<{ adapter: RoutingAdapter; result: T }> {
+    let lastError: unknown = new Error(noBackendMessage);
+    for (const adapter of adapters) {
+      const breaker = this.circuitBreaker(adapter.id);
+      if (!breaker.canRequest()) {
+        logger.debug(`${adapter.name} ignoré après des échecs répétés`);
+        lastError = new Error(`${adapter.name} temporairement indisponible`);
+        continue;
+      }
+      try {
+        const result = await withRetry(() => call(adapter), config.resilience.retry, signal, (error, attempt, delayMs) => {
+          logger.warn(`${adapter.name} a échoué, nouvel essai n°${attempt} dans ${Math.round(delayMs)} ms:`, error);
+        });
+        breaker.recordSuccess();
+        return { adapter, result };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Seules les pannes comptent : un « aucun trajet » est une vraie réponse
+        if (isRetryableError(error)) breaker.recordFailure();
+        logger.warn(`${adapter.name} a échoué, essai du moteur suivant:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
 
-    // Commencer par l'algorithme du plus proche voisin
-    const nearestNeighborResult = await this.nearestNeighborOptimization(locations, method, isLoop);
-    const nearestScore = await this.calculateOrderScore(nearestNeighborResult, method, isLoop, vehicleType);
-    
-    if (nearestScore < bestScore) {
-      bestScore = nearestScore;
-      bestOrder = nearestNeighborResult;
+  private circuitBreaker(id: RoutingProviderId): CircuitBreaker {
+    return this.circuitBreakers[id] ??= new CircuitBreaker(config.resilience.failureThreshold, config.resilience.cooldownMs);
+  }
+
+  private resolveDepartureTime(request: { departureTime?: string }): number {
+    const departure = request.departureTime ? parseTimeOfDay(request.departureTime) : null;
+    return departure ?? parseTimeOfDay(DEFAULT_DEPARTURE_TIME)!;
+  }
+
+  /**
+   * Find a feasible order for stops with time windows.
+   * Two starting tours (heuristic and earliest deadline first) are improved with a
+   * lateness-penalized objective; stops that stay late are then removed one by one
+   * and reported as unserved. All these searches share one time budget.
+   */
+  private timeWindowOptimization(
+    constructed: Location[],
+    lockedLocations: Location[],
+    unlockedLocations: Location[],
+    algorithm: string,
+    context: OptimizationContext
+  ): OrderOptimizationResult {
+    const deadline = (loc: Location) => parseTimeWindow(loc.timeWindow)?.end ?? Infinity;
+    const byDeadline = this.enforcePickupBeforeDelivery(this.mergeLockedLocations(
+      constructed.length,
+      lockedLocations,
+      [...unlockedLocations].sort((a, b) => deadline(a) - deadline(b))
+    ));
+
+    const searchDeadline = Date.now() + config.optimization.localSearchTimeBudgetMs;
+    const firstPass = [constructed, byDeadline]
+      .map(tour => this.localSearchImprovement(tour, context, searchDeadline))
+      .reduce((best, candidate) => (candidate.score < best.score ? candidate : best));
+
+    const unservedLocations: UnservedLocation[] = [];
+    let current = firstPass;
+    while (current.locations.length > 2) {
+      throwIfAborted(context.signal);
+      const schedule = this.scheduleFromMatrix(current.locations, context);
+
+      // Le point de départ d'une boucle et les emplacements verrouillés (ou liés à un verrouillé) restent planifiés
+      const partners = this.pairPartners(current.locations);
+      const isKept = (loc?: Location) => !!loc && (loc.isLocked || (context.isLoop && loc === current.locations[0]));
+      let worstIndex = -1;
+      schedule.stops.forEach((stop, index) => {
+        const location = current.locations[index];
+        const removable = !isKept(location) && !isKept(partners[location.id]);
+        if (removable && stop.lateness > 0 && (worstIndex < 0 || stop.lateness > schedule.stops[worstIndex].lateness)) {
+          worstIndex = index;
+        }
+      });
+      if (worstIndex < 0) break;
+
+      // Une collecte et sa livraison sont retirées ensemble
+      const removed = current.locations[worstIndex];
+      const partner = partners[removed.id];
+      [removed, partner].forEach(loc => {
+        if (loc) unservedLocations.push({ location: loc, reason: 'time_window' });
+      });
+      current = this.localSearchImprovement(
+        current.locations.filter(loc => loc !== removed && loc !== partner),
+        context,
+        searchDeadline
+      );
     }
 
-    // Essayer quelques permutations supplémentaires pour les petits ensembles
-    if (locations.length <= 6) {
-      const permutations = this.generatePermutations(locations, Math.min(maxPermutations, 20));
-      
-      for (const permutation of permutations) {
-        const score = await this.calculateOrderScore(permutation, method, isLoop, vehicleType);
-        if (score < bestScore) {
-          bestScore = score;
-          bestOrder = permutation;
+    if (unservedLocations.length > 0) {
+      logger.warn(`${unservedLocations.length} emplacement(s) impossible(s) à servir dans leur créneau`);
+    }
+
+    return {
+      locations: current.locations,
+      algorithm: `${algorithm}+time-windows`,
+      isOptimal: false,
+      localSearch: firstPass.stats,
+      unservedLocations: unservedLocations.length > 0 ? unservedLocations : undefined,
+    };
+  }
+
+  /**
+   * Estimate the schedule of a tour from matrix durations; a return to the
+   * depot uses the row of the depot
+   */
+  private scheduleFromMatrix(
+    locations: Location[],
+    context: Pick<OptimizationContext, 'matrix' | 'departureTime' | 'defaultServiceDuration' | 'drivingRules' | 'workingDay'>
+  ) {
+    const { matrix } = context;
+    const indexOf = (loc: Location) => matrix.indexById[loc.depotReturnOf ?? loc.id];
+    const legDurations = locations.slice(1).map((to, index) =>
+      matrix.durations[indexOf(locations[index])][indexOf(to)]
+    );
+    return computeSchedule(
+      this.scheduleStops(locations, context.defaultServiceDuration),
+      legDurations,
+      context.departureTime,
+      context.drivingRules,
+      context.workingDay
+    );
+  }
+
+  private scheduleStops(locations: Location[], defaultServiceDuration: number): ScheduleStopInput[] {
+    return locations.map(loc => ({
+      window: parseTimeWindow(loc.timeWindow),
+      serviceDuration: loc.serviceDuration ?? defaultServiceDuration,
+    }));
+  }
+
+  /**
+   * Improve a constructed tour with 2-opt / Or-opt / relocate moves,
+   * keeping locked locations at their position, until `deadline` at the latest
+   */
+  private localSearchImprovement(locations: Location[], context: OptimizationContext, deadline?: number): LocalSearchOutcome {
+    const { weights, isLoop, matrix, onProgress, signal } = context;
+    const costs = locations.map(from => locations.map(to => this.scoreSegment(from, to, weights, matrix)));
+    const fixedPositions = new Set(
+      locations.map((loc, index) => (loc.isLocked ? index : -1)).filter(index => index >= 0)
+    );
+
+    // Avec des créneaux horaires, l'objectif pénalise l'attente et surtout le retard ;
+    // pour un camion, les pauses obligatoires comptent dans le temps de trajet
+    const travelEvaluator = createMatrixEvaluator(costs, isLoop);
+    const usesSchedule = this.hasTimeWindows(locations) || (context.drivingRules && weights.duration > 0);
+    const baseEvaluate = usesSchedule
+      ? createScheduleEvaluator(
+          costs,
+          locations.map(from => locations.map(to => matrix.durations[matrix.indexById[from.id]][matrix.indexById[to.id]])),
+          this.scheduleStops(locations, context.defaultServiceDuration),
+          context.departureTime,
+          isLoop,
+          weights.wait,
+          context.drivingRules,
+          context.workingDay
+        )
+      : travelEvaluator;
+    // Un mouvement qui place une livraison avant sa collecte n'est jamais accepté
+    const evaluate = withPrecedence(baseEvaluate, findPickupDeliveryPairs(locations));
+
+    let lastProgressAt = 0;
+    const identity = locations.map((_, index) => index);
+    const result = improveTour(
+      identity,
+      evaluate,
+      {
+        isLoop,
+        fixedPositions,
+        timeBudgetMs: config.optimization.localSearchTimeBudgetMs,
+        deadline,
+        signal,
+        onImprovement: (iterations, score) => {
+          const now = Date.now();
+          if (onProgress && now - lastProgressAt >= PROGRESS_THROTTLE_MS) {
+            lastProgressAt = now;
+            onProgress({ phase: 'optimization', iterations, bestScore: score });
+          }
+        },
+      }
+    );
+    throwIfAborted(signal);
+    onProgress?.({ phase: 'optimization', iterations: result.iterations, bestScore: result.finalScore });
+
+    // Les statistiques ne portent que sur le coût de trajet
+    const initialScore = travelEvaluator(identity);
+    const finalScore = travelEvaluator(result.order);
+    const improvementPercent = initialScore > 0
+      ? ((initialScore - finalScore) / initialScore) * 100
+      : 0;
+
+    logger.debug(`Recherche locale: ${initialScore.toFixed(1)} → ${finalScore.toFixed(1)} (-${improvementPercent.toFixed(1)}%, ${result.iterations} mouvements${result.timedOut ? ', budget temps atteint' : ''})`);
+
+    return {
+      locations: result.order.map(index => locations[index]),
+      score: result.finalScore,
+      stats: {
+        initialScore,
+        finalScore,
+        improvementPercent,
+        iterations: result.iterations,
+        timedOut: result.timedOut,
+      },
+    };
+  }
+
+  /**
+   * Build the full distance/duration matrix with the matrix service of the routing backends.
+   * Large sets are split into source/destination blocks so that each request
+   * stays under the server's table size limit. Missing cells fall back to Haversine.
+   */
+  private async fetchDistanceMatrix(
+    locations: Location[],
+    routing: RoutingOptions,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<DistanceMatrix> {
+    const size = locations.length;
+    const distances = Array.from({ length: size }, () => new Array<number>(size).fill(NaN));
+    const durations = Array.from({ length: size }, () => new Array<number>(size).fill(NaN));
+    const indexById: Record<string, number> = {};
+    locations.forEach((loc, index) => {
+      indexById[loc.id] = index;
+    });
+
+    const indices = locations.map((_, index) => index);
+    const blockSize = size <= MAX_TABLE_COORDINATES ? size : Math.floor(MAX_TABLE_COORDINATES / 2);
+    const blocks: number[][] = [];
+    for (let i = 0; i < size; i += blockSize) {
+      blocks.push(indices.slice(i, i + blockSize));
+    }
+
+    const totalRequests = blocks.length * blocks.length;
+    let requestCount = 0;
+    onProgress?.({ phase: 'matrix', completed: 0, total: totalRequests });
+    for (const sourceBlock of blocks) {
+      for (const destinationBlock of blocks) {
+        requestCount++;
+        throwIfAborted(signal);
+        try {
+          await this.fetchTableBlock(locations, sourceBlock, destinationBlock, routing, distances, durations, signal);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          logger.warn('Échec du calcul de matrice, estimation à vol d\'oiseau pour ce bloc:', error);
         }
+        onProgress?.({ phase: 'matrix', completed: requestCount, total: totalRequests });
       }
     }
 
-    return bestOrder;
+    // Compléter les cellules manquantes avec une estimation Haversine
+    let estimatedPairs = 0;
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        if (i === j) {
+          distances[i][j] = 0;
+          durations[i][j] = 0;
+        } else if (isNaN(distances[i][j]) || isNaN(durations[i][j])) {
+          const estimate = this.estimateSegment(locations[i], locations[j], routing.vehicleType);
+          distances[i][j] = estimate.distance;
+          durations[i][j] = estimate.duration;
+          estimatedPairs++;
+        }
+      }
+    }
+
+    logger.debug(`Matrice ${size}x${size} construite en ${requestCount} requête(s), ${estimatedPairs} paire(s) estimée(s)`);
+
+    return { indexById, distances, durations, estimatedPairs, requestCount };
+  }
+
+  private async fetchTableBlock(
+    locations: Location[],
+    sourceBlock: number[],
+    destinationBlock: number[],
+    routing: RoutingOptions,
+    distances: number[][],
+    durations: number[][],
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Coordonnées uniques du bloc : sources puis destinations
+    const blockIndices = Array.from(new Set([...sourceBlock, ...destinationBlock]));
+    const points = blockIndices.map(index => locations[index].coordinates!);
+    const sources = sourceBlock.map(index => blockIndices.indexOf(index));
+    const destinations = destinationBlock.map(index => blockIndices.indexOf(index));
+
+    const { result: block } = await this.callWithFallback(
+      this.routingChain(routing.vehicleType).filter(adapter => adapter.matrix),
+      adapter => adapter.matrix!(points, sources, destinations, routing, signal),
+      'Aucun moteur de calcul ne fournit de matrice',
+      signal
+    );
+    sourceBlock.forEach((sourceIndex, row) => {
+      destinationBlock.forEach((destinationIndex, column) => {
+        const distance = block.distances[row]?.[column];
+        const duration = block.durations[row]?.[column];
+        if (distance != null && duration != null) {
+          distances[sourceIndex][destinationIndex] = distance;
+          durations[sourceIndex][destinationIndex] = duration;
+        }
+      });
+    });
+  }
+
+  /**
+   * Exact Held-Karp resolution on the matrix for small sets of stops
+   */
+  private exactOptimization(
+    locations: Location[],
+    weights: SegmentWeights,
+    isLoop: boolean,
+    matrix: DistanceMatrix,
+    precedences: PrecedencePair[] = [],
+    ends: { startIndex?: number; endIndex?: number } = {}
+  ): Location[] {
+    if (locations.length <= 1) return locations;
+
+    const costs = locations.map(from => locations.map(to => this.scoreSegment(from, to, weights, matrix)));
+    // Avec une arrivée fixe, le retour d'une boucle vers le départ fixe a un coût constant : chemin ouvert
+    const solution = ends.endIndex !== undefined
+      ? solveHeldKarp(costs, { isLoop: false, startIndex: ends.startIndex, endIndex: ends.endIndex, precedences })
+      : solveHeldKarp(costs, { isLoop, startIndex: ends.startIndex, precedences });
+
+    logger.debug(`Held-Karp: ordre optimal prouvé pour ${locations.length} emplacements (score ${solution.cost.toFixed(1)})`);
+    return solution.order.map(index => locations[index]);
   }
 
-  private async calculateOrderScore(
+  private calculateOrderScore(
     locations: Location[],
-    method: OptimizationMethod,
+    weights: SegmentWeights,
     isLoop: boolean,
-    vehicleType: VehicleType = 'car'
-  ): Promise<number> {
+    matrix: DistanceMatrix
+  ): number {
     if (locations.length === 0) return 0;
     let totalScore = 0;
 
@@ -276,80 +1367,48 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
       const from = locations[i];
       // For loop, connect last location back to first
       const to = isLoop && i === locations.length - 1 ? locations[0] : locations[i + 1];
-      
-      if (!from.coordinates || !to.coordinates) continue;
-
-      try {
-        // For small route sets, use actual API calls for precise optimization
-        const segment = await this.calculateSegment(from, to, vehicleType);
-        
-        if (method === 'shortest_distance') {
-          totalScore += segment.distance;
-        } else if (method === 'fastest_time') {
-          totalScore += segment.duration;
-        } else { // balanced
-          // Balanced approach: 40% distance, 60% time
-          totalScore += segment.distance * 0.4 + segment.duration * 0.6;
-        }
-      } catch (error) {
-        // Fallback to Haversine distance calculation
-        const distance = this.calculateDistance(from.coordinates, to.coordinates);
-        
-        if (method === 'shortest_distance') {
-          totalScore += distance;
-        } else if (method === 'fastest_time') {
-          const estimatedSpeed = vehicleType === 'truck' ? 50 : 65;
-          totalScore += (distance / estimatedSpeed) * 60;
-        } else { // balanced
-          const estimatedSpeed = vehicleType === 'truck' ? 55 : 60;
-          const time = (distance / estimatedSpeed) * 60;
-          totalScore += distance * 0.4 + time * 0.6;
-        }
-      }
+      totalScore += this.scoreSegment(from, to, weights, matrix);
     }
 
     return totalScore;
   }
 
-  private generatePermutations<T>(arr: T[], maxCount: number): T[][] {
-    const result: T[][] = [];
-    
-    const permute = (current: T[], remaining: T[]) => {
-      if (result.length >= maxCount) return;
-      
-      if (remaining.length === 0) {
-        result.push([...current]);
-        return;
-      }
-
-      for (let i = 0; i < remaining.length; i++) {
-        const next = remaining[i];
-        const newRemaining = remaining.filter((_, index) => index !== i);
-        permute([...current, next], newRemaining);
-      }
-    };
+  /**
+   * Score one leg from the matrix with the weights of the optimization method
+   */
+  private scoreSegment(
+    from: Location,
+    to: Location,
+    weights: SegmentWeights,
+    matrix: DistanceMatrix
+  ): number {
+    const i = matrix.indexById[from.id];
+    const j = matrix.indexById[to.id];
+    const distance = matrix.distances[i][j];
+    const duration = matrix.durations[i][j];
 
-    permute([], arr);
-    return result.slice(0, maxCount);
+    return distance * weights.distance + duration * weights.duration;
   }
 
-  private async nearestNeighborOptimization(
+  private nearestNeighborOptimization(
     locations: Location[],
-    method: OptimizationMethod,
-    isLoop: boolean = false
-  ): Promise<Location[]> {
+    weights: SegmentWeights,
+    isLoop: boolean,
+    matrix: DistanceMatrix
+  ): Location[] {
     if (locations.length <= 1) return locations;
 
     // For loop optimization, we need to consider the complete circuit
     // Instead of greedy nearest neighbor, try different starting approaches
     if (isLoop && locations.length >= 3) {
-      return await this.loopAwareOptimization(locations, method);
+      return this.loopAwareOptimization(locations, weights, matrix);
     }
 
-    // Standard nearest neighbor for non-loop routes
+    // Standard nearest neighbor for non-loop routes, from the locked start if any
+    // (otherwise the first location is only a seed: local search may move it)
     const visited = new Set<string>();
     const result: Location[] = [];
-    let current = locations[0]; // Fixed starting point
+    let current = locations[0];
     
     result.push(current);
     visited.add(current.id);
@@ -359,25 +1418,11 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
       let bestScore = Infinity;
 
       for (const location of locations) {
-        if (visited.has(location.id) || !location.coordinates || !current.coordinates) {
+        if (visited.has(location.id)) {
           continue;
         }
 
-        const distance = this.calculateDistance(current.coordinates, location.coordinates);
-        let score: number;
-        
-        if (method === 'shortest_distance') {
-          score = distance;
-        } else if (method === 'fastest_time') {
-          const baseSpeed = 50;
-          const speedMultiplier = distance > 10 ? 1.3 : distance > 5 ? 1.1 : 0.8;
-          const adjustedSpeed = baseSpeed * speedMultiplier;
-          score = (distance / adjustedSpeed) * 60;
-        } else { // balanced
-          const estimatedSpeed = 55;
-          const time = (distance / estimatedSpeed) * 60;
-          score = distance * 0.4 + time * 0.6;
-        }
+        const score = this.scoreSegment(current, location, weights, matrix);
 
         if (score < bestScore) {
           nearest = location;
@@ -395,10 +1440,11 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     return result;
   }
 
-  private async loopAwareOptimization(
+  private loopAwareOptimization(
     locations: Location[],
-    method: OptimizationMethod
-  ): Promise<Location[]> {
+    weights: SegmentWeights,
+    matrix: DistanceMatrix
+  ): Location[] {
     const startLocation = locations[0]; // Fixed depot
     const otherLocations = locations.slice(1);
     
@@ -410,8 +1456,8 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     logger.debug('Test de plusieurs stratégies d\'optimisation:');
 
     // Approach 1: Nearest neighbor from start
-    const nearestFirst = await this.findNearestNeighborLoop(startLocation, otherLocations, method);
-    const nearestScore = await this.calculateCompleteLoopScore(nearestFirst, method);
+    const nearestFirst = this.findNearestNeighborLoop(startLocation, otherLocations, weights, matrix);
+    const nearestScore = this.calculateOrderScore(nearestFirst, weights, true, matrix);
     logger.debug(`  Stratégie du plus proche d'abord: ${nearestScore.toFixed(1)} score`);
     
     if (nearestScore < bestScore) {
@@ -420,8 +1466,8 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     }
 
     // Approach 2: Farthest first (sometimes better for loops)
-    const farthestFirst = await this.findFarthestFirstLoop(startLocation, otherLocations);
-    const farthestScore = await this.calculateCompleteLoopScore(farthestFirst, method);
+    const farthestFirst = this.findFarthestFirstLoop(startLocation, otherLocations, weights, matrix);
+    const farthestScore = this.calculateOrderScore(farthestFirst, weights, true, matrix);
     logger.debug(`  Stratégie du plus loin d'abord: ${farthestScore.toFixed(1)} score`);
     
     if (farthestScore < bestScore) {
@@ -432,8 +1478,8 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     // Approach 3: Try starting with each location and see which gives best loop
     for (let i = 0; i < Math.min(otherLocations.length, 3); i++) {
       const testOrder = [startLocation, otherLocations[i], ...otherLocations.filter((_, idx) => idx !== i)];
-      const reorderedTest = await this.optimizeFromSecondLocation(testOrder);
-      const testScore = await this.calculateCompleteLoopScore(reorderedTest, method);
+      const reorderedTest = this.optimizeFromSecondLocation(testOrder, weights, matrix);
+      const testScore = this.calculateOrderScore(reorderedTest, weights, true, matrix);
       logger.debug(`  Stratégie commencer-par-${otherLocations[i].address.substring(0, 20)}: ${testScore.toFixed(1)} score`);
       
       if (testScore < bestScore) {
@@ -442,16 +1488,17 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
       }
     }
 
-    logger.debug(`Meilleur score de boucle: ${bestScore.toFixed(1)} pour la méthode: ${method}`);
+    logger.debug(`Meilleur score de boucle: ${bestScore.toFixed(1)}`);
     logger.debug(`Ordre optimal: ${bestOrder.map(loc => loc.address.substring(0, 20)).join(' → ')} → ${bestOrder[0].address.substring(0, 20)}`);
     return bestOrder;
   }
 
-  private async findNearestNeighborLoop(
+  private findNearestNeighborLoop(
     start: Location,
     others: Location[],
-    method: OptimizationMethod
-  ): Promise<Location[]> {
+    weights: SegmentWeights,
+    matrix: DistanceMatrix
+  ): Location[] {
     const result = [start];
     const remaining = [...others];
     let current = start;
@@ -463,46 +1510,11 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
 
       for (let i = 0; i < remaining.length; i++) {
         const location = remaining[i];
-        if (!location.coordinates || !current.coordinates) continue;
-
-        // For the last location, consider return cost to start
-        let totalScore = 0;
-        const distance = this.calculateDistance(current.coordinates, location.coordinates);
+        let totalScore = this.scoreSegment(current, location, weights, matrix);
         
         if (remaining.length === 1) {
           // This is the last location - include return cost
-          if (location.coordinates && start.coordinates) {
-            const returnDistance = this.calculateDistance(location.coordinates, start.coordinates);
-            
-            if (method === 'shortest_distance') {
-              totalScore = distance + returnDistance;
-            } else if (method === 'fastest_time') {
-              const speed1 = this.estimateSpeed(distance);
-              const speed2 = this.estimateSpeed(returnDistance);
-              totalScore = (distance / speed1) * 60 + (returnDistance / speed2) * 60;
-            } else { // balanced
-              const speed1 = this.estimateSpeed(distance);
-              const speed2 = this.estimateSpeed(returnDistance);
-              const time1 = (distance / speed1) * 60;
-              const time2 = (returnDistance / speed2) * 60;
-              totalScore = (distance * 0.4 + time1 * 0.6) + (returnDistance * 0.4 + time2 * 0.6);
-            }
-          } else {
-            // Fallback if coordinates missing
-            totalScore = distance;
-          }
-        } else {
-          // Regular scoring
-          if (method === 'shortest_distance') {
-            totalScore = distance;
-          } else if (method === 'fastest_time') {
-            const speed = this.estimateSpeed(distance);
-            totalScore = (distance / speed) * 60;
-          } else { // balanced
-            const speed = this.estimateSpeed(distance);
-            const time = (distance / speed) * 60;
-            totalScore = distance * 0.4 + time * 0.6;
-          }
+          totalScore += this.scoreSegment(location, start, weights, matrix);
         }
 
         if (totalScore < bestScore) {
@@ -522,71 +1534,41 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     return result;
   }
 
-  private async findFarthestFirstLoop(
+  private findFarthestFirstLoop(
     start: Location,
-    others: Location[]
-  ): Promise<Location[]> {
+    others: Location[],
+    weights: SegmentWeights,
+    matrix: DistanceMatrix
+  ): Location[] {
     // Find the farthest location from start to visit first
     // This sometimes creates better loops by "getting the long distance out of the way"
     
     let farthest: Location | null = null;
-    let maxDistance = 0;
+    let maxScore = 0;
 
     for (const location of others) {
-      if (!location.coordinates || !start.coordinates) continue;
-      const distance = this.calculateDistance(start.coordinates, location.coordinates);
-      if (distance > maxDistance) {
-        maxDistance = distance;
+      const score = this.scoreSegment(start, location, weights, matrix);
+      if (score > maxScore) {
+        maxScore = score;
         farthest = location;
       }
     }
 
     if (!farthest) return [start, ...others];
 
-    // Start with farthest, then optimize the rest
-    const remaining = others.filter(loc => loc.id !== farthest.id);
-    const result = [start, farthest];
-    
-    // Now use nearest neighbor for the rest
-    let current = farthest;
-    while (remaining.length > 0) {
-      let nearest: Location | null = null;
-      let bestScore = Infinity;
-      let bestIndex = -1;
-
-      for (let i = 0; i < remaining.length; i++) {
-        const location = remaining[i];
-        if (!location.coordinates || !current.coordinates) continue;
-
-        const distance = this.calculateDistance(current.coordinates, location.coordinates);
-        
-        // Include return cost for last location
-        let score = distance;
-        if (remaining.length === 1 && location.coordinates && start.coordinates) {
-          const returnDistance = this.calculateDistance(location.coordinates, start.coordinates);
-          score += returnDistance;
-        }
-
-        if (score < bestScore) {
-          nearest = location;
-          bestScore = score;
-          bestIndex = i;
-        }
-      }
-
-      if (nearest && bestIndex >= 0) {
-        result.push(nearest);
-        remaining.splice(bestIndex, 1);
-        current = nearest;
-      }
-    }
-
-    return result;
+    // Start with farthest, then optimize the rest with nearest neighbor
+    return this.optimizeFromSecondLocation(
+      [start, farthest, ...others.filter(loc => loc.id !== farthest.id)],
+      weights,
+      matrix
+    );
   }
 
-  private async optimizeFromSecondLocation(
-    order: Location[]
-  ): Promise<Location[]> {
+  private optimizeFromSecondLocation(
+    order: Location[],
+    weights: SegmentWeights,
+    matrix: DistanceMatrix
+  ): Location[] {
     // Given a fixed start and second location, optimize the rest
     if (order.length <= 2) return order;
 
@@ -605,15 +1587,11 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
 
       for (let i = 0; i < remaining.length; i++) {
         const location = remaining[i];
-        if (!location.coordinates || !current.coordinates) continue;
-
-        const distance = this.calculateDistance(current.coordinates, location.coordinates);
-        let score = distance;
+        let score = this.scoreSegment(current, location, weights, matrix);
 
         // Include return cost for last location
-        if (remaining.length === 1 && location.coordinates && order[0].coordinates) {
-          const returnDistance = this.calculateDistance(location.coordinates, order[0].coordinates);
-          score += returnDistance;
+        if (remaining.length === 1) {
+          score += this.scoreSegment(location, order[0], weights, matrix);
         }
 
         if (score < bestScore) {
@@ -633,66 +1611,105 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     return result;
   }
 
-  private async calculateCompleteLoopScore(
-    locations: Location[],
-    method: OptimizationMethod
-  ): Promise<number> {
-    let totalScore = 0;
-
-    // Calculate score for complete loop including return
-    for (let i = 0; i < locations.length; i++) {
-      const from = locations[i];
-      const to = i === locations.length - 1 ? locations[0] : locations[i + 1]; // Loop back to start
-      
-      if (!from.coordinates || !to.coordinates) continue;
+  /**
+   * Straight-line estimate used when the routing API gives no answer for a pair
+   */
+  private estimateSegment(
+    from: Location,
+    to: Location,
+    vehicleType: VehicleType
+  ): { distance: number; duration: number } {
+    const distance = this.calculateDistance(from.coordinates!, to.coordinates!);
+    const estimatedSpeed = vehicleType === 'truck' ? 50 : 70; // km/h - trucks slower
+    return { distance, duration: (distance / estimatedSpeed) * 60 };
+  }
 
-      const distance = this.calculateDistance(from.coordinates, to.coordinates);
-      
-      if (method === 'shortest_distance') {
-        totalScore += distance;
-      } else if (method === 'fastest_time') {
-        const speed = this.estimateSpeed(distance);
-        totalScore += (distance / speed) * 60;
-      } else { // balanced
-        const speed = this.estimateSpeed(distance);
-        const time = (distance / speed) * 60;
-        totalScore += distance * 0.4 + time * 0.6;
-      }
+  /**
+   * What avoiding tolls/highways costs: the same stops in the same order,
+   * routed once without avoidance
+   */
+  private async buildRouteAvoidance(
+    locations: Location[],
+    segments: RouteSegment[],
+    routing: RoutingOptions,
+    isLoop: boolean,
+    signal?: AbortSignal
+  ): Promise<RouteAvoidance | undefined> {
+    if (!this.requestsAvoidance(routing)) return undefined;
+
+    const avoidance: RouteAvoidance = {
+      tolls: !!routing.avoidTolls,
+      highways: !!routing.avoidHighways,
+      applied: segments.every(segment => segment.avoidanceApplied),
+    };
+    if (!avoidance.applied) {
+      logger.warn('Évitement péages/autoroutes non appliqué sur tout le trajet');
+      return avoidance;
     }
 
-    return totalScore;
+    try {
+      const baseline = await this.fetchRouteTotals(
+        locations,
+        { ...routing, avoidTolls: false, avoidHighways: false },
+        isLoop,
+        signal
+      );
+      const extraDistance = segments.reduce((sum, segment) => sum + segment.distance, 0) - baseline.distance;
+      const extraDuration = segments.reduce((sum, segment) => sum + segment.duration, 0) - baseline.duration;
+      logger.debug(`Coût de l'évitement: ${extraDistance.toFixed(1)}km / ${Math.round(extraDuration)}min`);
+      return { ...avoidance, extraDistance, extraDuration };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      logger.warn('Impossible d\'estimer le coût de l\'évitement:', error);
+      return avoidance;
+    }
   }
 
-  private estimateSpeed(distance: number): number {
-    // Estimate speed based on distance (longer distances likely use faster roads)
-    if (distance > 10) return 65; // Highway speeds
-    if (distance > 5) return 55;  // Suburban
-    return 40; // Urban
+  /**
+   * Distance and duration of a whole route in a single request, without geometry
+   */
+  private async fetchRouteTotals(
+    locations: Location[],
+    routing: RoutingOptions,
+    isLoop: boolean,
+    signal?: AbortSignal
+  ): Promise<{ distance: number; duration: number }> {
+    const points = isLoop && locations.length > 2 ? [...locations, locations[0]] : locations;
+    const { paths: [path] } = await this.routeWithFallback(points, routing, { geometry: false }, signal);
+    return { distance: path.distance, duration: path.duration };
   }
 
   private async calculateRouteSegments(
     locations: Location[],
-    vehicleType: VehicleType,
-    isLoop: boolean
+    routing: RoutingOptions,
+    isLoop: boolean,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<RouteSegment[]> {
     const segments: RouteSegment[] = [];
+    const hasReturn = isLoop && locations.length > 2;
+    const total = locations.length - 1 + (hasReturn ? 1 : 0);
+    onProgress?.({ phase: 'segments', completed: 0, total });
     
     for (let i = 0; i < locations.length - 1; i++) {
       const from = locations[i];
       const to = locations[i + 1];
       
-      const segment = await this.calculateSegment(from, to, vehicleType);
+      const segment = await this.calculateSegment(from, to, routing, signal);
       segments.push(segment);
+      onProgress?.({ phase: 'segments', completed: segments.length, total });
     }
 
     // Ajouter le segment de retour pour les trajets en boucle
-    if (isLoop && locations.length > 2) {
+    if (hasReturn) {
       const returnSegment = await this.calculateSegment(
         locations[locations.length - 1],
         locations[0],
-        vehicleType
+        routing,
+        signal
       );
       segments.push(returnSegment);
+      onProgress?.({ phase: 'segments', completed: segments.length, total });
     }
 
     return segments;
@@ -701,99 +1718,82 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
   private async calculateSegment(
     from: Location,
     to: Location,
-    vehicleType: VehicleType
+    routing: RoutingOptions,
+    signal?: AbortSignal
   ): Promise<RouteSegment> {
+    const { vehicleType } = routing;
+    throwIfAborted(signal);
     if (!from.coordinates || !to.coordinates) {
       throw new Error('Les deux emplacements doivent avoir des coordonnées');
     }
 
     // Check cache first
-    const cacheKey = this.generateSegmentKey(from, to, vehicleType);
+    const cacheKey = this.generateSegmentKey(from, to, routing);
     const cachedSegment = this.segmentCache.get(cacheKey);
     if (cachedSegment) {
       logger.debug(`Cache trouvé pour segment: ${from.address.substring(0,20)} -> ${to.address.substring(0,20)}`);
-      return cachedSegment;
+      return { ...cachedSegment, source: 'cache' };
     }
 
     logger.debug(`Appel API pour segment: ${from.address.substring(0,20)} -> ${to.address.substring(0,20)}`);
 
-    // Use OpenRouteService for truck routing if API key is available
-    if (vehicleType === 'truck' && this.openRouteServiceApiKey) {
-      try {
-        return await this.calculateSegmentWithORS(from, to, cacheKey);
-      } catch (error) {
-        logger.warn('OpenRouteService échoué, fallback vers OSRM:', error);
-        // Fall through to OSRM
-      }
-    }
-
     try {
-      // Use different profiles for different vehicle types
-      // Note: OSRM public only supports 'driving', but we can simulate truck behavior
-      const profile = 'driving'; // OSRM public limitation
-      const coordinates = `${from.coordinates.longitude},${from.coordinates.latitude};${to.coordinates.longitude},${to.coordinates.latitude}`;
-      
-      const url = `${this.osrmBaseUrl}/route/v1/${profile}/${coordinates}?overview=full&geometries=geojson&steps=true`;
-
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`Échec de l'API OSRM: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      if (data.routes && data.routes.length > 0) {
-        const route = data.routes[0];
-        let distance = route.distance / 1000; // Convert to kilometers
-        let duration = route.duration / 60; // Convert to minutes
-
-        // Apply vehicle-specific adjustments
-        if (vehicleType === 'truck') {
-          // Trucks are slower and may take longer routes
-          distance *= 1.1; // 10% longer distance for truck routes (avoiding weight restrictions)
-          duration *= 1.4; // 40% more time due to lower speeds and restrictions
-        }
-
-        const segment = {
-          from,
-          to,
-          distance,
-          duration,
-          instructions: route.legs[0]?.steps?.map((step: any) => 
-            step.maneuver?.instruction || `Continuer pendant ${(step.distance/1000).toFixed(1)}km`
-          ) || [],
-          polyline: route.geometry, // Keep GeoJSON geometry
-        };
-
-        // Cache the calculated segment with LRU eviction
-        this.cacheSegment(cacheKey, segment);
-        return segment;
-      } else {
-        throw new Error('Aucun trajet trouvé');
+      // Premier moteur disponible pour ce véhicule, les suivants en secours
+      const { provider, paths: [best, alternative] } = await this.routeWithFallback([from, to], routing, { geometry: true, alternatives: true }, signal);
+      const toSegment = (path: RoutedPath): RouteSegment => ({
+        from,
+        to,
+        distance: path.distance,
+        duration: path.duration,
+        instructions: path.instructions,
+        polyline: path.polyline, // Keep GeoJSON geometry
+        restrictionsVerified: path.truckProfileApplied || undefined,
+        avoidanceApplied: this.requestsAvoidance(routing) ? path.avoidanceApplied : undefined,
+        tollDistance: path.tollDistance,
+        source: provider,
+        confidence: this.pathConfidence(path, routing),
+      });
+      const segment = toSegment(best);
+
+      // Cache the calculated segment with LRU eviction (never after cancellation)
+      throwIfAborted(signal);
+      this.cacheSegment(cacheKey, segment);
+      // Deuxième itinéraire proposé par le moteur, pour le trajet alternatif « autres routes »
+      if (alternative) {
+        this.segmentAlternatives.set(cacheKey, toSegment(alternative));
       }
+      return segment;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       logger.warn('Échec du calcul de segment, utilisation de la ligne droite:', error);
       
       // Fallback: straight line calculation with vehicle-specific speeds
-      const distance = this.calculateDistance(from.coordinates, to.coordinates);
-      const estimatedSpeed = vehicleType === 'truck' ? 50 : 70; // km/h - trucks slower
-      const duration = (distance / estimatedSpeed) * 60; // minutes
+      const { distance, duration } = this.estimateSegment(from, to, vehicleType);
 
-      const fallbackSegment = {
+      // Jamais mis en cache : le prochain calcul redemande le moteur
+      return {
         from,
         to,
         distance,
         duration,
         instructions: [`Parcourir ${distance.toFixed(1)}km vers ${to.address}`],
         polyline: null,
+        avoidanceApplied: this.requestsAvoidance(routing) ? false : undefined,
+        source: 'estimated',
+        confidence: 'low',
       };
-
-      // Cache the fallback segment too with LRU eviction
-      this.cacheSegment(cacheKey, fallbackSegment);
-      return fallbackSegment;
     }
   }
 
+  /**
+   * A routed path is approximate when the truck profile or the requested avoidance could not be applied
+   */
+  private pathConfidence(path: RoutedPath, routing: RoutingOptions): SegmentConfidence {
+    const missingProfile = routing.vehicleType === 'truck' && !path.truckProfileApplied;
+    const missingAvoidance = this.requestsAvoidance(routing) && !path.avoidanceApplied;
+    return missingProfile || missingAvoidance ? 'medium' : 'high';
+  }
+
   private calculateDistance(
     coord1: { latitude: number; longitude: number },
     coord2: { latitude: number; longitude: number }
@@ -820,126 +1820,6 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     return `route_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
-  /**
-   * Calculate a segment using OpenRouteService API with driving-hgv (heavy goods vehicle) profile
-   * This provides real truck routing with actual restrictions (weight, height, etc.)
-   */
-  private async calculateSegmentWithORS(
-    from: Location,
-    to: Location,
-    cacheKey: string
-  ): Promise<RouteSegment> {
-    if (!from.coordinates || !to.coordinates) {
-      throw new Error('Les deux emplacements doivent avoir des coordonnées');
-    }
-
-    const url = `${ORS_BASE_URL}/v2/directions/driving-hgv`;
-    
-    const body = {
-      coordinates: [
-        [from.coordinates.longitude, from.coordinates.latitude],
-        [to.coordinates.longitude, to.coordinates.latitude]
-      ],
-      instructions: true,
-      geometry: true,
-      // Truck-specific parameters
-      profile: 'driving-hgv',
-      units: 'km',
-      language: 'fr',
-    };
-
-    logger.debug('Appel OpenRouteService pour camion:', {
-      from: from.address.substring(0, 30),
-      to: to.address.substring(0, 30)
-    });
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': this.openRouteServiceApiKey!,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouteService API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    if (!data.routes || data.routes.length === 0) {
-      throw new Error('Aucun trajet camion trouvé');
-    }
-
-    const route = data.routes[0];
-    const summary = route.summary;
-
-    const segment: RouteSegment = {
-      from,
-      to,
-      distance: summary.distance, // Already in km
-      duration: summary.duration / 60, // Convert seconds to minutes
-      instructions: route.segments?.[0]?.steps?.map((step: { instruction: string; distance: number }) => 
-        step.instruction || `Continuer pendant ${step.distance.toFixed(1)}km`
-      ) || [],
-      polyline: route.geometry ? {
-        type: 'LineString',
-        coordinates: this.decodeORSGeometry(route.geometry)
-      } : null,
-    };
-
-    logger.debug('Segment camion ORS calculé:', {
-      distance: segment.distance.toFixed(1) + 'km',
-      duration: segment.duration.toFixed(0) + 'min'
-    });
-
-    // Cache the segment
-    this.cacheSegment(cacheKey, segment);
-    return segment;
-  }
-
-  /**
-   * Decode OpenRouteService encoded polyline geometry
-   */
-  private decodeORSGeometry(encoded: string): number[][] {
-    // ORS uses Google's polyline encoding
-    const coordinates: number[][] = [];
-    let index = 0;
-    let lat = 0;
-    let lng = 0;
-
-    while (index < encoded.length) {
-      let shift = 0;
-      let result = 0;
-      let b: number;
-
-      // Decode latitude
-      do {
-        b = encoded.charCodeAt(index++) - 63;
-        result |= (b & 0x1f) << shift;
-        shift += 5;
-      } while (b >= 0x20);
-      lat += result & 1 ? ~(result >> 1) : result >> 1;
-
-      shift = 0;
-      result = 0;
-
-      // Decode longitude
-      do {
-        b = encoded.charCodeAt(index++) - 63;
-        result |= (b & 0x1f) << shift;
-        shift += 5;
-      } while (b >= 0x20);
-      lng += result & 1 ? ~(result >> 1) : result >> 1;
-
-      coordinates.push([lng / 1e5, lat / 1e5]);
-    }
-
-    return coordinates;
-  }
-
   // LRU-like cache management for segments
   private cacheSegment(key: string, segment: RouteSegment): void {
     // If cache is full, remove oldest entries
@@ -955,11 +1835,6 @@ export class OpenStreetMapRoutingService implements FreeRoutingProvider {
     this.segmentCache.set(key, segment);
     this.segmentCacheOrder.push(key);
   }
-
-  private factorial(n: number): number {
-    if (n <= 1) return 1;
-    return n * this.factorial(n - 1);
-  }
 }
 
 // Exporter l'instance singleton
@@ -0,0 +1,110 @@
+/**
+ * GraphHopper adapter (Directions API). Truck dimensions and avoided roads are
+ * expressed as a custom model. The public API requires a key, a self-hosted server may not.
+ */
+
+import { GeoJSONLineString } from '../../types/index.ts';
+import { Coordinates, ProviderEndpoint, RoutedPath, RoutePathOptions, RoutingAdapter, RoutingOptions } from './types.ts';
+import { HttpError, isReachable } from './http.ts';
+import { requestScheduler } from '../requestScheduler.ts';
+
+interface GraphHopperPath {
+  distance: number; // in meters
+  time: number; // in milliseconds
+  points?: GeoJSONLineString; // points_encoded=false
+  instructions?: { text: string }[];
+}
+
+interface CustomModelStatement {
+  if: string;
+  multiply_by: string;
+}
+
+export class GraphHopperRoutingAdapter implements RoutingAdapter {
+  readonly id = 'graphhopper';
+  readonly name = 'GraphHopper';
+  readonly supportsTruckProfile = true;
+
+  constructor(private apiKey: string | null, private endpoint: ProviderEndpoint) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey || !!this.endpoint.headers?.Authorization;
+  }
+
+  checkHealth(signal?: AbortSignal): Promise<boolean> {
+    return isReachable(this.url('info'), this.endpoint.headers, signal);
+  }
+
+  async route(
+    points: Coordinates[],
+    options: RoutingOptions,
+    pathOptions: RoutePathOptions,
+    signal?: AbortSignal
+  ): Promise<RoutedPath[]> {
+    if (!this.isConfigured()) {
+      throw new Error('Clé API GraphHopper manquante');
+    }
+
+    const priority = this.customModelPriority(options);
+    const response = await requestScheduler.fetch(this.url('route'), {
+      method: 'POST',
+      headers: { ...this.endpoint.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        points: points.map(point => [point.longitude, point.latitude]),
+        profile: options.vehicleType === 'truck' ? 'truck' : 'car',
+        points_encoded: false,
+        instructions: pathOptions.geometry,
+        calc_points: pathOptions.geometry,
+        locale: 'fr',
+        // Les alternatives ne sont calculées qu'entre deux points
+        ...(pathOptions.alternatives && points.length === 2 ? { algorithm: 'alternative_route' } : {}),
+        ...(priority.length > 0 ? { 'ch.disable': true, custom_model: { priority } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw HttpError.fromResponse(`Échec de l'API GraphHopper: ${response.status}`, response);
+    }
+
+    const data: { paths?: GraphHopperPath[] } = await response.json();
+    if (!data.paths || data.paths.length === 0) {
+      throw new Error('Aucun trajet trouvé');
+    }
+
+    return data.paths.map(path => ({
+      distance: path.distance / 1000,
+      duration: path.time / 60000,
+      instructions: (path.instructions ?? []).map(instruction => instruction.text),
+      polyline: path.points ?? null,
+      truckProfileApplied: options.vehicleType === 'truck',
+      avoidanceApplied: true,
+    }));
+  }
+
+  private url(service: string): string {
+    return `${this.endpoint.url}/${service}${this.apiKey ? `?key=${encodeURIComponent(this.apiKey)}` : ''}`;
+  }
+
+  /**
+   * Roads the vehicle must not use: avoided road classes, then the truck limits
+   * (meters, tonnes) against the signed restrictions
+   */
+  private customModelPriority(options: RoutingOptions): CustomModelStatement[] {
+    const statements: CustomModelStatement[] = [];
+    const block = (condition: string) => statements.push({ if: condition, multiply_by: '0' });
+
+    if (options.avoidTolls) block('toll != NO');
+    if (options.avoidHighways) block('road_class == MOTORWAY');
+
+    const profile = options.vehicleType === 'truck' ? options.truckProfile : undefined;
+    if (profile?.height) block(`max_height < ${profile.height}`);
+    if (profile?.width) block(`max_width < ${profile.width}`);
+    if (profile?.length) block(`max_length < ${profile.length}`);
+    if (profile?.weight) block(`max_weight < ${profile.weight}`);
+    if (profile?.axleLoad) block(`max_axle_load < ${profile.axleLoad}`);
+    if (profile?.hazmat) block('hazmat == NO');
+
+    return statements;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Startup health check of the routing and geocoding backends: every backend of
+ * the chains is pinged once, in parallel, and each chain reports the first one
+ * that answers (the one the service will actually use).
+ */
+
+import { VehicleType } from '../../types/index.ts';
+import { GeocodingAdapter, RoutingAdapter } from './types.ts';
+import { ProviderRegistry } from './registry.ts';
+
+// Au-delà, un serveur est considéré hors ligne
+export const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+export interface ProviderHealth {
+  routing: Record<VehicleType, string | null>; // Name of the live backend, null when none answers
+  geocoding: string | null;
+}
+
+export async function checkProviderHealth(
+  registry: ProviderRegistry,
+  timeoutMs = HEALTH_CHECK_TIMEOUT_MS
+): Promise<ProviderHealth> {
+  const chains = {
+    car: registry.routingChain('car'),
+    truck: registry.routingChain('truck'),
+    geocoding: registry.geocodingChain(),
+  };
+  const adapters = [...new Set<RoutingAdapter | GeocodingAdapter>([...chains.car, ...chains.truck, ...chains.geocoding])];
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const results = await Promise.all(adapters.map(adapter => adapter.checkHealth(controller.signal)));
+  clearTimeout(timer);
+
+  const live = new Set(adapters.filter((_, index) => results[index]));
+  const firstLive = (chain: (RoutingAdapter | GeocodingAdapter)[]) => chain.find(adapter => live.has(adapter))?.name ?? null;
+
+  return {
+    routing: { car: firstLive(chains.car), truck: firstLive(chains.truck) },
+    geocoding: firstLive(chains.geocoding),
+  };
+}
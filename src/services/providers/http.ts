@@ -0,0 +1,33 @@
+/**
+ * Small HTTP helpers shared by the adapters
+ */
+
+import { requestScheduler } from '../requestScheduler.ts';
+
+/**
+ * GET `url` and tell whether it answered with a success status; network errors,
+ * aborts and timeouts count as unreachable
+ */
+export async function isReachable(url: string, headers?: Record<string, string>, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const response = await requestScheduler.fetch(url, { headers, signal });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Backend answer with an error status; `retryAfterMs` comes from the Retry-After header
+ */
+export class HttpError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  static fromResponse(message: string, response: Response): HttpError {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return new HttpError(message, response.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Nominatim geocoding adapter
+ */
+
+import { Coordinates, GeocodingAdapter, ProviderEndpoint } from './types.ts';
+import { HttpError, isReachable } from './http.ts';
+import { requestScheduler } from '../requestScheduler.ts';
+
+// Identification demandée par la politique d'utilisation de Nominatim
+export const NOMINATIM_USER_AGENT = 'RouteOptimizer/1.0.0 (https://github.com/yourproject/route-optimizer)';
+
+export class NominatimGeocodingAdapter implements GeocodingAdapter {
+  readonly id = 'nominatim';
+  readonly name = 'Nominatim';
+
+  constructor(private endpoint: ProviderEndpoint) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  checkHealth(signal?: AbortSignal): Promise<boolean> {
+    return isReachable(`${this.endpoint.url}/status?format=json`, this.endpoint.headers, signal);
+  }
+
+  async geocode(address: string, signal?: AbortSignal): Promise<Coordinates | null> {
+    const url = `${this.endpoint.url}/search?format=json&q=${encodeURIComponent(address)}&limit=1&addressdetails=1`;
+
+    const response = await requestScheduler.fetch(url, {
+      headers: {
+        ...this.endpoint.headers,
+        'User-Agent': NOMINATIM_USER_AGENT,
+      },
+      signal,
+    }, 'batch'); // La saisie d'adresse (useAddressSearch) passe avant
+
+    if (!response.ok) {
+      throw HttpError.fromResponse(`Échec du géocodage: ${response.statusText}`, response);
+    }
+
+    const data: { lat: string; lon: string }[] = await response.json();
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    return {
+      latitude: parseFloat(data[0].lat),
+      longitude: parseFloat(data[0].lon),
+    };
+  }
+}
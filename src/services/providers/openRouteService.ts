@@ -0,0 +1,96 @@
+/**
+ * OpenRouteService adapter: real truck routing (driving-hgv) with the truck
+ * dimensions and weight. The public API requires a key, a self-hosted server may not.
+ */
+
+import { decodePolyline } from '../../utils/routeUtils.ts';
+import { toOrsOptions } from '../../utils/truckProfile.ts';
+import { Coordinates, ProviderEndpoint, RoutedPath, RoutePathOptions, RoutingAdapter, RoutingOptions } from './types.ts';
+import { HttpError, isReachable } from './http.ts';
+import { requestScheduler } from '../requestScheduler.ts';
+
+interface OrsRoute {
+  summary: { distance: number; duration: number }; // km (units=km), seconds
+  segments?: { steps?: { instruction: string; distance: number }[] }[];
+  geometry?: string; // Encoded polyline
+}
+
+export class OpenRouteServiceAdapter implements RoutingAdapter {
+  readonly id = 'ors';
+  readonly name = 'OpenRouteService';
+  readonly supportsTruckProfile = true;
+
+  constructor(private apiKey: string | null, private endpoint: ProviderEndpoint) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey || !!this.endpoint.headers?.Authorization;
+  }
+
+  checkHealth(signal?: AbortSignal): Promise<boolean> {
+    return isReachable(`${this.endpoint.url}/v2/health`, this.headers(), signal);
+  }
+
+  async route(
+    points: Coordinates[],
+    options: RoutingOptions,
+    pathOptions: RoutePathOptions,
+    signal?: AbortSignal
+  ): Promise<RoutedPath[]> {
+    if (!this.isConfigured()) {
+      throw new Error('Clé API OpenRouteService manquante');
+    }
+
+    const profile = options.vehicleType === 'truck' ? 'driving-hgv' : 'driving-car';
+    const response = await requestScheduler.fetch(`${this.endpoint.url}/v2/directions/${profile}`, {
+      method: 'POST',
+      headers: { ...this.headers(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        coordinates: points.map(point => [point.longitude, point.latitude]),
+        instructions: pathOptions.geometry,
+        geometry: pathOptions.geometry,
+        profile,
+        units: 'km',
+        language: 'fr',
+        // Gabarit et poids du camion (ponts bas, rues étroites, tonnage) et évitements
+        options: this.buildOptions(options),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw HttpError.fromResponse(`OpenRouteService API error: ${response.status} - ${errorText}`, response);
+    }
+
+    const data: { routes?: OrsRoute[] } = await response.json();
+    if (!data.routes || data.routes.length === 0) {
+      throw new Error('Aucun trajet camion trouvé');
+    }
+
+    return data.routes.map(route => ({
+      distance: route.summary.distance, // Already in km
+      duration: route.summary.duration / 60,
+      instructions: (route.segments ?? []).flatMap(segment => segment.steps ?? []).map(step =>
+        step.instruction || `Continuer pendant ${step.distance.toFixed(1)}km`
+      ),
+      polyline: route.geometry ? { type: 'LineString', coordinates: decodePolyline(route.geometry) } : null,
+      truckProfileApplied: options.vehicleType === 'truck',
+      avoidanceApplied: true,
+    }));
+  }
+
+  // La clé API passe avant un en-tête d'authentification configuré pour le serveur
+  private headers(): Record<string, string> {
+    return this.apiKey ? { ...this.endpoint.headers, Authorization: this.apiKey } : { ...this.endpoint.headers };
+  }
+
+  /**
+   * `options` of a directions request: truck profile and avoided features
+   */
+  private buildOptions(options: RoutingOptions): Record<string, unknown> | undefined {
+    const avoidFeatures = [options.avoidTolls && 'tollways', options.avoidHighways && 'highways'].filter(Boolean);
+    const truckOptions = options.vehicleType === 'truck' ? toOrsOptions(options.truckProfile) : undefined;
+    if (avoidFeatures.length === 0) return truckOptions;
+    return { ...truckOptions, avoid_features: avoidFeatures };
+  }
+}
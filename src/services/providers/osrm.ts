@@ -0,0 +1,164 @@
+/**
+ * OSRM adapter. The public demo server only has the car profile: trucks are then
+ * approximated with longer distances and lower speeds. A self-hosted server may
+ * expose a truck profile, used as is.
+ */
+
+import { GeoJSONLineString } from '../../types/index.ts';
+import { routingLogger as logger } from '../../utils/logger.ts';
+import { Coordinates, MatrixBlock, ProviderEndpoint, RoutedPath, RoutePathOptions, RoutingAdapter, RoutingOptions } from './types.ts';
+import { HttpError, isReachable } from './http.ts';
+import { requestScheduler } from '../requestScheduler.ts';
+
+// Truck adjustments applied to OSRM car results (longer detours, lower speeds)
+export const TRUCK_DISTANCE_FACTOR = 1.1;
+export const TRUCK_DURATION_FACTOR = 1.4;
+
+// Step of an OSRM route: the classes of its first intersection are those of the road taken
+interface OsrmStep {
+  distance: number; // in meters
+  maneuver?: { instruction?: string };
+  intersections?: { classes?: string[] }[];
+}
+
+// Route object of an OSRM /route response (geometries=geojson)
+interface OsrmRoute {
+  distance: number; // in meters
+  duration: number; // in seconds
+  legs: { steps?: OsrmStep[] }[];
+  geometry?: GeoJSONLineString;
+}
+
+export class OsrmRoutingAdapter implements RoutingAdapter {
+  readonly id = 'osrm';
+  readonly name = 'OSRM';
+  readonly supportsTruckProfile: boolean;
+
+  /**
+   * `truckProfile`: name of the server's truck profile (e.g. "truck"), if it has one
+   */
+  constructor(private endpoint: ProviderEndpoint, private truckProfile?: string) {
+    this.supportsTruckProfile = !!truckProfile;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  checkHealth(signal?: AbortSignal): Promise<boolean> {
+    return isReachable(`${this.endpoint.url}/nearest/v1/driving/2.3522,48.8566`, this.endpoint.headers, signal);
+  }
+
+  async route(
+    points: Coordinates[],
+    options: RoutingOptions,
+    pathOptions: RoutePathOptions,
+    signal?: AbortSignal
+  ): Promise<RoutedPath[]> {
+    const query = pathOptions.geometry
+      ? `overview=full&geometries=geojson&steps=true${pathOptions.alternatives ? '&alternatives=true' : ''}`
+      : 'overview=false';
+    const url = `${this.endpoint.url}/route/v1/${this.profile(options)}/${this.formatCoordinates(points)}?${query}`;
+
+    const { response, excluded } = await this.fetchWithExclusions(url, options, signal);
+    if (!response.ok) {
+      throw HttpError.fromResponse(`Échec de l'API OSRM: ${response.statusText}`, response);
+    }
+
+    const data: { routes?: OsrmRoute[] } = await response.json();
+    if (!data.routes || data.routes.length === 0) {
+      throw new Error('Aucun trajet trouvé');
+    }
+
+    const { distanceFactor, durationFactor } = this.vehicleFactors(options);
+    return data.routes.map(route => {
+      const steps = route.legs.flatMap(leg => leg.steps ?? []);
+      return {
+        distance: (route.distance / 1000) * distanceFactor,
+        duration: (route.duration / 60) * durationFactor,
+        instructions: steps.map(step =>
+          step.maneuver?.instruction || `Continuer pendant ${(step.distance / 1000).toFixed(1)}km`
+        ),
+        polyline: route.geometry ?? null,
+        truckProfileApplied: this.usesTruckProfile(options),
+        avoidanceApplied: excluded,
+        tollDistance: steps.length > 0 ? this.tollDistance(steps) * distanceFactor : undefined,
+      };
+    });
+  }
+
+  async matrix(
+    points: Coordinates[],
+    sources: number[],
+    destinations: number[],
+    options: RoutingOptions,
+    signal?: AbortSignal
+  ): Promise<MatrixBlock> {
+    const url = `${this.endpoint.url}/table/v1/${this.profile(options)}/${this.formatCoordinates(points)}?sources=${sources.join(';')}&destinations=${destinations.join(';')}&annotations=distance,duration`;
+
+    const { response } = await this.fetchWithExclusions(url, options, signal);
+    if (!response.ok) {
+      throw HttpError.fromResponse(`Échec de l'API Table OSRM: ${response.statusText}`, response);
+    }
+
+    const data: { code: string; distances?: (number | null)[][]; durations?: (number | null)[][] } = await response.json();
+    if (data.code !== 'Ok' || !data.distances || !data.durations) {
+      throw new Error(`Réponse Table OSRM invalide: ${data.code}`);
+    }
+
+    // Mêmes ajustements camion que pour les trajets
+    const { distanceFactor, durationFactor } = this.vehicleFactors(options);
+    return {
+      distances: data.distances.map(row => row.map(value => (value == null ? null : (value / 1000) * distanceFactor))),
+      durations: data.durations.map(row => row.map(value => (value == null ? null : (value / 60) * durationFactor))),
+    };
+  }
+
+  // Distance parcourue sur les routes de classe « toll », en km
+  private tollDistance(steps: OsrmStep[]): number {
+    return steps
+      .filter(step => step.intersections?.[0]?.classes?.includes('toll'))
+      .reduce((sum, step) => sum + step.distance / 1000, 0);
+  }
+
+  private formatCoordinates(points: Coordinates[]): string {
+    return points.map(point => `${point.longitude},${point.latitude}`).join(';');
+  }
+
+  private usesTruckProfile(options: RoutingOptions): boolean {
+    return options.vehicleType === 'truck' && !!this.truckProfile;
+  }
+
+  private profile(options: RoutingOptions): string {
+    return this.usesTruckProfile(options) ? this.truckProfile! : 'driving';
+  }
+
+  // Camion simulé sur le profil voiture
+  private vehicleFactors(options: RoutingOptions): { distanceFactor: number; durationFactor: number } {
+    return options.vehicleType === 'truck' && !this.usesTruckProfile(options)
+      ? { distanceFactor: TRUCK_DISTANCE_FACTOR, durationFactor: TRUCK_DURATION_FACTOR }
+      : { distanceFactor: 1, durationFactor: 1 };
+  }
+
+  /**
+   * Call an OSRM service with the avoided road classes (`exclude`).
+   * Servers whose profile cannot exclude them answer 400: the call is then
+   * repeated without avoidance and reported as such.
+   */
+  private async fetchWithExclusions(
+    url: string,
+    options: RoutingOptions,
+    signal?: AbortSignal
+  ): Promise<{ response: Response; excluded: boolean }> {
+    const classes = [options.avoidTolls && 'toll', options.avoidHighways && 'motorway'].filter(Boolean);
+    if (classes.length > 0) {
+      const response = await requestScheduler.fetch(`${url}&exclude=${classes.join(',')}`, { headers: this.endpoint.headers, signal });
+      if (response.status !== 400) {
+        return { response, excluded: true };
+      }
+      logger.warn(`Le serveur OSRM ne permet pas d'exclure ${classes.join(', ')}, calcul sans évitement`);
+      return { response: await requestScheduler.fetch(url, { headers: this.endpoint.headers, signal }), excluded: false };
+    }
+    return { response: await requestScheduler.fetch(url, { headers: this.endpoint.headers, signal }), excluded: true };
+  }
+}
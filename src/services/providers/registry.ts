@@ -0,0 +1,76 @@
+/**
+ * Registry of the routing and geocoding backends. Each vehicle type has an ordered
+ * list of routing providers (set in `config`): the first configured one is used,
+ * the next ones are fallbacks.
+ */
+
+import { VehicleType } from '../../types/index.ts';
+import { config } from '../../config/index.ts';
+import { GeocodingAdapter, GeocodingProviderId, RoutingAdapter, RoutingProviderId } from './types.ts';
+import { OsrmRoutingAdapter } from './osrm.ts';
+import { OpenRouteServiceAdapter } from './openRouteService.ts';
+import { ValhallaRoutingAdapter } from './valhalla.ts';
+import { GraphHopperRoutingAdapter } from './graphHopper.ts';
+import { NominatimGeocodingAdapter } from './nominatim.ts';
+
+export interface ProviderRegistryOptions {
+  routing: RoutingAdapter[];
+  geocoding: GeocodingAdapter[];
+  routingOrder: Record<VehicleType, RoutingProviderId[]>;
+  geocodingOrder: GeocodingProviderId[];
+}
+
+export class ProviderRegistry {
+  private routingAdapters: Partial<Record<RoutingProviderId, RoutingAdapter>> = {};
+  private geocodingAdapters: Partial<Record<GeocodingProviderId, GeocodingAdapter>> = {};
+
+  constructor(private options: ProviderRegistryOptions) {
+    options.routing.forEach(adapter => this.registerRouting(adapter));
+    options.geocoding.forEach(adapter => this.registerGeocoding(adapter));
+  }
+
+  /**
+   * Add or replace a routing backend; it is only used once listed in the routing order
+   */
+  registerRouting(adapter: RoutingAdapter): void {
+    this.routingAdapters[adapter.id] = adapter;
+  }
+
+  registerGeocoding(adapter: GeocodingAdapter): void {
+    this.geocodingAdapters[adapter.id] = adapter;
+  }
+
+  /**
+   * Configured routing backends for a vehicle type, in order of preference
+   */
+  routingChain(vehicleType: VehicleType): RoutingAdapter[] {
+    return this.options.routingOrder[vehicleType]
+      .map(id => this.routingAdapters[id])
+      .filter((adapter): adapter is RoutingAdapter => !!adapter && adapter.isConfigured());
+  }
+
+  geocodingChain(): GeocodingAdapter[] {
+    return this.options.geocodingOrder
+      .map(id => this.geocodingAdapters[id])
+      .filter((adapter): adapter is GeocodingAdapter => !!adapter && adapter.isConfigured());
+  }
+}
+
+/**
+ * Registry with every built-in backend at the `config.endpoints` addresses,
+ * ordered as in `config.providers`.
+ * API keys are read here so that a new registry picks up the current environment.
+ */
+export function createProviderRegistry(): ProviderRegistry {
+  return new ProviderRegistry({
+    routing: [
+      new OsrmRoutingAdapter(config.endpoints.osrm, config.endpoints.osrmTruckProfile),
+      new OpenRouteServiceAdapter(import.meta.env.VITE_OPENROUTESERVICE_API_KEY || null, config.endpoints.ors),
+      new ValhallaRoutingAdapter(config.endpoints.valhalla),
+      new GraphHopperRoutingAdapter(import.meta.env.VITE_GRAPHHOPPER_API_KEY || null, config.endpoints.graphhopper),
+    ],
+    geocoding: [new NominatimGeocodingAdapter(config.endpoints.nominatim)],
+    routingOrder: config.providers.routing,
+    geocodingOrder: config.providers.geocoding,
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Retries and circuit breaker for the routing backends
+ * Transient failures (rate limiting, server errors, network errors) are retried
+ * with a jittered exponential backoff; a backend that keeps failing is skipped
+ * for a while instead of slowing down every request.
+ */
+
+import { createAbortError } from '../../utils/abort.ts';
+import { HttpError } from './http.ts';
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * 429, 5xx and network errors may succeed later; other errors (no route, bad request) will not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // fetch rejette avec une TypeError quand le réseau ou le serveur est injoignable
+  return error instanceof TypeError;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential, with half of it random
+ * so that clients failing together do not retry together
+ */
+export function backoffDelay(attempt: number, options: RetryOptions, random = Math.random): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return exponential / 2 + random() * (exponential / 2);
+}
+
+const sleep = (delayMs: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, delayMs);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Run `operation` again after transient failures; the last error is rethrown
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryableError(error)) throw error;
+      // Le serveur indique lui-même quand réessayer (Retry-After)
+      const retryAfter = error instanceof HttpError ? error.retryAfterMs ?? 0 : 0;
+      const delayMs = Math.min(options.maxDelayMs, Math.max(backoffDelay(attempt, options), retryAfter));
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Per-backend circuit breaker: after `failureThreshold` failures in a row the
+ * backend is skipped for `cooldownMs`, then tried again; one more failure opens
+ * the circuit for another cooldown
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+
+  constructor(
+    private failureThreshold = 3,
+    private cooldownMs = 30000,
+    private now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half_open' : 'open';
+  }
+
+  canRequest(): boolean {
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.openedAt !== null || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Contracts between the route optimization code and the routing / geocoding backends.
+ * Adapters only translate requests and responses: fallbacks between backends and
+ * straight-line estimates are handled by the routing service.
+ */
+
+import { RouteGeometry, TruckProfile, VehicleType } from '../../types/index.ts';
+
+export const ROUTING_PROVIDER_IDS = ['osrm', 'ors', 'valhalla', 'graphhopper'] as const;
+
+export type RoutingProviderId = typeof ROUTING_PROVIDER_IDS[number];
+
+export const GEOCODING_PROVIDER_IDS = ['nominatim'] as const;
+
+export type GeocodingProviderId = typeof GEOCODING_PROVIDER_IDS[number];
+
+/**
+ * Base URL of a backend, with the headers sent on every call (authentication
+ * in front of a self-hosted server)
+ */
+export interface ProviderEndpoint {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Options de routage communes à tous les segments et à la matrice d'un trajet
+export interface RoutingOptions {
+  vehicleType: VehicleType;
+  truckProfile?: TruckProfile;
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+}
+
+/**
+ * One way through the requested points, as computed by a backend
+ */
+export interface RoutedPath {
+  distance: number; // in kilometers
+  duration: number; // in minutes
+  instructions: string[];
+  polyline: RouteGeometry; // Null when the geometry was not requested
+  truckProfileApplied: boolean; // Truck dimensions and weight were part of the calculation
+  avoidanceApplied: boolean; // Tolls/highways were excluded as requested (true when nothing was requested)
+  tollDistance?: number; // km on toll roads, when the backend tells them apart
+}
+
+export interface RoutePathOptions {
+  geometry: boolean; // Polyline and turn-by-turn instructions
+  alternatives?: boolean; // Also return the other ways the backend knows, after the best one
+}
+
+/**
+ * Distances (km) and durations (min) from each source to each destination;
+ * null for pairs the backend could not route
+ */
+export interface MatrixBlock {
+  distances: (number | null)[][];
+  durations: (number | null)[][];
+}
+
+export interface RoutingAdapter {
+  readonly id: RoutingProviderId;
+  readonly name: string;
+  readonly supportsTruckProfile: boolean;
+  isConfigured(): boolean; // False when a required API key is missing
+  /**
+   * Route through `points` in order; the first path is the best one
+   */
+  route(points: Coordinates[], options: RoutingOptions, pathOptions: RoutePathOptions, signal?: AbortSignal): Promise<RoutedPath[]>;
+  /**
+   * Only for backends with a matrix service; `sources` and `destinations` are indices in `points`
+   */
+  matrix?(points: Coordinates[], sources: number[], destinations: number[], options: RoutingOptions, signal?: AbortSignal): Promise<MatrixBlock>;
+  /**
+   * Cheap call telling whether the backend answers; never throws
+   */
+  checkHealth(signal?: AbortSignal): Promise<boolean>;
+}
+
+export interface GeocodingAdapter {
+  readonly id: GeocodingProviderId;
+  readonly name: string;
+  isConfigured(): boolean;
+  geocode(address: string, signal?: AbortSignal): Promise<Coordinates | null>;
+  checkHealth(signal?: AbortSignal): Promise<boolean>;
+}
@@ -0,0 +1,129 @@
+/**
+ * Valhalla adapter: truck costing with the truck dimensions, avoided
+ * tolls/highways as strong penalties, matrix service.
+ */
+
+import { decodePolyline } from '../../utils/routeUtils.ts';
+import { Coordinates, MatrixBlock, ProviderEndpoint, RoutedPath, RoutePathOptions, RoutingAdapter, RoutingOptions } from './types.ts';
+import { HttpError, isReachable } from './http.ts';
+import { requestScheduler } from '../requestScheduler.ts';
+
+interface ValhallaTrip {
+  summary: { length: number; time: number }; // km (units=kilometers), seconds
+  legs: { shape: string; maneuvers?: { instruction: string; length?: number; toll?: boolean }[] }[]; // Shapes use 6 digits precision, lengths in km
+}
+
+export class ValhallaRoutingAdapter implements RoutingAdapter {
+  readonly id = 'valhalla';
+  readonly name = 'Valhalla';
+  readonly supportsTruckProfile = true;
+
+  constructor(private endpoint: ProviderEndpoint) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  checkHealth(signal?: AbortSignal): Promise<boolean> {
+    return isReachable(`${this.endpoint.url}/status`, this.endpoint.headers, signal);
+  }
+
+  async route(
+    points: Coordinates[],
+    options: RoutingOptions,
+    pathOptions: RoutePathOptions,
+    signal?: AbortSignal
+  ): Promise<RoutedPath[]> {
+    const data: { trip?: ValhallaTrip; alternates?: { trip: ValhallaTrip }[] } = await this.post('route', {
+      locations: points.map(point => this.toLocation(point)),
+      ...this.costing(options),
+      directions_options: { units: 'kilometers', language: 'fr-FR' },
+      directions_type: pathOptions.geometry ? 'instructions' : 'none',
+      ...(pathOptions.alternatives ? { alternates: 1 } : {}),
+    }, signal);
+
+    if (!data.trip) {
+      throw new Error('Aucun trajet trouvé');
+    }
+
+    const trips = [data.trip, ...(data.alternates ?? []).map(alternate => alternate.trip)];
+    return trips.map(trip => {
+      const maneuvers = trip.legs.flatMap(leg => leg.maneuvers ?? []);
+      return {
+        distance: trip.summary.length,
+        duration: trip.summary.time / 60,
+        instructions: maneuvers.map(maneuver => maneuver.instruction),
+        polyline: pathOptions.geometry
+          ? { type: 'LineString', coordinates: trip.legs.flatMap(leg => decodePolyline(leg.shape, 6)) }
+          : null,
+        truckProfileApplied: options.vehicleType === 'truck',
+        avoidanceApplied: true,
+        // Manœuvres sur route à péage, seulement avec les instructions
+        tollDistance: maneuvers.length > 0
+          ? maneuvers.filter(maneuver => maneuver.toll).reduce((sum, maneuver) => sum + (maneuver.length ?? 0), 0)
+          : undefined,
+      };
+    });
+  }
+
+  async matrix(
+    points: Coordinates[],
+    sources: number[],
+    destinations: number[],
+    options: RoutingOptions,
+    signal?: AbortSignal
+  ): Promise<MatrixBlock> {
+    const data: { sources_to_targets?: { distance: number | null; time: number | null }[][] } = await this.post('sources_to_targets', {
+      sources: sources.map(index => this.toLocation(points[index])),
+      targets: destinations.map(index => this.toLocation(points[index])),
+      ...this.costing(options),
+      units: 'kilometers',
+    }, signal);
+
+    if (!data.sources_to_targets) {
+      throw new Error('Réponse matrice Valhalla invalide');
+    }
+
+    return {
+      distances: data.sources_to_targets.map(row => row.map(cell => cell.distance)),
+      durations: data.sources_to_targets.map(row => row.map(cell => (cell.time == null ? null : cell.time / 60))),
+    };
+  }
+
+  private async post<T>(service: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const response = await requestScheduler.fetch(`${this.endpoint.url}/${service}`, {
+      method: 'POST',
+      headers: { ...this.endpoint.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw HttpError.fromResponse(`Échec de l'API Valhalla: ${response.status}`, response);
+    }
+    return response.json();
+  }
+
+  private toLocation(point: Coordinates): { lat: number; lon: number } {
+    return { lat: point.latitude, lon: point.longitude };
+  }
+
+  /**
+   * Costing model with the truck dimensions (meters, tonnes) and the avoided roads
+   */
+  private costing(options: RoutingOptions): { costing: string; costing_options: Record<string, unknown> } {
+    const costing = options.vehicleType === 'truck' ? 'truck' : 'auto';
+    const costingOptions: Record<string, unknown> = {};
+    if (options.avoidTolls) costingOptions.use_tolls = 0;
+    if (options.avoidHighways) costingOptions.use_highways = 0;
+
+    const profile = options.vehicleType === 'truck' ? options.truckProfile : undefined;
+    if (profile?.height) costingOptions.height = profile.height;
+    if (profile?.width) costingOptions.width = profile.width;
+    if (profile?.length) costingOptions.length = profile.length;
+    if (profile?.weight) costingOptions.weight = profile.weight;
+    if (profile?.axleLoad) costingOptions.axle_load = profile.axleLoad;
+    if (profile?.hazmat) costingOptions.hazmat = true;
+
+    return { costing, costing_options: { [costing]: costingOptions } };
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Shared HTTP request scheduler for the routing and geocoding backends
+ * Requests wait in a queue per host so that public servers are called within
+ * their usage policy (minimum interval between requests, concurrency cap).
+ * Identical requests already queued or running share a single call.
+ * Each JavaScript context (main thread, optimization worker) has its own scheduler,
+ * so the limits hold per context only: the health check and address search of
+ * the main thread are not counted against the routing calls of the worker, and
+ * a host can briefly receive one request per context within the same interval.
+ */
+
+import { config } from '../config/index.ts';
+import { createAbortError } from '../utils/abort.ts';
+import { HostRequestStats, RequestSchedulerStats } from '../types/index.ts';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+// Interactive requests (user typing) go before route calculations, batch geocoding last
+export const REQUEST_PRIORITIES = ['interactive', 'normal', 'batch'] as const;
+
+export type RequestPriority = typeof REQUEST_PRIORITIES[number];
+
+export interface HostLimit {
+  minIntervalMs: number; // Between the start of two requests
+  maxConcurrent: number;
+}
+
+export interface RequestSchedulerOptions {
+  hosts: Record<string, HostLimit>; // Limits of specific hosts, e.g. "nominatim.openstreetmap.org"
+  defaultLimit: HostLimit;
+}
+
+interface Waiter {
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Job {
+  key: string;
+  host: string;
+  url: string;
+  init: FetchInit;
+  priority: RequestPriority;
+  sequence: number;
+  waiters: Set<Waiter>;
+  controller: AbortController;
+  started: boolean;
+}
+
+interface HostState {
+  queue: Job[];
+  inFlight: number;
+  lastStart: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  stats: HostRequestStats;
+}
+
+const emptyStats = (): HostRequestStats => ({ queued: 0, inFlight: 0, completed: 0, failed: 0, deduplicated: 0 });
+
+/**
+ * Add up the stats of several schedulers (e.g. main thread and worker)
+ */
+export function combineRequestStats(...all: RequestSchedulerStats[]): RequestSchedulerStats {
+  const combined: RequestSchedulerStats = { ...emptyStats(), hosts: {} };
+  all.forEach(stats => {
+    Object.entries(stats.hosts).forEach(([host, hostStats]) => {
+      const target = combined.hosts[host] ?? (combined.hosts[host] = emptyStats());
+      (Object.keys(hostStats) as (keyof HostRequestStats)[]).forEach(field => {
+        target[field] += hostStats[field];
+        combined[field] += hostStats[field];
+      });
+    });
+  });
+  return combined;
+}
+
+export class RequestScheduler {
+  private states = new Map<string, HostState>();
+  private pending = new Map<string, Job>();
+  private listeners = new Set<(stats: RequestSchedulerStats) => void>();
+  private sequence = 0;
+
+  constructor(private options: RequestSchedulerOptions) {}
+
+  /**
+   * Replace the host limits; queued requests follow the new limits
+   */
+  configure(options: RequestSchedulerOptions): void {
+    this.options = options;
+    this.states.forEach((_, host) => this.pump(host));
+  }
+
+  /**
+   * Drop-in replacement for `fetch`, honoring the limits of the target host.
+   * Aborting `init.signal` removes the request from the queue.
+   */
+  fetch(url: string, init: FetchInit = {}, priority: RequestPriority = 'normal'): Promise<Response> {
+    const { signal, ...requestInit } = init;
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const host = new URL(url).host;
+    const state = this.state(host);
+    const key = `${requestInit.method ?? 'GET'} ${url} ${typeof requestInit.body === 'string' ? requestInit.body : ''}`;
+    let job = this.pending.get(key);
+
+    if (job) {
+      state.stats.deduplicated++;
+      // Une requête plus urgente remonte la requête partagée dans la file
+      if (!job.started && REQUEST_PRIORITIES.indexOf(priority) < REQUEST_PRIORITIES.indexOf(job.priority)) {
+        job.priority = priority;
+      }
+    } else {
+      job = {
+        key,
+        host,
+        url,
+        init: requestInit,
+        priority,
+        sequence: this.sequence++,
+        waiters: new Set(),
+        controller: new AbortController(),
+        started: false,
+      };
+      this.pending.set(key, job);
+      state.queue.push(job);
+      state.stats.queued++;
+    }
+
+    const sharedJob = job;
+    const promise = new Promise<Response>((resolve, reject) => {
+      const onAbort = () => {
+        sharedJob.waiters.delete(waiter);
+        reject(createAbortError());
+        if (sharedJob.waiters.size === 0) this.cancel(sharedJob);
+      };
+      const waiter: Waiter = {
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      sharedJob.waiters.add(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    this.pump(host);
+    this.notify();
+    return promise;
+  }
+
+  getStats(): RequestSchedulerStats {
+    const stats: RequestSchedulerStats = { ...emptyStats(), hosts: {} };
+    this.states.forEach((state, host) => {
+      stats.hosts[host] = { ...state.stats };
+    });
+    return combineRequestStats(stats);
+  }
+
+  /**
+   * Listen to every change of the stats; returns the unsubscribe function
+   */
+  subscribe(listener: (stats: RequestSchedulerStats) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private limit(host: string): HostLimit {
+    return this.options.hosts[host] ?? this.options.defaultLimit;
+  }
+
+  private state(host: string): HostState {
+    let state = this.states.get(host);
+    if (!state) {
+      state = { queue: [], inFlight: 0, lastStart: -Infinity, timer: null, stats: emptyStats() };
+      this.states.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * Start as many queued requests of the host as its limits allow
+   */
+  private pump(host: string): void {
+    const state = this.state(host);
+    const { minIntervalMs, maxConcurrent } = this.limit(host);
+
+    while (state.queue.length > 0 && state.inFlight < maxConcurrent) {
+      const wait = state.lastStart + minIntervalMs - Date.now();
+      if (wait > 0) {
+        if (!state.timer) {
+          state.timer = setTimeout(() => {
+            state.timer = null;
+            this.pump(host);
+          }, wait);
+        }
+        return;
+      }
+
+      // Priorité d'abord, puis ordre d'arrivée
+      state.queue.sort((a, b) =>
+        REQUEST_PRIORITIES.indexOf(a.priority) - REQUEST_PRIORITIES.indexOf(b.priority) || a.sequence - b.sequence
+      );
+      this.start(state.queue.shift()!, state);
+    }
+  }
+
+  private async start(job: Job, state: HostState): Promise<void> {
+    job.started = true;
+    state.lastStart = Date.now();
+    state.inFlight++;
+    state.stats.queued--;
+    state.stats.inFlight++;
+    this.notify();
+
+    try {
+      const response = await fetch(job.url, { ...job.init, signal: job.controller.signal });
+      state.stats.completed++;
+      // Chaque demandeur lit sa propre copie du corps
+      const [first, ...others] = [...job.waiters];
+      others.forEach(waiter => waiter.resolve(response.clone()));
+      first?.resolve(response);
+    } catch (error) {
+      if (!job.controller.signal.aborted) state.stats.failed++;
+      job.waiters.forEach(waiter => waiter.reject(error));
+    } finally {
+      this.forget(job);
+      state.inFlight--;
+      state.stats.inFlight--;
+      this.pump(job.host);
+      this.notify();
+    }
+  }
+
+  /**
+   * Nobody waits for the request anymore: drop it from the queue or abort it
+   */
+  private cancel(job: Job): void {
+    this.forget(job);
+    if (job.started) {
+      job.controller.abort();
+      return;
+    }
+    const state = this.state(job.host);
+    state.queue = state.queue.filter(queued => queued !== job);
+    state.stats.queued--;
+    this.notify();
+  }
+
+  // Une requête annulée a pu être remplacée par une nouvelle de même clé
+  private forget(job: Job): void {
+    if (this.pending.get(job.key) === job) this.pending.delete(job.key);
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const stats = this.getStats();
+    this.listeners.forEach(listener => listener(stats));
+  }
+}
+
+// Instance singleton, limites définies dans config.requestLimits
+export const requestScheduler = new RequestScheduler(config.requestLimits);
@@ -0,0 +1,183 @@
+import {
+  Route,
+  RouteOptimizationRequest,
+  RouteOptimizationResponse,
+  FleetOptimizationRequest,
+  FleetOptimizationResponse,
+  OptimizationProgress,
+  OptimizationWorkerRequest,
+  OptimizationWorkerResponse,
+  RequestSchedulerStats,
+} from '../types/index.ts';
+import { freeRoutingService } from './freeRoutingService.ts';
+import { routingLogger as logger } from '../utils/logger.ts';
+import { createAbortError } from '../utils/abort.ts';
+
+type WorkerResponse = RouteOptimizationResponse | FleetOptimizationResponse;
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: OptimizationProgress) => void;
+}
+
+/**
+ * Client du worker d'optimisation
+ * Falls back to the main thread when workers are unavailable (tests, old browsers).
+ */
+export class RouteWorkerClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private requestStatsListeners = new Set<(stats: RequestSchedulerStats) => void>();
+
+  async calculateRoute(request: RouteOptimizationRequest): Promise<RouteOptimizationResponse> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return freeRoutingService.calculateRoute(request);
+    }
+
+    const { onProgress, signal, ...workerRequest } = request;
+    return this.dispatch<RouteOptimizationResponse>(
+      worker,
+      id => ({ type: 'calculate', id, request: workerRequest }),
+      onProgress,
+      signal
+    );
+  }
+
+  async calculateFleetRoutes(request: FleetOptimizationRequest): Promise<FleetOptimizationResponse> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return freeRoutingService.calculateFleetRoutes(request);
+    }
+
+    const { onProgress, signal, ...workerRequest } = request;
+    return this.dispatch<FleetOptimizationResponse>(
+      worker,
+      id => ({ type: 'calculateFleet', id, request: workerRequest }),
+      onProgress,
+      signal
+    );
+  }
+
+  async recalculateEstimatedSegments(request: RouteOptimizationRequest, route: Route): Promise<RouteOptimizationResponse> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return freeRoutingService.recalculateEstimatedSegments(request, route);
+    }
+
+    const { onProgress, signal, ...workerRequest } = request;
+    return this.dispatch<RouteOptimizationResponse>(
+      worker,
+      id => ({ type: 'recalculateEstimated', id, request: workerRequest, route }),
+      onProgress,
+      signal
+    );
+  }
+
+  /**
+   * Listen to the request scheduler stats of the worker; returns the unsubscribe function
+   */
+  subscribeRequestStats(listener: (stats: RequestSchedulerStats) => void): () => void {
+    this.requestStatsListeners.add(listener);
+    return () => {
+      this.requestStatsListeners.delete(listener);
+    };
+  }
+
+  private dispatch<T extends WorkerResponse>(
+    worker: Worker,
+    createMessage: (id: number) => OptimizationWorkerRequest,
+    onProgress?: (progress: OptimizationProgress) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      // Le signal ne traverse pas postMessage : le traduire en message d'annulation
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        const cancel: OptimizationWorkerRequest = { type: 'cancel', id };
+        worker.postMessage(cancel);
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response as T);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress,
+      });
+      worker.postMessage(createMessage(id));
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (this.workerFailed || typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('../workers/routeOptimizer.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      this.worker.onmessage = event => this.handleMessage(event.data);
+      this.worker.onerror = event => this.handleWorkerError(event);
+      return this.worker;
+    } catch (error) {
+      logger.warn('Impossible de démarrer le worker, calcul sur le thread principal:', error);
+      this.workerFailed = true;
+      return null;
+    }
+  }
+
+  private handleMessage(message: OptimizationWorkerResponse): void {
+    if (message.type === 'requestStats') {
+      this.requestStatsListeners.forEach(listener => listener(message.stats));
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.progress);
+        break;
+      case 'result':
+      case 'fleetResult':
+        this.pending.delete(message.id);
+        pending.resolve(message.response);
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private handleWorkerError(event: ErrorEvent): void {
+    logger.error('Erreur du worker d\'optimisation:', event.message);
+    event.preventDefault();
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    const error = new Error('Le calcul d\'itinéraire a échoué dans le worker');
+    this.pending.forEach(pending => pending.reject(error));
+    this.pending.clear();
+  }
+}
+
+// Instance singleton
+export const routeWorkerClient = new RouteWorkerClient();
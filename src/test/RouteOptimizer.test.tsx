@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import RouteOptimizer from '../components/RouteOptimizer';
+import { routeWorkerClient } from '../services/routeWorkerClient';
+import { scheduleRoute } from '../utils/routeSchedule';
+import { describeCostBreakdown, formatPreciseCost, resolveCostRates, segmentCost } from '../utils/routeCost';
+import { Location, Route, RouteSegment } from '../types';
+
+vi.mock('../services/routeWorkerClient', () => ({
+  routeWorkerClient: {
+    calculateRoute: vi.fn(),
+    calculateFleetRoutes: vi.fn(),
+    recalculateEstimatedSegments: vi.fn(),
+  },
+}));
+
+vi.mock('../hooks/useProviderHealth', () => ({ useProviderHealth: () => null }));
+
+// Ni carte ni recherche d'adresse : chaque clic ajoute une adresse géocodée
+vi.mock('../components/LazyMap', () => ({ default: () => null }));
+vi.mock('../components/AddressAutocomplete', () => ({
+  default: ({ onSelect }: { onSelect: (suggestion: { display_name: string; lat: string; lon: string }) => void }) => (
+    <button onClick={() => onSelect({ display_name: 'Lyon', lat: '45.76', lon: '4.83' })}>Ajouter une adresse</button>
+  ),
+}));
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const locations: Location[] = ['Lyon', 'Bordeaux', 'Nantes'].map((address, i) => ({
+  id: `loc_${i}`,
+  address,
+  coordinates: { latitude: 45 + i, longitude: 4 - i * 3 },
+}));
+
+const segment = (from: Location, to: Location, distance: number, duration: number): RouteSegment => ({
+  from,
+  to,
+  distance,
+  duration,
+  instructions: [],
+  polyline: null,
+  source: 'osrm',
+  confidence: 'high',
+});
+
+// Lyon → Bordeaux → Nantes, départ à 8 h
+const createRoute = (segments: RouteSegment[], { maxWorkingDay, serviceDuration = 0 }: { maxWorkingDay?: number; serviceDuration?: number } = {}): Route => {
+  const totalServiceTime = serviceDuration * (locations.length - 1);
+  return {
+    id: 'route_1',
+    locations,
+    totalDistance: segments.reduce((sum, item) => sum + item.distance, 0),
+    totalDuration: segments.reduce((sum, item) => sum + item.duration, 0) + totalServiceTime,
+    totalServiceTime,
+    vehicleType: 'truck',
+    isLoop: false,
+    segments,
+    optimizationMethod: 'balanced',
+    departureTime: '08:00',
+    maxWorkingDay,
+    ...scheduleRoute(locations, segments, locations.map((_, i) => ({ serviceDuration: i > 0 ? serviceDuration : 0 })), 480, false, maxWorkingDay),
+  };
+};
+
+// Journées de 6 h : la nuit tombe sur la route de Nantes
+const createTwoDayRoute = (): Route =>
+  createRoute([segment(locations[0], locations[1], 550, 300), segment(locations[1], locations[2], 350, 300)], { maxWorkingDay: 360 });
+
+const click = (element: Element) => act(async () => {
+  element.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+});
+
+// Saisie dans un champ contrôlé par React
+const type = (input: HTMLInputElement, value: string) => act(async () => {
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set?.call(input, value);
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+});
+
+const findButton = (container: HTMLElement, text: string): HTMLButtonElement => {
+  const button = [...container.querySelectorAll('button')].find(item => item.textContent?.trim() === text);
+  if (!button) throw new Error(`Bouton introuvable : ${text}`);
+  return button;
+};
+
+describe('RouteOptimizer', () => {
+  let container: HTMLElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  // Deux adresses ajoutées puis un calcul qui renvoie le trajet donné
+  const calculate = async (route: Route) => {
+    vi.mocked(routeWorkerClient.calculateRoute).mockResolvedValue({
+      route,
+      metadata: { calculationTime: 1, algorithm: 'held-karp', apiProvider: 'OSRM' },
+    });
+    await act(async () => root.render(<RouteOptimizer />));
+
+    await click(findButton(container, 'Ajouter une adresse'));
+    await click(findButton(container, 'Ajouter une adresse'));
+    await click(findButton(container, 'Optimiser le trajet'));
+  };
+
+  it('should show the days of a multi-day route as tabs in the detailed steps', async () => {
+    await calculate(createTwoDayRoute());
+
+    const tabs = [...container.querySelectorAll('[role="tab"]')];
+    expect(tabs.map(tab => tab.textContent)).toEqual(['Jour 1', 'Jour 2']);
+    expect(tabs[0].getAttribute('aria-selected')).toBe('true');
+    expect(container.textContent).toContain('Nuit sur la route vers Nantes');
+
+    await click(tabs[1]);
+
+    expect(tabs[1].getAttribute('aria-selected')).toBe('true');
+    expect(container.textContent).not.toContain('Nuit sur la route');
+    expect(container.textContent).toContain('Étape partielle');
+  });
+
+  it('should show the cost of each step in the detailed steps', async () => {
+    const route = createTwoDayRoute();
+    await calculate(route);
+
+    const firstStep = segmentCost(route.segments[0], resolveCostRates('truck'));
+    expect(container.textContent).toContain(describeCostBreakdown(firstStep, formatPreciseCost));
+    expect(container.textContent).toContain(formatPreciseCost(firstStep.total));
+  });
+
+  it('should show where each step comes from', async () => {
+    await calculate(createRoute([
+      segment(locations[0], locations[1], 550, 300),
+      { ...segment(locations[1], locations[2], 350, 300), source: 'estimated', confidence: 'low' },
+    ]));
+
+    const sources = [...container.querySelectorAll('[title^="Fiabilité"]')];
+    expect(sources.map(item => [item.textContent, item.getAttribute('title')])).toEqual([
+      ['OSRM', 'Fiabilité : Fiable'],
+      ['Estimation à vol d\'oiseau', 'Fiabilité : Estimé'],
+    ]);
+    expect(container.textContent).toContain('≈ 350.0 km');
+  });
+
+  it('should show the time on site at each stop', async () => {
+    await calculate(createRoute(
+      [segment(locations[0], locations[1], 550, 300), segment(locations[1], locations[2], 350, 120)],
+      { serviceDuration: 20 }
+    ));
+
+    expect(container.textContent).toContain('dont 0h40 sur place');
+    expect(container.textContent).toContain('Arrivée 13:00 · départ 13:20 · sur place 20 min');
+    expect(container.textContent).toContain('Arrivée 15:20 · départ 15:40 · sur place 20 min');
+  });
+
+  it('should follow a new departure time in the timeline without routing again', async () => {
+    await calculate(createRoute([segment(locations[0], locations[1], 550, 300), segment(locations[1], locations[2], 350, 120)]));
+
+    expect(container.textContent).toContain('Arrivée 13:00');
+    expect(container.textContent).toContain('Σ 550.0 km');
+    expect(container.textContent).toContain('Σ 900.0 km');
+
+    await type(container.querySelector<HTMLInputElement>('input[aria-label="Heure de départ"]')!, '10:00');
+
+    expect(container.textContent).not.toContain('Arrivée 13:00');
+    expect(container.textContent).toContain('Arrivée 15:00');
+    expect(container.textContent).toContain('Arrivée 17:00');
+    expect(routeWorkerClient.calculateRoute).toHaveBeenCalledTimes(1);
+  });
+});
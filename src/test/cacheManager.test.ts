@@ -103,6 +103,52 @@ describe('generateRouteKey', () => {
     expect(key1).not.toBe(key2);
   });
 
+  it('should generate different keys for different truck profiles', () => {
+    const low = generateRouteKey(createMockRequest({ vehicleType: 'truck', truckProfile: { height: 3.5 } }));
+    const high = generateRouteKey(createMockRequest({ vehicleType: 'truck', truckProfile: { height: 4 } }));
+    const car = generateRouteKey(createMockRequest({ vehicleType: 'car', truckProfile: { height: 4 } }));
+
+    expect(low).not.toBe(high);
+    // Le gabarit n'a pas d'effet sur une voiture
+    expect(car).toBe(generateRouteKey(createMockRequest({ vehicleType: 'car' })));
+  });
+
+  it('should generate different keys when avoiding tolls or highways', () => {
+    const keys = [
+      generateRouteKey(createMockRequest()),
+      generateRouteKey(createMockRequest({ avoidTolls: true })),
+      generateRouteKey(createMockRequest({ avoidHighways: true })),
+    ];
+
+    expect(new Set(keys).size).toBe(3);
+  });
+
+  it('should only key the cost rates when the objective includes the cost', () => {
+    const cheapFuel = { fuelPrice: 1.5 };
+
+    expect(generateRouteKey(createMockRequest({ optimizationMethod: 'lowest_cost', costSettings: cheapFuel })))
+      .not.toBe(generateRouteKey(createMockRequest({ optimizationMethod: 'lowest_cost' })));
+    expect(generateRouteKey(createMockRequest({ costSettings: cheapFuel }))).toBe(generateRouteKey(createMockRequest()));
+  });
+
+  it('should key the balanced weights once normalized', () => {
+    const timeFirst = { distance: 0.2, time: 0.8, cost: 0, emissions: 0 };
+
+    expect(generateRouteKey(createMockRequest({ objectiveWeights: timeFirst })))
+      .not.toBe(generateRouteKey(createMockRequest()));
+    expect(generateRouteKey(createMockRequest({ objectiveWeights: { distance: 40, time: 60, cost: 0, emissions: 0 } })))
+      .toBe(generateRouteKey(createMockRequest()));
+    expect(generateRouteKey(createMockRequest({ optimizationMethod: 'fastest_time', objectiveWeights: timeFirst })))
+      .toBe(generateRouteKey(createMockRequest({ optimizationMethod: 'fastest_time' })));
+  });
+
+  it('should key the cost rates when the balanced weights include the cost', () => {
+    const withCost = { distance: 0.5, time: 0, cost: 0.5, emissions: 0 };
+
+    expect(generateRouteKey(createMockRequest({ objectiveWeights: withCost, costSettings: { fuelPrice: 1.5 } })))
+      .not.toBe(generateRouteKey(createMockRequest({ objectiveWeights: withCost })));
+  });
+
   it('should include coordinate precision in key', () => {
     const key = generateRouteKey(createMockRequest());
     
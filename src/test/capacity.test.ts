@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { addLoads, computeLoadProfile, computeTripLoads, fitsCapacity, loadRatio, splitIntoTrips } from '../utils/capacity';
+import { Location } from '../types';
+
+describe('load helpers', () => {
+  it('should only limit the dimensions with a capacity', () => {
+    const load = addLoads({ weight: 300, pallets: 2 }, { weight: 250 });
+
+    expect(load).toEqual({ weight: 550, pallets: 2 });
+    expect(fitsCapacity(load, { weight: 600 })).toBe(true);
+    expect(fitsCapacity(load, { weight: 600, pallets: 1 })).toBe(false);
+    expect(fitsCapacity(load, undefined)).toBe(true);
+    expect(loadRatio(load, { weight: 1100, pallets: 4 })).toBe(0.5);
+  });
+});
+
+describe('splitIntoTrips', () => {
+  // Arrêts alignés à 1, 2, 3... du dépôt
+  const legCost = (from: number, to: number) => Math.abs((from < 0 ? 0 : from + 1) - (to < 0 ? 0 : to + 1));
+
+  it('should keep a single trip when everything fits', () => {
+    const trips = splitIntoTrips([{ demand: { weight: 10 } }, { demand: { weight: 10 } }], { weight: 100 }, legCost, true);
+
+    expect(trips).toEqual([[0, 1]]);
+  });
+
+  it('should split the order into trips that fit the capacity', () => {
+    const stops = Array.from({ length: 4 }, () => ({ demand: { weight: 40 } }));
+    const trips = splitIntoTrips(stops, { weight: 100 }, legCost, true)!;
+
+    expect(trips.flat()).toEqual([0, 1, 2, 3]);
+    trips.forEach(trip => expect(trip.length).toBeLessThanOrEqual(2));
+  });
+
+  it('should keep a pickup and its delivery in the same trip', () => {
+    // 0 : collecte livrée en 2 ; couper après 1 serait moins cher sans la paire
+    const stops = [{}, { demand: { weight: 40 } }, { demand: { weight: 40 }, pickupIndex: 0 }, { demand: { weight: 40 } }];
+    const trips = splitIntoTrips(stops, { weight: 80 }, legCost, true)!;
+
+    expect(trips).toEqual([[0, 1, 2], [3]]);
+  });
+
+  it('should reject stops larger than the vehicle', () => {
+    expect(splitIntoTrips([{ demand: { pallets: 3 } }], { pallets: 2 }, legCost, false)).toBeNull();
+  });
+});
+
+describe('computeTripLoads', () => {
+  it('should carry paired shipments only between pickup and delivery', () => {
+    const { start, loads } = computeTripLoads([
+      { demand: { weight: 30 } },
+      {},
+      { demand: { weight: 50 }, pickupIndex: 1 },
+    ]);
+
+    expect(start).toEqual({ weight: 30 });
+    expect(loads.map(load => load.weight ?? 0)).toEqual([0, 50, 0]);
+  });
+});
+
+describe('computeLoadProfile', () => {
+  it('should reload at every depot return and unload at each stop', () => {
+    const locations: Location[] = [
+      { id: 'depot', address: 'Dépôt' },
+      { id: 'a', address: 'A', demand: { weight: 30 } },
+      { id: 'b', address: 'B', demand: { weight: 20 } },
+      { id: 'depot_reload_1', address: 'Dépôt', depotReturnOf: 'depot' },
+      { id: 'c', address: 'C', demand: { weight: 40 } },
+    ];
+
+    expect(computeLoadProfile(locations).map(load => load.weight ?? 0)).toEqual([50, 20, 0, 40, 0]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  driveLeg,
+  restAtStop,
+  BREAK_DURATION,
+  DAILY_REST_DURATION,
+  INITIAL_DRIVING_STATE,
+  MAX_CONTINUOUS_DRIVING,
+} from '../utils/drivingRules';
+
+describe('driveLeg', () => {
+  it('should not stop on short legs', () => {
+    const leg = driveLeg(INITIAL_DRIVING_STATE, 120, 480);
+
+    expect(leg.arrivalTime).toBe(600);
+    expect(leg.rests).toEqual([]);
+    expect(leg.state).toEqual({ sinceBreak: 120, today: 120 });
+  });
+
+  it('should insert a 45 minute break after 4h30 of driving', () => {
+    const leg = driveLeg({ sinceBreak: 240, today: 240 }, 60, 720);
+
+    expect(leg.rests).toEqual([{ type: 'break', startTime: 750, duration: BREAK_DURATION, legOffset: 30 }]);
+    expect(leg.arrivalTime).toBe(720 + 60 + BREAK_DURATION);
+    expect(leg.state).toEqual({ sinceBreak: 30, today: 300 });
+  });
+
+  it('should take the daily rest once the daily driving is used up', () => {
+    // 10h de trajet : pause à 4h30, repos journalier à 9h
+    const leg = driveLeg(INITIAL_DRIVING_STATE, 600, 360);
+
+    expect(leg.rests.map(rest => [rest.type, rest.legOffset])).toEqual([
+      ['break', MAX_CONTINUOUS_DRIVING],
+      ['daily_rest', 540],
+    ]);
+    expect(leg.arrivalTime).toBe(360 + 600 + BREAK_DURATION + DAILY_REST_DURATION);
+    expect(leg.state).toEqual({ sinceBreak: 60, today: 60 });
+  });
+});
+
+describe('restAtStop', () => {
+  it('should count long waits as the break', () => {
+    const state = { sinceBreak: 200, today: 400 };
+
+    expect(restAtStop(state, 20)).toBe(state);
+    expect(restAtStop(state, 45)).toEqual({ sinceBreak: 0, today: 400 });
+  });
+});
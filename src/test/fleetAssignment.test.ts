@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { assignStopsToVehicles, AssignmentVehicle } from '../utils/fleetAssignment';
+
+// Points on a line, 10 minutes apart; index 0 is the depot
+const lineDurations = (count: number): number[][] =>
+  Array.from({ length: count }, (_, a) => Array.from({ length: count }, (_, b) => Math.abs(a - b) * 10));
+
+const vehicle = (overrides?: Partial<AssignmentVehicle>): AssignmentVehicle => ({
+  startIndex: 0,
+  endIndex: 0,
+  ...overrides,
+});
+
+describe('assignStopsToVehicles', () => {
+  it('should assign every stop once and balance the workloads', () => {
+    const stops = [1, 2, 3, 4, 5, 6];
+    const result = assignStopsToVehicles(stops, [vehicle(), vehicle()], {
+      durations: lineDurations(7),
+      stops: Object.fromEntries(stops.map(stop => [stop, { serviceDuration: 15 }])),
+      departureTime: 480,
+    });
+
+    expect(result.unassigned).toEqual([]);
+    expect(result.tours.flat().sort()).toEqual(stops);
+    expect(result.tours.every(tour => tour.length > 0)).toBe(true);
+    // Un seul véhicule ferait 120 min de route + 90 min sur place
+    expect(Math.max(...result.workloads)).toBeLessThan(210);
+  });
+
+  it('should leave out stops that fit in no shift', () => {
+    const result = assignStopsToVehicles([1, 5], [vehicle({ maxShiftDuration: 60 })], {
+      durations: lineDurations(6),
+      stops: {},
+      departureTime: 480,
+    });
+
+    // Aller-retour vers 5 = 100 min > 60 min
+    expect(result.tours[0]).toEqual([1]);
+    expect(result.unassigned).toEqual([{ stop: 5, reason: 'shift_duration' }]);
+  });
+
+  it('should use the matrix of the vehicle profile when it has one', () => {
+    const truckDurations = lineDurations(3).map(row => row.map(minutes => minutes * 3));
+    const result = assignStopsToVehicles([2], [vehicle({ durations: truckDurations, maxShiftDuration: 60 }), vehicle({ maxShiftDuration: 60 })], {
+      durations: lineDurations(3),
+      stops: {},
+      departureTime: 480,
+    });
+
+    // 120 min avec les temps du camion, 40 min pour la voiture
+    expect(result.tours).toEqual([[], [2]]);
+  });
+
+  it('should respect time windows when inserting stops', () => {
+    const result = assignStopsToVehicles([1, 2], [vehicle()], {
+      durations: lineDurations(3),
+      stops: { 1: { window: { start: 540, end: 560 } }, 2: { window: { start: 480, end: 500 } } },
+      departureTime: 480,
+    });
+
+    // Le créneau du 2 ferme avant celui du 1 : il doit être livré en premier
+    expect(result.tours[0]).toEqual([2, 1]);
+    expect(result.unassigned).toEqual([]);
+  });
+
+  it('should keep every vehicle load within its capacity', () => {
+    const stops = [1, 2, 3];
+    const result = assignStopsToVehicles(stops, [vehicle({ capacity: { weight: 100 } }), vehicle({ capacity: { weight: 60 } })], {
+      durations: lineDurations(4),
+      stops: {},
+      demands: { 1: { weight: 50 }, 2: { weight: 50 }, 3: { weight: 80 } },
+      departureTime: 480,
+    });
+
+    // 180 kg pour 160 kg de capacité : un arrêt ne peut pas être chargé
+    expect(result.unassigned).toHaveLength(1);
+    expect(result.unassigned[0].reason).toBe('capacity');
+    const load = (tour: number[]) => tour.reduce((sum, stop) => sum + (stop === 3 ? 80 : 50), 0);
+    expect(load(result.tours[0])).toBeLessThanOrEqual(100);
+    expect(load(result.tours[1])).toBeLessThanOrEqual(60);
+  });
+
+  it('should give a pickup and its delivery to the same vehicle, pickup first', () => {
+    const result = assignStopsToVehicles([1, 2, 3, 4], [vehicle(), vehicle()], {
+      durations: lineDurations(5),
+      stops: {},
+      // Livraison en 1, collecte en 4 : plus loin du dépôt que la livraison
+      pickupOf: { 1: 4 },
+      departureTime: 480,
+    });
+
+    const tour = result.tours.find(stops => stops.includes(1))!;
+    expect(tour).toContain(4);
+    expect(tour.indexOf(4)).toBeLessThan(tour.indexOf(1));
+    expect(result.tours.flat().sort()).toEqual([1, 2, 3, 4]);
+  });
+});
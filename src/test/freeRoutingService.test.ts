@@ -0,0 +1,1065 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OpenStreetMapRoutingService } from '../services/freeRoutingService';
+import { clearAllCache, getCachedRoute } from '../utils/cacheManager';
+import { Location, RouteOptimizationRequest, OptimizationProgress, VehicleType } from '../types';
+
+// Helper to create a grid of mock locations around Paris
+const createMockLocations = (count: number, offset = 0): Location[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `loc_${i}`,
+    address: `Address ${i}`,
+    coordinates: {
+      latitude: 48.8 + offset + (i % 5) * 0.02,
+      longitude: 2.3 + Math.floor(i / 5) * 0.03,
+    },
+  }));
+
+const createMockRequest = (overrides?: Partial<RouteOptimizationRequest>): RouteOptimizationRequest => ({
+  locations: createMockLocations(4),
+  vehicleType: 'car',
+  optimizationMethod: 'shortest_distance',
+  isLoop: false,
+  ...overrides,
+});
+
+// Parse "lng,lat;lng,lat" from an OSRM url
+const parseCoordinates = (url: string, service: string): number[][] => {
+  const path = url.split(`/${service}/v1/driving/`)[1].split('?')[0];
+  return path.split(';').map(pair => pair.split(',').map(Number));
+};
+
+// Mock OSRM: /table answers with straight-line meters/seconds, /route fails (straight-line fallback)
+const mockOsrm = () => {
+  const fetchMock = vi.mocked(fetch);
+  fetchMock.mockImplementation(async (input: Parameters<typeof fetch>[0]) => {
+    const url = input.toString();
+    if (url.includes('/table/v1/')) {
+      const coords = parseCoordinates(url, 'table');
+      const params = new URL(url).searchParams;
+      const sources = params.get('sources')!.split(';').map(Number);
+      const destinations = params.get('destinations')!.split(';').map(Number);
+      const cell = (a: number, b: number) =>
+        Math.hypot(coords[a][0] - coords[b][0], coords[a][1] - coords[b][1]) * 100000;
+      return new Response(JSON.stringify({
+        code: 'Ok',
+        distances: sources.map(s => destinations.map(d => cell(s, d))),
+        durations: sources.map(s => destinations.map(d => cell(s, d) / 15)),
+      }));
+    }
+    return new Response('Service Unavailable', { status: 503, statusText: 'Service Unavailable' });
+  });
+  return fetchMock;
+};
+
+const tableCalls = (fetchMock: ReturnType<typeof mockOsrm>) =>
+  fetchMock.mock.calls.filter(([input]) => input.toString().includes('/table/v1/'));
+
+describe('OpenStreetMapRoutingService distance matrix', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('should build the matrix for 15 stops with a single table request', async () => {
+    const fetchMock = mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    await service.calculateRoute(createMockRequest({ locations: createMockLocations(15) }));
+
+    expect(tableCalls(fetchMock)).toHaveLength(1);
+  });
+
+  it('should split large sets into source/destination blocks', async () => {
+    const fetchMock = mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    await service.calculateRoute(createMockRequest({ locations: createMockLocations(60, 1) }));
+
+    // 60 stops -> 3 blocks of 25 -> 9 block pairs
+    const calls = tableCalls(fetchMock);
+    expect(calls).toHaveLength(9);
+    calls.forEach(([input]) => {
+      expect(parseCoordinates(input.toString(), 'table').length).toBeLessThanOrEqual(50);
+    });
+  });
+
+  it('should still optimize when the table API is unavailable', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('error', { status: 500 }));
+    const service = new OpenStreetMapRoutingService();
+    const locations = createMockLocations(6, 2);
+
+    const response = await service.calculateRoute(createMockRequest({ locations }));
+
+    expect(response.route.locations).toHaveLength(6);
+    expect(new Set(response.route.locations.map(loc => loc.id)).size).toBe(6);
+    expect(response.route.totalDistance).toBeGreaterThan(0);
+  });
+
+  it('should not call the table API for two locations', async () => {
+    const fetchMock = mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    await service.calculateRoute(createMockRequest({ locations: createMockLocations(2, 3) }));
+
+    expect(tableCalls(fetchMock)).toHaveLength(0);
+  });
+});
+
+describe('OpenStreetMapRoutingService progress reporting', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('should report every phase in order', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const progress: OptimizationProgress[] = [];
+
+    await service.calculateRoute(createMockRequest({
+      locations: createMockLocations(60, 2),
+      onProgress: event => progress.push(event),
+    }));
+
+    const phases = progress.map(event => event.phase).filter((phase, i, all) => phase !== all[i - 1]);
+    expect(phases).toEqual(['validation', 'matrix', 'optimization', 'segments']);
+
+    const matrixEvents = progress.filter(event => event.phase === 'matrix');
+    expect(matrixEvents[matrixEvents.length - 1]).toEqual({ phase: 'matrix', completed: 9, total: 9 });
+
+    const lastOptimization = progress.filter(event => event.phase === 'optimization').pop();
+    expect(lastOptimization?.bestScore).toBeGreaterThan(0);
+
+    const lastSegment = progress[progress.length - 1];
+    expect(lastSegment).toEqual({ phase: 'segments', completed: 59, total: 59 });
+  });
+});
+
+describe('OpenStreetMapRoutingService cancellation', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('should stop calling the APIs and skip caching once aborted', async () => {
+    const fetchMock = mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const controller = new AbortController();
+    const request = createMockRequest({
+      locations: createMockLocations(60, 3),
+      signal: controller.signal,
+      onProgress: event => {
+        if (event.phase === 'matrix' && event.completed === 1) controller.abort();
+      },
+    });
+
+    await expect(service.calculateRoute(request)).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect(tableCalls(fetchMock)).toHaveLength(1);
+    expect(fetchMock.mock.calls.some(([input]) => input.toString().includes('/route/v1/'))).toBe(false);
+    expect(getCachedRoute(request)).toBeNull();
+  });
+
+  it('should abort the pending fetch with the signal', async () => {
+    const fetchMock = vi.mocked(fetch);
+    // OSRM qui ne répond jamais : seule l'annulation termine la requête
+    fetchMock.mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    const service = new OpenStreetMapRoutingService();
+    const controller = new AbortController();
+
+    const calculation = service.calculateRoute(createMockRequest({ signal: controller.signal }));
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(calculation).rejects.toMatchObject({ name: 'AbortError' });
+    fetchMock.mock.calls.forEach(([, init]) => {
+      expect(init?.signal?.aborted).toBe(true);
+    });
+  });
+});
+
+describe('OpenStreetMapRoutingService time windows', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('should serve a stop within its window', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const locations = createMockLocations(6, 4);
+    // Le dernier point de la grille doit être livré dans les 5 premières minutes
+    locations[5] = { ...locations[5], timeWindow: { start: '08:00', end: '08:05' } };
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations, departureTime: '08:00' }));
+
+    const stop = route.schedule!.find(item => item.locationId === 'loc_5')!;
+    expect(stop.lateness).toBe(0);
+    expect(route.unservedLocations).toBeUndefined();
+    expect(route.schedule).toHaveLength(route.locations.length);
+  });
+
+  it('should list stops that cannot be served on time', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const locations = createMockLocations(5, 5);
+    locations[2] = { ...locations[2], timeWindow: { start: '06:00', end: '06:30' } };
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations, departureTime: '08:00' }));
+
+    expect(route.unservedLocations?.map(item => item.location.id)).toEqual(['loc_2']);
+    expect(route.unservedLocations?.[0].reason).toBe('time_window');
+    expect(route.locations.map(loc => loc.id)).not.toContain('loc_2');
+    expect(route.locations).toHaveLength(4);
+  });
+
+  it('should wait for a window to open', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const locations = createMockLocations(3, 6);
+    locations[1] = { ...locations[1], timeWindow: { start: '10:00', end: '11:00' } };
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations, departureTime: '08:00' }));
+
+    const stop = route.schedule!.find(item => item.locationId === 'loc_1')!;
+    expect(stop.arrivalTime + stop.waitTime).toBe(600);
+    expect(route.totalWaitTime).toBeGreaterThan(0);
+  });
+});
+
+describe('OpenStreetMapRoutingService service time', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('should add time on site to the total duration and the schedule', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const locations = createMockLocations(4, 7);
+    locations[0] = { ...locations[0], serviceDuration: 0 };
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations, defaultServiceDuration: 15 }));
+
+    const drivingDuration = route.segments.reduce((sum, segment) => sum + segment.duration, 0);
+    expect(route.totalServiceTime).toBe(45);
+    expect(route.totalDuration).toBeCloseTo(drivingDuration + 45);
+
+    route.schedule!.forEach(stop => {
+      const expected = stop.locationId === 'loc_0' ? 0 : 15;
+      expect(stop.departureTime - stop.arrivalTime - stop.waitTime).toBeCloseTo(expected);
+    });
+  });
+
+  it('should give every stop the distance driven since the start', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations: createMockLocations(4, 29), isLoop: true }));
+
+    let driven = 0;
+    route.schedule!.forEach((stop, index) => {
+      if (index > 0) driven += route.segments[index - 1].distance;
+      expect(stop.cumulativeDistance).toBeCloseTo(driven);
+    });
+    const lastStop = route.schedule![route.schedule!.length - 1];
+    expect(route.returnTime).toBeCloseTo(lastStop.departureTime + route.segments[route.segments.length - 1].duration);
+  });
+
+  it('should date a cached route with the requested departure day', async () => {
+    // Segments calculés : les trajets estimés ne sont pas mis en cache
+    const fetchMock = mockOsrm();
+    const tableMock = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (input, init) => input.toString().includes('/route/v1/')
+      ? new Response(JSON.stringify({
+        code: 'Ok',
+        routes: [{ distance: 10000, duration: 600, legs: [{ steps: [] }], geometry: { type: 'LineString', coordinates: [] } }],
+      }))
+      : tableMock(input, init));
+    const service = new OpenStreetMapRoutingService();
+    const request = createMockRequest({ locations: createMockLocations(3, 30), departureTime: '09:00' });
+
+    const first = await service.calculateRoute({ ...request, departureDate: '2026-10-19' });
+    const cached = await service.calculateRoute({ ...request, departureDate: '2026-10-20' });
+
+    expect(first.route.departureDate).toBe('2026-10-19');
+    expect(cached.metadata.algorithm).toBe('cache-hit');
+    expect(cached.route.departureDate).toBe('2026-10-20');
+    expect(cached.route.schedule).toEqual(first.route.schedule);
+  });
+
+  it('should split a route longer than the working day into days', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations: createMockLocations(5, 31), isLoop: true, maxWorkingDay: 5 }));
+
+    expect(route.maxWorkingDay).toBe(5);
+    expect(route.days!.length).toBeGreaterThan(1);
+    route.days!.forEach(day => expect(day.workTime).toBeLessThanOrEqual(5 + 1e-6));
+    expect(route.days!.flatMap(day => day.stopIds)).toEqual(route.locations.map(loc => loc.id));
+    expect(route.days!.reduce((sum, day) => sum + day.distance, 0)).toBeCloseTo(route.totalDistance);
+    expect(route.days![0].overnight).toBeDefined();
+  });
+});
+
+describe('OpenStreetMapRoutingService driving time rules', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  // Paris → Lyon → Marseille : plus de 4h30 de conduite en camion
+  const longLocations: Location[] = [
+    { id: 'paris', address: 'Paris', coordinates: { latitude: 48.8566, longitude: 2.3522 } },
+    { id: 'lyon', address: 'Lyon', coordinates: { latitude: 45.764, longitude: 4.8357 } },
+    { id: 'marseille', address: 'Marseille', coordinates: { latitude: 43.2965, longitude: 5.3698 } },
+  ];
+
+  it('should insert mandatory breaks into long truck routes', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations: longLocations, vehicleType: 'truck' }));
+
+    const drivingDuration = route.segments.reduce((sum, segment) => sum + segment.duration, 0);
+    expect(drivingDuration).toBeGreaterThan(270);
+    expect(route.breaks!.length).toBeGreaterThan(0);
+    expect(route.totalBreakTime).toBe(route.breaks!.reduce((sum, pause) => sum + pause.duration, 0));
+    expect(route.totalDuration).toBeCloseTo(drivingDuration + route.totalBreakTime!);
+
+    // La première pause tombe après 4h30 de conduite, sur le trajet
+    const [first] = route.breaks!;
+    expect(first.type).toBe('break');
+    expect(first.startTime).toBeCloseTo(480 + 270);
+    expect(first.coordinates!.latitude).toBeLessThan(48.8566);
+    expect(first.coordinates!.latitude).toBeGreaterThan(43.2965);
+  });
+
+  it('should not plan breaks for cars', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations: longLocations }));
+
+    expect(route.breaks).toBeUndefined();
+    expect(route.totalBreakTime).toBeUndefined();
+  });
+});
+
+describe('OpenStreetMapRoutingService fleet', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('should return one route per vehicle, each stop served once from its depot', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const [depot, ...stops] = createMockLocations(9, 8);
+
+    const response = await service.calculateFleetRoutes({
+      vehicles: [
+        { id: 'v1', name: 'Véhicule 1', vehicleType: 'car', startLocation: depot },
+        { id: 'v2', name: 'Véhicule 2', vehicleType: 'truck', startLocation: depot },
+      ],
+      locations: stops,
+      optimizationMethod: 'balanced',
+    });
+
+    expect(response.routes.map(item => item.vehicle.id)).toEqual(['v1', 'v2']);
+    expect(response.unservedLocations).toEqual([]);
+
+    const served = response.routes.flatMap(item => item.route?.locations.slice(1) ?? []).map(loc => loc.id);
+    expect(served.sort()).toEqual(stops.map(stop => stop.id).sort());
+
+    response.routes.forEach(({ vehicle, route }) => {
+      expect(route).toBeDefined();
+      expect(route!.locations[0].id).toBe(depot.id);
+      expect(route!.isLoop).toBe(true);
+      expect(route!.vehicleType).toBe(vehicle.vehicleType);
+    });
+  });
+
+  it('should fetch a matrix for each vehicle type of the fleet', async () => {
+    const fetchMock = mockOsrm();
+    const [depot, ...stops] = createMockLocations(4, 35);
+    // Un service par calcul : les échecs de /route ne doivent pas écarter OSRM pour la matrice suivante
+    const fleet = (vehicleTypes: VehicleType[]) => new OpenStreetMapRoutingService().calculateFleetRoutes({
+      vehicles: vehicleTypes.map((vehicleType, index) => ({ id: `v${index}`, name: `Véhicule ${index}`, vehicleType, startLocation: depot })),
+      locations: stops,
+      optimizationMethod: 'balanced',
+    });
+
+    await fleet(['car', 'car']);
+    const carOnly = tableCalls(fetchMock).length;
+    fetchMock.mockClear();
+    clearAllCache();
+    await fleet(['car', 'truck']);
+
+    expect(tableCalls(fetchMock)).toHaveLength(carOnly + 1);
+  });
+
+  it('should report stops beyond every shift as unserved', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const [depot, ...stops] = createMockLocations(4, 9);
+
+    const response = await service.calculateFleetRoutes({
+      vehicles: [{ id: 'v1', name: 'Véhicule 1', vehicleType: 'car', startLocation: depot, maxShiftDuration: 1 }],
+      locations: stops,
+      optimizationMethod: 'fastest_time',
+    });
+
+    expect(response.routes[0].route).toBeUndefined();
+    expect(response.unservedLocations.map(item => item.reason)).toEqual(['shift_duration', 'shift_duration', 'shift_duration']);
+  });
+});
+
+describe('OpenStreetMapRoutingService vehicle capacity', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  const createLoadedLocations = () =>
+    createMockLocations(5, 10).map((loc, index) => (index === 0 ? loc : { ...loc, demand: { pallets: 4 } }));
+
+  it('should go back to the depot when the stops exceed the capacity', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: createLoadedLocations(),
+      isLoop: true,
+      vehicleCapacity: { pallets: 8 },
+    }));
+
+    expect(route.tripCount).toBe(2);
+    expect(route.locations[0].id).toBe('loc_0');
+    expect(route.locations.filter(loc => loc.depotReturnOf === 'loc_0')).toHaveLength(1);
+    expect(route.unservedLocations).toBeUndefined();
+    route.loads!.forEach(load => expect(load.pallets ?? 0).toBeLessThanOrEqual(8));
+  });
+
+  it('should report the stops that do not fit when reloading is not allowed', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    // Chargement au dépôt loc_0, verrouillé au départ du trajet ouvert
+    const [depot, ...stops] = createLoadedLocations();
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: [{ ...depot, isLocked: true, lockPosition: 'start' }, ...stops],
+      vehicleCapacity: { pallets: 8 },
+      capacityStrategy: 'skip_stops',
+    }));
+
+    expect(route.locations).toHaveLength(3);
+    expect(route.unservedLocations!.map(item => item.reason)).toEqual(['capacity', 'capacity']);
+    expect(route.loads![0].pallets).toBe(8);
+  });
+
+  it('should report the stops that a return to the depot makes late', async () => {
+    mockOsrm();
+    const [depot, ...stops] = createMockLocations(5, 39);
+
+    const { route } = await new OpenStreetMapRoutingService().calculateRoute(createMockRequest({
+      locations: [
+        { ...depot, isLocked: true, lockPosition: 'start' },
+        ...stops.map(stop => ({ ...stop, demand: { pallets: 4 }, timeWindow: { start: '08:00', end: '08:30' } })),
+      ],
+      defaultServiceDuration: 5,
+      vehicleCapacity: { pallets: 8 },
+      alternatives: false,
+    }));
+
+    // Sans le retour au dépôt, les quatre arrêts tiennent dans le créneau
+    expect(route.unservedLocations?.map(item => item.reason)).toContain('time_window');
+    route.schedule!.forEach(stop => expect(stop.lateness).toBe(0));
+  });
+
+  it('should leave the order free when no stop has goods to carry', async () => {
+    mockOsrm();
+    const locations = createMockLocations(6, 37);
+    const calculate = (overrides: Partial<RouteOptimizationRequest>) =>
+      new OpenStreetMapRoutingService().calculateRoute(createMockRequest({ locations, alternatives: false, ...overrides }));
+
+    const free = await calculate({});
+    const withCapacity = await calculate({ vehicleCapacity: { pallets: 8 } });
+
+    expect(withCapacity.route.locations.map(loc => loc.id)).toEqual(free.route.locations.map(loc => loc.id));
+    expect(withCapacity.metadata.algorithm).toBe(free.metadata.algorithm);
+    expect(withCapacity.metadata.isOptimal).toBe(true);
+  });
+});
+
+describe('OpenStreetMapRoutingService pickup and delivery', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  // La livraison loc_1 est tout près du départ, sa collecte loc_4 au bout de la ligne
+  const withPair = (locations: Location[]): Location[] =>
+    locations.map(loc => (loc.id === 'loc_1' ? { ...loc, pickupId: 'loc_4', demand: { weight: 50 } } : loc));
+
+  const position = (locations: Location[], id: string) => locations.findIndex(loc => loc.id === id);
+
+  it('should visit the pickup before its delivery with the exact solver', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: withPair(createMockLocations(5, 10)),
+      isLoop: true,
+    }));
+
+    expect(route.locations[0].id).toBe('loc_0');
+    expect(position(route.locations, 'loc_4')).toBeLessThan(position(route.locations, 'loc_1'));
+  });
+
+  it('should visit the pickup before its delivery on large sets', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: withPair(createMockLocations(16, 10)),
+      isLoop: true,
+    }));
+
+    expect(route.locations).toHaveLength(16);
+    expect(position(route.locations, 'loc_4')).toBeLessThan(position(route.locations, 'loc_1'));
+  });
+
+  it('should only carry the shipment between the pickup and the delivery', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: withPair(createMockLocations(5, 10)),
+      isLoop: true,
+      vehicleCapacity: { weight: 100 },
+    }));
+
+    const pickup = position(route.locations, 'loc_4');
+    const delivery = position(route.locations, 'loc_1');
+    route.loads!.forEach((load, index) =>
+      expect(load.weight ?? 0).toBe(index >= pickup && index < delivery ? 50 : 0)
+    );
+  });
+});
+
+describe('OpenStreetMapRoutingService truck profile', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const truckRequest = () => createMockRequest({
+    locations: createMockLocations(2, 12),
+    vehicleType: 'truck',
+    truckProfile: { height: 4, weight: 44, axleLoad: 11.5, hazmat: true },
+  });
+
+  it('should send the truck dimensions to OpenRouteService', async () => {
+    vi.stubEnv('VITE_OPENROUTESERVICE_API_KEY', 'test-key');
+    const bodies: Record<string, unknown>[] = [];
+    vi.mocked(fetch).mockImplementation(async (input, init) => {
+      if (input.toString().includes('/directions/driving-hgv')) {
+        bodies.push(JSON.parse(init!.body as string));
+        return new Response(JSON.stringify({ routes: [{ summary: { distance: 3, duration: 600 } }] }));
+      }
+      return new Response('Service Unavailable', { status: 503, statusText: 'Service Unavailable' });
+    });
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(truckRequest());
+
+    expect(bodies[0].options).toEqual({
+      vehicle_type: 'hgv',
+      profile_params: { restrictions: { height: 4, weight: 44, axleload: 11.5, hazmat: true } },
+    });
+    expect(route.restrictionsVerified).toBe(true);
+    expect(route.segments[0]).toMatchObject({ source: 'ors', confidence: 'high' });
+  });
+
+  it('should flag truck routes calculated without OpenRouteService', async () => {
+    vi.stubEnv('VITE_OPENROUTESERVICE_API_KEY', '');
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(truckRequest());
+
+    expect(route.restrictionsVerified).toBe(false);
+  });
+});
+
+describe('OpenStreetMapRoutingService tolls and highways', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  // /table en ligne droite, /route : 12 km / 15 min par tronçon en évitant les péages, 10 km / 10 min sinon
+  const mockOsrmRoutes = (supportsExclude: boolean) => {
+    const fetchMock = mockOsrm();
+    const tableMock = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (input, init) => {
+      const url = input.toString();
+      if (!url.includes('/route/v1/')) return tableMock(input, init);
+      const excluded = url.includes('exclude=');
+      if (excluded && !supportsExclude) {
+        return new Response(JSON.stringify({ code: 'InvalidValue' }), { status: 400 });
+      }
+      const legs = parseCoordinates(url, 'route').length - 1;
+      return new Response(JSON.stringify({
+        code: 'Ok',
+        routes: [{
+          distance: legs * (excluded ? 12000 : 10000),
+          duration: legs * (excluded ? 900 : 600),
+          legs: [{ steps: [] }],
+          geometry: { type: 'LineString', coordinates: [] },
+        }],
+      }));
+    });
+    return fetchMock;
+  };
+
+  it('should exclude tolls and report the extra distance and time', async () => {
+    const fetchMock = mockOsrmRoutes(true);
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations: createMockLocations(3, 14), avoidTolls: true }));
+
+    expect(tableCalls(fetchMock).every(([input]) => input.toString().includes('exclude=toll'))).toBe(true);
+    expect(route.totalDistance).toBeCloseTo(24);
+    expect(route.avoidance).toEqual({ tolls: true, highways: false, applied: true, extraDistance: 4, extraDuration: 10 });
+  });
+
+  it('should fall back to plain routing when the server cannot exclude', async () => {
+    mockOsrmRoutes(false);
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: createMockLocations(3, 14),
+      avoidTolls: true,
+      avoidHighways: true,
+    }));
+
+    expect(route.totalDistance).toBeCloseTo(20);
+    expect(route.avoidance).toEqual({ tolls: true, highways: true, applied: false });
+    expect(route.segments.every(segment => segment.confidence === 'medium')).toBe(true);
+  });
+});
+
+// Arrêts alignés (distance |i - j| km), mais le tronçon 1-2 est très lent
+const mockSlowLink = () => {
+  const fetchMock = mockOsrm();
+  const fallback = fetchMock.getMockImplementation()!;
+  fetchMock.mockImplementation(async (input, init) => {
+    const url = input.toString();
+    if (!url.includes('/table/v1/')) return fallback(input, init);
+    const params = new URL(url).searchParams;
+    const sources = params.get('sources')!.split(';').map(Number);
+    const destinations = params.get('destinations')!.split(';').map(Number);
+    const slow = (a: number, b: number) => (a === 1 && b === 2) || (a === 2 && b === 1);
+    return new Response(JSON.stringify({
+      code: 'Ok',
+      distances: sources.map(a => destinations.map(b => Math.abs(a - b) * 1000)),
+      durations: sources.map(a => destinations.map(b => Math.abs(a - b) * 60 * (slow(a, b) ? 100 : 1))),
+    }));
+  });
+  return fetchMock;
+};
+
+describe('OpenStreetMapRoutingService alternative routes', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  it('should propose the distinct orders of the other methods on the same matrix', async () => {
+    const fetchMock = mockSlowLink();
+    const service = new OpenStreetMapRoutingService();
+
+    const response = await service.calculateRoute(createMockRequest({ locations: createMockLocations(4, 15) }));
+
+    const ids = (locations: Location[]) => locations.map(loc => loc.id).join(',');
+    expect(ids(response.route.locations)).toMatch(/^(loc_0,loc_1,loc_2,loc_3|loc_3,loc_2,loc_1,loc_0)$/);
+    // Le temps et l'équilibré donnent le même ordre : une seule alternative
+    expect(response.alternativeRoutes).toHaveLength(1);
+    const [alternative] = response.alternativeRoutes!;
+    expect(alternative.alternativeKind).toBe('stop_order');
+    expect(alternative.optimizationMethod).toBe('fastest_time');
+    expect(ids(alternative.locations)).not.toBe(ids(response.route.locations));
+    expect(alternative.id).not.toBe(response.route.id);
+    expect(tableCalls(fetchMock)).toHaveLength(1);
+  });
+
+  it('should propose the second OSRM road for the same order', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response(JSON.stringify({
+      code: 'Ok',
+      routes: [9000, 11000].map(distance => ({
+        distance,
+        duration: distance / 15,
+        legs: [{ steps: [] }],
+        geometry: { type: 'LineString', coordinates: [] },
+      })),
+    })));
+    const service = new OpenStreetMapRoutingService();
+
+    const response = await service.calculateRoute(createMockRequest({ locations: createMockLocations(2, 16) }));
+
+    expect(vi.mocked(fetch).mock.calls[0][0].toString()).toContain('alternatives=true');
+    expect(response.route.totalDistance).toBeCloseTo(9);
+    expect(response.alternativeRoutes).toHaveLength(1);
+    expect(response.alternativeRoutes![0]).toMatchObject({ alternativeKind: 'roads', totalDistance: 11 });
+    expect(response.alternativeRoutes![0].locations).toEqual(response.route.locations);
+  });
+
+  it('should skip alternatives when not requested', async () => {
+    mockSlowLink();
+    const service = new OpenStreetMapRoutingService();
+
+    const response = await service.calculateRoute(createMockRequest({ locations: createMockLocations(4, 17), alternatives: false }));
+
+    expect(response.alternativeRoutes).toBeUndefined();
+  });
+});
+
+describe('OpenStreetMapRoutingService lowest cost', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  const ids = (locations: Location[]) => locations.map(loc => loc.id).join(',');
+
+  it('should weigh distance and time with the cost rates of the request', async () => {
+    mockSlowLink();
+    const request = createMockRequest({ locations: createMockLocations(4, 32), optimizationMethod: 'lowest_cost', alternatives: false });
+    // Un service par calcul : les échecs de /route ne doivent pas écarter OSRM pour la matrice suivante
+    const calculate = (overrides: Partial<RouteOptimizationRequest>) => new OpenStreetMapRoutingService().calculateRoute({ ...request, ...overrides });
+
+    // Sans salaire, seul le kilomètre compte ; sans carburant ni usure, seul le temps
+    const perKm = await calculate({ costSettings: { hourlyCost: 0 } });
+    const perHour = await calculate({ costSettings: { fuelPrice: 0, wearPerKm: 0 } });
+    const shortest = await calculate({ optimizationMethod: 'shortest_distance' });
+    const fastest = await calculate({ optimizationMethod: 'fastest_time' });
+
+    expect(ids(perKm.route.locations)).toBe(ids(shortest.route.locations));
+    expect(ids(perHour.route.locations)).toBe(ids(fastest.route.locations));
+    expect(ids(perKm.route.locations)).not.toBe(ids(perHour.route.locations));
+    expect(perHour.route.costSettings).toEqual({ fuelPrice: 0, wearPerKm: 0 });
+  });
+
+  it('should keep the tolled distance reported by the routing backend', async () => {
+    const fetchMock = mockOsrm();
+    const tableMock = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (input, init) => input.toString().includes('/route/v1/')
+      ? new Response(JSON.stringify({
+        code: 'Ok',
+        routes: [{
+          distance: 10000,
+          duration: 600,
+          legs: [{ steps: [{ distance: 4000, intersections: [{ classes: ['toll'] }] }, { distance: 6000, intersections: [{}] }] }],
+          geometry: { type: 'LineString', coordinates: [] },
+        }],
+      }))
+      : tableMock(input, init));
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations: createMockLocations(3, 33), optimizationMethod: 'lowest_cost' }));
+
+    expect(route.segments.map(segment => segment.tollDistance)).toEqual([4, 4]);
+  });
+});
+
+describe('OpenStreetMapRoutingService balanced weights', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  const ids = (locations: Location[]) => locations.map(loc => loc.id).join(',');
+
+  it('should follow the weights chosen by the user', async () => {
+    mockSlowLink();
+    const request = createMockRequest({ locations: createMockLocations(4, 34), optimizationMethod: 'balanced', alternatives: false });
+    const calculate = (overrides: Partial<RouteOptimizationRequest>) => new OpenStreetMapRoutingService().calculateRoute({ ...request, ...overrides });
+
+    const distanceOnly = await calculate({ objectiveWeights: { distance: 1, time: 0, cost: 0, emissions: 0 } });
+    const timeOnly = await calculate({ objectiveWeights: { distance: 0, time: 1, cost: 0, emissions: 0 } });
+    const shortest = await calculate({ optimizationMethod: 'shortest_distance' });
+    const fastest = await calculate({ optimizationMethod: 'fastest_time' });
+
+    expect(ids(distanceOnly.route.locations)).toBe(ids(shortest.route.locations));
+    expect(ids(timeOnly.route.locations)).toBe(ids(fastest.route.locations));
+    expect(timeOnly.route.objectiveWeights).toEqual({ distance: 0, time: 1, cost: 0, emissions: 0 });
+    expect(fastest.route.objectiveWeights).toBeUndefined();
+  });
+});
+
+describe('OpenStreetMapRoutingService unreachable routing backend', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  const osrmRoute = () => new Response(JSON.stringify({
+    code: 'Ok',
+    routes: [{ distance: 10000, duration: 600, legs: [{ steps: [] }], geometry: { type: 'LineString', coordinates: [] } }],
+  }));
+
+  // /table en ligne droite ; /route répond 503 tant que `down()` est vrai
+  const mockFlakyOsrm = (down: () => boolean) => {
+    const fetchMock = mockOsrm();
+    const tableMock = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (input, init) => {
+      if (!input.toString().includes('/route/v1/')) return tableMock(input, init);
+      return down() ? new Response('Service Unavailable', { status: 503 }) : osrmRoute();
+    });
+    return fetchMock;
+  };
+
+  const routeCalls = (fetchMock: ReturnType<typeof mockOsrm>) =>
+    fetchMock.mock.calls.filter(([input]) => input.toString().includes('/route/v1/'));
+
+  it('should retry a transient error before estimating the segment', async () => {
+    let failures = 1;
+    const fetchMock = mockFlakyOsrm(() => failures-- > 0);
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({ locations: createMockLocations(2, 18), alternatives: false }));
+
+    expect(routeCalls(fetchMock)).toHaveLength(2);
+    expect(route.segments[0]).toMatchObject({ source: 'osrm', confidence: 'high' });
+    expect(route.totalDistance).toBeCloseTo(10);
+  });
+
+  it('should never cache a route with estimated segments', async () => {
+    mockFlakyOsrm(() => true);
+    const service = new OpenStreetMapRoutingService();
+    const request = createMockRequest({ locations: createMockLocations(3, 19), alternatives: false });
+
+    const { route } = await service.calculateRoute(request);
+
+    expect(route.segments.every(segment => segment.source === 'estimated' && segment.confidence === 'low')).toBe(true);
+    expect(getCachedRoute(request)).toBeNull();
+  });
+
+  it('should report the segments of a cached route as coming from the cache', async () => {
+    mockFlakyOsrm(() => false);
+    const service = new OpenStreetMapRoutingService();
+    const request = createMockRequest({ locations: createMockLocations(3, 22), alternatives: false });
+    await service.calculateRoute(request);
+
+    const { route } = await service.calculateRoute(request);
+
+    expect(route.segments.every(segment => segment.source === 'cache' && segment.confidence === 'high')).toBe(true);
+  });
+
+  it('should stop calling a backend that keeps failing', async () => {
+    const fetchMock = mockFlakyOsrm(() => true);
+    const service = new OpenStreetMapRoutingService();
+
+    await service.calculateRoute(createMockRequest({ locations: createMockLocations(6, 20), alternatives: false }));
+
+    // Trois segments en échec (avec leurs nouvelles tentatives) ouvrent le circuit : les suivants sont estimés sans appel
+    expect(routeCalls(fetchMock)).toHaveLength(9);
+  });
+
+  it('should recalculate the estimated segments once the backend is back', async () => {
+    let down = true;
+    mockFlakyOsrm(() => down);
+    const service = new OpenStreetMapRoutingService();
+    const request = createMockRequest({ locations: createMockLocations(3, 21), alternatives: false });
+    const { route } = await service.calculateRoute(request);
+
+    down = false;
+    const { route: recalculated } = await service.recalculateEstimatedSegments(request, route);
+
+    expect(recalculated.locations).toEqual(route.locations);
+    expect(recalculated.segments.every(segment => segment.source === 'osrm')).toBe(true);
+    expect(recalculated.totalDistance).toBeCloseTo(20);
+    expect(getCachedRoute(request)).not.toBeNull();
+  });
+});
+
+describe('OpenStreetMapRoutingService locked positions', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  // Chaque optimiseur, avec les emplacements qui le déclenchent
+  const optimizers: [name: string, algorithm: string, build: (locations: Location[]) => Partial<RouteOptimizationRequest>][] = [
+    ['held-karp', 'held-karp', locations => ({ locations })],
+    ['nearest-neighbor', 'nearest-neighbor', locations => ({ locations: [...locations, ...createMockLocations(16, 24).slice(6).map(loc => ({ ...loc, id: `extra_${loc.id}` }))] })],
+    ['time windows', 'time-windows', locations => ({
+      locations: locations.map((loc, index) => (index === 2 ? { ...loc, timeWindow: { start: '06:00', end: '22:00' } } : loc)),
+      departureTime: '08:00',
+    })],
+    ['vehicle capacity', 'held-karp', locations => ({
+      locations: locations.map(loc => ({ ...loc, demand: { pallets: 1 } })),
+      vehicleCapacity: { pallets: 20 },
+    })],
+  ];
+
+  const calculate = async (build: (locations: Location[]) => Partial<RouteOptimizationRequest>, lock: (locations: Location[]) => Location[]) => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const overrides = build(lock(createMockLocations(6, 24)));
+    return service.calculateRoute(createMockRequest({ ...overrides, alternatives: false }));
+  };
+
+  const lockAt = (locations: Location[], index: number, lockPosition: Location['lockPosition'], order?: number) =>
+    locations.map((loc, i) => (i === index ? { ...loc, isLocked: true, lockPosition, order } : loc));
+
+  describe.each(optimizers)('%s', (_, algorithm, build) => {
+    it('should start from the location locked at the start', async () => {
+      const { route, metadata } = await calculate(build, locations => lockAt(locations, 3, 'start'));
+
+      expect(metadata.algorithm).toContain(algorithm);
+      expect(route.locations[0].id).toBe('loc_3');
+    });
+
+    it('should end at the location locked at the end', async () => {
+      const { route } = await calculate(build, locations => lockAt(locations, 0, 'end'));
+
+      expect(route.locations[route.locations.length - 1].id).toBe('loc_0');
+    });
+
+    it('should keep a fixed location at its position', async () => {
+      const { route } = await calculate(build, locations => lockAt(locations, 4, 'fixed', 2));
+
+      expect(route.locations[2].id).toBe('loc_4');
+    });
+
+    it('should combine a start, an end and a fixed position', async () => {
+      const { route } = await calculate(build, locations =>
+        lockAt(lockAt(lockAt(locations, 2, 'start'), 5, 'end'), 1, 'fixed', 3)
+      );
+
+      expect(route.locations[0].id).toBe('loc_2');
+      expect(route.locations[3].id).toBe('loc_1');
+      expect(route.locations[route.locations.length - 1].id).toBe('loc_5');
+    });
+  });
+
+  it('should start a loop from the location locked at the start', async () => {
+    const { route } = await calculate(
+      locations => ({ locations, isLoop: true }),
+      locations => lockAt(locations, 4, 'start')
+    );
+
+    expect(route.locations[0].id).toBe('loc_4');
+    expect(route.segments[route.segments.length - 1].to.id).toBe('loc_4');
+  });
+
+  it('should reject two locations locked at the same position', async () => {
+    await expect(calculate(
+      locations => ({ locations }),
+      locations => lockAt(lockAt(locations, 1, 'end'), 3, 'end')
+    )).rejects.toThrow('même position');
+  });
+});
+
+describe('OpenStreetMapRoutingService start and end depots', () => {
+  beforeEach(() => {
+    clearAllCache();
+  });
+
+  const depot = (id: string, latitude: number): Location => ({
+    id,
+    address: `Depot ${id}`,
+    coordinates: { latitude, longitude: 2.25 },
+  });
+
+  it('should leave from the start depot and finish at the end depot', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: createMockLocations(5, 25),
+      startLocation: depot('depot_start', 48.9),
+      endLocation: depot('depot_end', 49.2),
+      alternatives: false,
+    }));
+
+    expect(route.locations).toHaveLength(7);
+    expect(route.locations[0].id).toBe('depot_start');
+    expect(route.locations[6].id).toBe('depot_end');
+    expect(route.schedule![0].departureTime).toBe(route.schedule![0].arrivalTime);
+  });
+
+  it.each([5, 16])('should keep both depots fixed with %i stops', async count => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    // Départ et arrivée à l'opposé de ce que choisirait l'optimiseur
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: createMockLocations(count, 26),
+      startLocation: depot('depot_start', 49.1),
+      endLocation: depot('depot_end', 49.1),
+      alternatives: false,
+    }));
+
+    expect(route.locations[0].id).toBe('depot_start');
+    expect(route.locations[route.locations.length - 1].id).toBe('depot_end');
+  });
+
+  it('should go back to the start depot on a loop and ignore the end depot', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+
+    const { route } = await service.calculateRoute(createMockRequest({
+      locations: createMockLocations(4, 27),
+      startLocation: depot('depot_start', 49.3),
+      endLocation: depot('depot_end', 48.5),
+      isLoop: true,
+      alternatives: false,
+    }));
+
+    expect(route.locations.map(loc => loc.id)).not.toContain('depot_end');
+    expect(route.locations[0].id).toBe('depot_start');
+    expect(route.segments[route.segments.length - 1].to.id).toBe('depot_start');
+  });
+
+  it('should prove the order optimal with depots but not with a fixed position', async () => {
+    mockOsrm();
+    const request = createMockRequest({
+      locations: createMockLocations(5, 38),
+      startLocation: depot('depot_start', 48.9),
+      endLocation: depot('depot_end', 49.2),
+      alternatives: false,
+    });
+
+    const withDepots = await new OpenStreetMapRoutingService().calculateRoute(request);
+    const [first, ...others] = request.locations;
+    const withFixed = await new OpenStreetMapRoutingService().calculateRoute({
+      ...request,
+      locations: [...others, { ...first, isLocked: true, lockPosition: 'fixed', order: 2 }],
+    });
+
+    expect(withDepots.metadata).toMatchObject({ algorithm: 'held-karp-optimal', isOptimal: true });
+    expect(withFixed.metadata.isOptimal).toBe(false);
+  });
+
+  it('should optimize again a stop list that still holds the depots of the previous route', async () => {
+    mockOsrm();
+    const request = createMockRequest({
+      locations: createMockLocations(3, 36),
+      startLocation: depot('depot_start', 48.9),
+      endLocation: depot('depot_end', 49.2),
+      alternatives: false,
+    });
+    const { route: first } = await new OpenStreetMapRoutingService().calculateRoute(request);
+
+    const { route } = await new OpenStreetMapRoutingService().calculateRoute({ ...request, locations: first.locations });
+
+    expect(route.locations.map(loc => loc.id)).toEqual(first.locations.map(loc => loc.id));
+  });
+
+  it('should not reuse a cached route calculated for another end depot', async () => {
+    mockOsrm();
+    const service = new OpenStreetMapRoutingService();
+    const request = createMockRequest({ locations: createMockLocations(3, 28), endLocation: depot('depot_end', 49.4), alternatives: false });
+    await service.calculateRoute(request);
+
+    const { route, metadata } = await service.calculateRoute({ ...request, endLocation: depot('depot_end', 48.4) });
+
+    expect(metadata.algorithm).not.toBe('cache-hit');
+    expect(route.locations[route.locations.length - 1].coordinates!.latitude).toBe(48.4);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { improveTour, createMatrixEvaluator } from '../utils/localSearch';
+
+// Points on a circle: the optimal tour visits them in angular order
+const createCirclePoints = (count: number): number[][] =>
+  Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    return [Math.cos(angle), Math.sin(angle)];
+  });
+
+const createEuclideanCosts = (points: number[][]): number[][] =>
+  points.map(a => points.map(b => Math.hypot(a[0] - b[0], a[1] - b[1])));
+
+// Deterministic shuffle keeping the first element in place
+const shuffle = (count: number, seed = 7): number[] => {
+  const order = Array.from({ length: count }, (_, i) => i);
+  let state = seed;
+  for (let i = count - 1; i > 1; i--) {
+    state = (state * 16807) % 2147483647;
+    const j = 1 + (state % i);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+describe('createMatrixEvaluator', () => {
+  it('should sum costs along the tour', () => {
+    const costs = [
+      [0, 1, 5],
+      [1, 0, 2],
+      [5, 2, 0],
+    ];
+
+    expect(createMatrixEvaluator(costs, false)([0, 1, 2])).toBe(3);
+    expect(createMatrixEvaluator(costs, true)([0, 1, 2])).toBe(8);
+  });
+});
+
+describe('improveTour', () => {
+  it('should untangle a shuffled loop to the optimal circle', () => {
+    const points = createCirclePoints(30);
+    const costs = createEuclideanCosts(points);
+    const evaluate = createMatrixEvaluator(costs, true);
+    const optimal = evaluate(points.map((_, i) => i));
+
+    const result = improveTour(shuffle(30), evaluate, { isLoop: true, timeBudgetMs: 5000 });
+
+    expect(result.finalScore).toBeLessThan(result.initialScore);
+    expect(result.finalScore).toBeCloseTo(optimal, 6);
+    expect(result.order[0]).toBe(0);
+    expect(result.iterations).toBeGreaterThan(0);
+  });
+
+  it('should never make the tour worse', () => {
+    const points = createCirclePoints(12);
+    const costs = createEuclideanCosts(points);
+    const evaluate = createMatrixEvaluator(costs, false);
+    const initial = points.map((_, i) => i);
+
+    const result = improveTour(initial, evaluate, { isLoop: false, timeBudgetMs: 1000 });
+
+    expect(result.finalScore).toBeLessThanOrEqual(result.initialScore);
+    expect(result.order).toHaveLength(12);
+  });
+
+  it('should keep fixed positions in place', () => {
+    const points = createCirclePoints(20);
+    const costs = createEuclideanCosts(points);
+    const initial = shuffle(20, 11);
+    const fixedPositions = new Set([3, 10, 19]);
+
+    const result = improveTour(initial, createMatrixEvaluator(costs, false), {
+      isLoop: false,
+      fixedPositions,
+      timeBudgetMs: 2000,
+    });
+
+    fixedPositions.forEach(position => {
+      expect(result.order[position]).toBe(initial[position]);
+    });
+    expect([...result.order].sort((a, b) => a - b)).toEqual(initial.map((_, i) => i));
+  });
+
+  it('should stop when the time budget is exhausted', () => {
+    const points = createCirclePoints(60);
+    const costs = createEuclideanCosts(points);
+
+    const result = improveTour(shuffle(60), createMatrixEvaluator(costs, true), {
+      isLoop: true,
+      timeBudgetMs: 0,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.order).toHaveLength(60);
+  });
+
+  it('should stop at a deadline shared with earlier searches', () => {
+    const points = createCirclePoints(60);
+    const costs = createEuclideanCosts(points);
+
+    const result = improveTour(shuffle(60), createMatrixEvaluator(costs, true), {
+      isLoop: true,
+      timeBudgetMs: 60000,
+      deadline: Date.now() - 1,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.iterations).toBe(0);
+  });
+
+  it('should support custom evaluators', () => {
+    // Penalise any order where stop 2 comes before stop 1
+    const points = createCirclePoints(8);
+    const costs = createEuclideanCosts(points);
+    const base = createMatrixEvaluator(costs, false);
+    const evaluate = (order: number[]) =>
+      base(order) + (order.indexOf(2) < order.indexOf(1) ? 1000 : 0);
+
+    const result = improveTour([0, 2, 1, 3, 4, 5, 6, 7], evaluate, { isLoop: false, timeBudgetMs: 1000 });
+
+    expect(result.order.indexOf(1)).toBeLessThan(result.order.indexOf(2));
+  });
+});
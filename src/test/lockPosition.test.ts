@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { findRouteEnds, getLockPosition, resolveLockedOrder } from '../utils/lockPosition';
+import { Location } from '../types';
+
+const createLocations = (count: number): Location[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `loc_${i}`, address: `Address ${i}` }));
+
+describe('getLockPosition', () => {
+  it('should default a locked location to a fixed position', () => {
+    expect(getLockPosition({ isLocked: true })).toBe('fixed');
+    expect(getLockPosition({ isLocked: false, lockPosition: 'start' })).toBeUndefined();
+  });
+});
+
+describe('resolveLockedOrder', () => {
+  it('should put the start first, the end last and keep fixed positions', () => {
+    const locations = createLocations(6);
+    locations[3] = { ...locations[3], isLocked: true, lockPosition: 'start' };
+    locations[0] = { ...locations[0], isLocked: true, lockPosition: 'end' };
+    locations[1] = { ...locations[1], isLocked: true, order: 2 };
+    locations[4] = { ...locations[4], isLocked: true, lockPosition: 'fixed' };
+
+    const resolved = resolveLockedOrder(locations);
+
+    expect(resolved.map(loc => loc.order)).toEqual([5, 2, undefined, 0, 4, undefined]);
+    expect(findRouteEnds(resolved)).toEqual({ start: resolved[3], end: resolved[0] });
+  });
+
+  it('should reject two locations locked at the same position', () => {
+    const locations = createLocations(3).map(loc => ({ ...loc, isLocked: true, lockPosition: 'start' as const }));
+
+    expect(() => resolveLockedOrder(locations)).toThrow('même position (1)');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatObjectiveWeights,
+  normalizeObjectiveWeights,
+  objectiveSegmentWeights,
+  resolveObjectiveWeights,
+  DEFAULT_OBJECTIVE_WEIGHTS,
+} from '../utils/objective';
+import { costPerKm, resolveCostRates, VEHICLE_COST_RATES } from '../utils/routeCost';
+
+describe('resolveObjectiveWeights', () => {
+  it('should keep a single criterion for the other methods', () => {
+    const weights = { distance: 0.2, time: 0.8, cost: 0, emissions: 0 };
+
+    expect(resolveObjectiveWeights({ optimizationMethod: 'shortest_distance', objectiveWeights: weights }))
+      .toEqual({ distance: 1, time: 0, cost: 0, emissions: 0 });
+    expect(resolveObjectiveWeights({ optimizationMethod: 'lowest_cost' }))
+      .toEqual({ distance: 0, time: 0, cost: 1, emissions: 0 });
+  });
+
+  it('should use the user weights for the balanced method, or the defaults', () => {
+    expect(resolveObjectiveWeights({ optimizationMethod: 'balanced', objectiveWeights: { distance: 1, time: 1, cost: 2, emissions: 0 } }))
+      .toEqual({ distance: 0.25, time: 0.25, cost: 0.5, emissions: 0 });
+    expect(resolveObjectiveWeights({ optimizationMethod: 'balanced' })).toEqual(DEFAULT_OBJECTIVE_WEIGHTS);
+  });
+});
+
+describe('normalizeObjectiveWeights', () => {
+  it('should fall back to the defaults when no weight is positive', () => {
+    expect(normalizeObjectiveWeights({ distance: 0, time: -1, cost: 0, emissions: 0 })).toEqual(DEFAULT_OBJECTIVE_WEIGHTS);
+  });
+});
+
+describe('objectiveSegmentWeights', () => {
+  it.each(['car', 'truck'] as const)('should keep 40 %% distance and 60 %% time by default for a %s', vehicleType => {
+    expect(objectiveSegmentWeights({ optimizationMethod: 'balanced', vehicleType })).toEqual({ distance: 0.4, duration: 0.6, wait: 0.6 });
+  });
+
+  it('should score the lowest cost in proportion to the cost rates', () => {
+    const rates = resolveCostRates('truck', { hourlyCost: 42 });
+
+    const weights = objectiveSegmentWeights({ optimizationMethod: 'lowest_cost', vehicleType: 'truck', costSettings: { hourlyCost: 42 } });
+
+    expect(weights.duration / weights.distance).toBeCloseTo((42 / 60) / costPerKm(rates));
+    expect(weights.wait).toBe(weights.duration);
+  });
+
+  it('should ignore time for the shortest distance', () => {
+    expect(objectiveSegmentWeights({ optimizationMethod: 'shortest_distance', vehicleType: 'truck' }))
+      .toEqual({ distance: 1, duration: 0, wait: 0 });
+  });
+
+  it('should count emissions per km in proportion to the consumption of the vehicle', () => {
+    const emissionsOnly = { distance: 0, time: 0, cost: 0, emissions: 1 };
+    const emissions = (vehicleType: 'car' | 'truck', fuelPer100Km?: number) => objectiveSegmentWeights({
+      optimizationMethod: 'balanced',
+      vehicleType,
+      objectiveWeights: emissionsOnly,
+      costSettings: { fuelPer100Km },
+    });
+
+    expect(emissions('car')).toEqual({ distance: 1, duration: 0, wait: 0 });
+    expect(emissions('truck').distance).toBeCloseTo(VEHICLE_COST_RATES.truck.fuelPer100Km / VEHICLE_COST_RATES.car.fuelPer100Km);
+    expect(emissions('car', 3.5).distance).toBeCloseTo(0.5);
+  });
+});
+
+describe('formatObjectiveWeights', () => {
+  it('should list the criteria that count, in percent', () => {
+    expect(formatObjectiveWeights({ distance: 1, time: 3, cost: 0, emissions: 0 })).toBe('distance 25 %, temps 75 %');
+  });
+});
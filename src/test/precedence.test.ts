@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { findPickupDeliveryPairs, repairPrecedence, violatesPrecedence, withPrecedence } from '../utils/precedence';
+import { Location } from '../types';
+
+describe('pickup/delivery precedence', () => {
+  it('should find pairs as positions and ignore missing pickups', () => {
+    const locations: Location[] = [
+      { id: 'depot', address: 'Dépôt' },
+      { id: 'drop', address: 'Livraison', pickupId: 'pick' },
+      { id: 'pick', address: 'Collecte' },
+      { id: 'orphan', address: 'Orpheline', pickupId: 'missing' },
+    ];
+
+    expect(findPickupDeliveryPairs(locations)).toEqual([[2, 1]]);
+  });
+
+  it('should detect and repair deliveries visited before their pickup', () => {
+    const order = [0, 3, 1, 2];
+
+    expect(violatesPrecedence(order, [[2, 3]])).toBe(true);
+    expect(repairPrecedence(order, [[2, 3]])).toEqual([0, 2, 1, 3]);
+    expect(violatesPrecedence(repairPrecedence(order, [[2, 3]]), [[2, 3]])).toBe(false);
+  });
+
+  it('should leave pairs touching a fixed node untouched', () => {
+    expect(repairPrecedence([3, 1, 2], [[2, 3]], new Set([3]))).toEqual([3, 1, 2]);
+  });
+
+  it('should reject violating orders in wrapped evaluators', () => {
+    const evaluate = withPrecedence(order => order.length, [[1, 2]]);
+
+    expect(evaluate([0, 1, 2])).toBe(3);
+    expect(evaluate([0, 2, 1])).toBe(Infinity);
+  });
+});
@@ -0,0 +1,386 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OsrmRoutingAdapter, TRUCK_DISTANCE_FACTOR } from '../services/providers/osrm';
+import { OpenRouteServiceAdapter } from '../services/providers/openRouteService';
+import { ValhallaRoutingAdapter } from '../services/providers/valhalla';
+import { GraphHopperRoutingAdapter } from '../services/providers/graphHopper';
+import { NominatimGeocodingAdapter } from '../services/providers/nominatim';
+import { ProviderRegistry } from '../services/providers/registry';
+import { checkProviderHealth } from '../services/providers/healthCheck';
+import { Coordinates, RoutedPath, RoutingAdapter, RoutingOptions } from '../services/providers/types';
+import { OpenStreetMapRoutingService } from '../services/freeRoutingService';
+import { clearAllCache } from '../utils/cacheManager';
+import osrmRoute from './fixtures/providers/osrm-route.json';
+import osrmTable from './fixtures/providers/osrm-table.json';
+import orsDirections from './fixtures/providers/ors-directions.json';
+import valhallaRoute from './fixtures/providers/valhalla-route.json';
+import valhallaMatrix from './fixtures/providers/valhalla-matrix.json';
+import graphHopperRoute from './fixtures/providers/graphhopper-route.json';
+import nominatimSearch from './fixtures/providers/nominatim-search.json';
+
+// Paris (Hôtel de Ville) -> Versailles (château), the trip of every recorded fixture
+const paris: Coordinates = { latitude: 48.85661, longitude: 2.35222 };
+const versailles: Coordinates = { latitude: 48.80489, longitude: 2.12038 };
+const boulogne: Coordinates = { latitude: 48.83766, longitude: 2.25671 };
+
+// Public servers, as in the default configuration
+const endpoints = {
+  osrm: { url: 'https://router.project-osrm.org' },
+  ors: { url: 'https://api.openrouteservice.org' },
+  valhalla: { url: 'https://valhalla1.openstreetmap.de' },
+  graphhopper: { url: 'https://graphhopper.com/api/1' },
+  nominatim: { url: 'https://nominatim.openstreetmap.org' },
+};
+
+const car: RoutingOptions = { vehicleType: 'car' };
+const truck: RoutingOptions = {
+  vehicleType: 'truck',
+  truckProfile: { height: 4, weight: 19 },
+  avoidTolls: true,
+};
+
+// Answer every call with the recorded fixture and keep the requests
+const replay = (fixture: unknown, status = 200) => {
+  const fetchMock = vi.mocked(fetch);
+  fetchMock.mockImplementation(async () => new Response(JSON.stringify(fixture), { status }));
+  return fetchMock;
+};
+
+const requestBody = (fetchMock: ReturnType<typeof replay>, call = 0) =>
+  JSON.parse(fetchMock.mock.calls[call][1]!.body as string);
+
+interface AdapterContract {
+  adapter: RoutingAdapter;
+  route: unknown;
+  matrix?: unknown;
+}
+
+const contracts: AdapterContract[] = [
+  { adapter: new OsrmRoutingAdapter(endpoints.osrm), route: osrmRoute, matrix: osrmTable },
+  { adapter: new OpenRouteServiceAdapter('test-key', endpoints.ors), route: orsDirections },
+  { adapter: new ValhallaRoutingAdapter(endpoints.valhalla), route: valhallaRoute, matrix: valhallaMatrix },
+  { adapter: new GraphHopperRoutingAdapter('test-key', endpoints.graphhopper), route: graphHopperRoute },
+];
+
+describe.each(contracts)('$adapter.name routing adapter contract', ({ adapter, route, matrix }) => {
+  it('should return the best path in kilometers and minutes with its geometry', async () => {
+    replay(route);
+
+    const [best] = await adapter.route([paris, versailles], car, { geometry: true });
+
+    // Paris -> Versailles : une vingtaine de kilomètres, une demi-heure
+    expect(best.distance).toBeGreaterThan(15);
+    expect(best.distance).toBeLessThan(30);
+    expect(best.duration).toBeGreaterThan(20);
+    expect(best.duration).toBeLessThan(45);
+    expect(best.instructions.length).toBeGreaterThan(0);
+    best.instructions.forEach(instruction => expect(typeof instruction).toBe('string'));
+
+    // GeoJSON [longitude, latitude] from Paris to Versailles
+    expect(best.polyline?.type).toBe('LineString');
+    const coordinates = best.polyline!.coordinates;
+    expect(coordinates[0][0]).toBeCloseTo(paris.longitude, 3);
+    expect(coordinates[0][1]).toBeCloseTo(paris.latitude, 3);
+    expect(coordinates[coordinates.length - 1][0]).toBeCloseTo(versailles.longitude, 3);
+    expect(coordinates[coordinates.length - 1][1]).toBeCloseTo(versailles.latitude, 3);
+  });
+
+  it('should list alternative paths after the best one', async () => {
+    replay(route);
+
+    const paths = await adapter.route([paris, versailles], car, { geometry: true, alternatives: true });
+
+    paths.slice(1).forEach((path: RoutedPath) => {
+      expect(path.distance).toBeGreaterThan(0);
+      expect(path.polyline).not.toBeNull();
+    });
+  });
+
+  it('should report whether the truck profile was applied', async () => {
+    replay(route);
+
+    const [best] = await adapter.route([paris, versailles], truck, { geometry: true });
+
+    expect(best.truckProfileApplied).toBe(adapter.supportsTruckProfile);
+  });
+
+  it('should abort the request with the signal', async () => {
+    const fetchMock = vi.mocked(fetch);
+    // Backend that never answers: only the abort ends the request
+    fetchMock.mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    const controller = new AbortController();
+
+    const request = adapter.route([paris, versailles], car, { geometry: false }, controller.signal);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+  });
+
+  it('should reject when the backend answers with an error', async () => {
+    replay({ error: 'Too Many Requests' }, 429);
+
+    await expect(adapter.route([paris, versailles], car, { geometry: true })).rejects.toThrow();
+  });
+
+  it('should tell whether the backend answers', async () => {
+    replay({});
+    expect(await adapter.checkHealth()).toBe(true);
+
+    vi.mocked(fetch).mockRejectedValue(new TypeError('Failed to fetch'));
+    expect(await adapter.checkHealth()).toBe(false);
+  });
+
+  it.runIf(!!adapter.matrix)('should return the matrix block in kilometers and minutes', async () => {
+    replay(matrix);
+
+    const block = await adapter.matrix!([paris, versailles, boulogne], [0, 1], [0, 1, 2], car);
+
+    expect(block.distances).toHaveLength(2);
+    expect(block.durations).toHaveLength(2);
+    block.distances.forEach(row => expect(row).toHaveLength(3));
+    expect(block.distances[0][0]).toBe(0);
+    expect(block.distances[0][1]).toBeGreaterThan(15);
+    expect(block.distances[0][1]).toBeLessThan(30);
+    expect(block.durations[0][1]).toBeGreaterThan(20);
+    expect(block.durations[0][1]).toBeLessThan(45);
+  });
+});
+
+describe('routing adapter requests', () => {
+  it('should send OSRM exclusions and apply the truck factors', async () => {
+    const fetchMock = replay(osrmRoute);
+
+    const [best] = await new OsrmRoutingAdapter(endpoints.osrm).route([paris, versailles], truck, { geometry: true });
+
+    expect(fetchMock.mock.calls[0][0].toString()).toContain('exclude=toll');
+    expect(best.distance).toBeCloseTo(21.3426 * TRUCK_DISTANCE_FACTOR);
+    expect(best.avoidanceApplied).toBe(true);
+  });
+
+  it('should send the truck dimensions to OpenRouteService driving-hgv', async () => {
+    const fetchMock = replay(orsDirections);
+
+    await new OpenRouteServiceAdapter('test-key', endpoints.ors).route([paris, versailles], truck, { geometry: true });
+
+    expect(fetchMock.mock.calls[0][0].toString()).toContain('/v2/directions/driving-hgv');
+    expect(requestBody(fetchMock).options).toEqual({
+      vehicle_type: 'hgv',
+      profile_params: { restrictions: { height: 4, weight: 19 } },
+      avoid_features: ['tollways'],
+    });
+  });
+
+  it('should send the truck costing options to Valhalla', async () => {
+    const fetchMock = replay(valhallaRoute);
+
+    await new ValhallaRoutingAdapter(endpoints.valhalla).route([paris, versailles], truck, { geometry: true });
+
+    const body = requestBody(fetchMock);
+    expect(body.costing).toBe('truck');
+    expect(body.costing_options).toEqual({ truck: { use_tolls: 0, height: 4, weight: 19 } });
+    expect(body.locations).toEqual([{ lat: paris.latitude, lon: paris.longitude }, { lat: versailles.latitude, lon: versailles.longitude }]);
+  });
+
+  it('should express GraphHopper truck limits and avoided roads as a custom model', async () => {
+    const fetchMock = replay(graphHopperRoute);
+
+    await new GraphHopperRoutingAdapter('test-key', endpoints.graphhopper).route([paris, versailles], truck, { geometry: true });
+
+    const body = requestBody(fetchMock);
+    expect(body.profile).toBe('truck');
+    expect(body['ch.disable']).toBe(true);
+    expect(body.custom_model.priority).toEqual([
+      { if: 'toll != NO', multiply_by: '0' },
+      { if: 'max_height < 4', multiply_by: '0' },
+      { if: 'max_weight < 19', multiply_by: '0' },
+    ]);
+  });
+
+  it('should not be configured without an API key', () => {
+    expect(new OpenRouteServiceAdapter(null, endpoints.ors).isConfigured()).toBe(false);
+    expect(new GraphHopperRoutingAdapter(null, endpoints.graphhopper).isConfigured()).toBe(false);
+  });
+
+  it('should use the truck profile of a self-hosted OSRM server', async () => {
+    const fetchMock = replay(osrmRoute);
+    const adapter = new OsrmRoutingAdapter({ url: 'https://osrm.example.com' }, 'truck');
+
+    const [best] = await adapter.route([paris, versailles], truck, { geometry: true });
+
+    expect(adapter.supportsTruckProfile).toBe(true);
+    expect(fetchMock.mock.calls[0][0].toString()).toMatch(/^https:\/\/osrm\.example\.com\/route\/v1\/truck\//);
+    expect(best.distance).toBeCloseTo(21.3426);
+    expect(best.truckProfileApplied).toBe(true);
+  });
+
+  it('should send the endpoint auth headers with every request', async () => {
+    const fetchMock = replay(valhallaRoute);
+    const adapter = new ValhallaRoutingAdapter({ url: 'https://valhalla.example.com', headers: { 'X-Api-Token': 'secret' } });
+
+    await adapter.route([paris, versailles], car, { geometry: true });
+    await adapter.checkHealth();
+
+    fetchMock.mock.calls.forEach(([, init]) => {
+      expect((init?.headers as Record<string, string>)['X-Api-Token']).toBe('secret');
+    });
+  });
+
+  it('should accept a self-hosted server authenticated by header instead of an API key', async () => {
+    const fetchMock = replay(orsDirections);
+    const adapter = new OpenRouteServiceAdapter(null, { url: 'https://ors.example.com/ors', headers: { Authorization: 'Bearer token' } });
+
+    await adapter.route([paris, versailles], car, { geometry: true });
+
+    expect(adapter.isConfigured()).toBe(true);
+    expect(fetchMock.mock.calls[0][0].toString()).toBe('https://ors.example.com/ors/v2/directions/driving-car');
+    expect((fetchMock.mock.calls[0][1]?.headers as Record<string, string>).Authorization).toBe('Bearer token');
+  });
+});
+
+describe('toll distance', () => {
+  it('should add up the OSRM steps on toll roads', async () => {
+    const [first, second] = osrmRoute.routes[0].legs[0].steps;
+    replay({
+      ...osrmRoute,
+      routes: [{ ...osrmRoute.routes[0], legs: [{ ...osrmRoute.routes[0].legs[0], steps: [first, { ...second, intersections: [{ classes: ['toll', 'motorway'] }] }] }] }],
+    });
+
+    const [best] = await new OsrmRoutingAdapter(endpoints.osrm).route([paris, versailles], car, { geometry: true });
+
+    expect(best.tollDistance).toBeCloseTo(second.distance / 1000);
+  });
+
+  it('should add up the Valhalla maneuvers on toll roads', async () => {
+    const leg = valhallaRoute.trip.legs[0];
+    replay({
+      ...valhallaRoute,
+      trip: { ...valhallaRoute.trip, legs: [{ ...leg, maneuvers: leg.maneuvers.map((maneuver, index) => ({ ...maneuver, toll: index === 0 })) }] },
+    });
+
+    const [best] = await new ValhallaRoutingAdapter(endpoints.valhalla).route([paris, versailles], car, { geometry: true });
+
+    expect(best.tollDistance).toBeCloseTo(leg.maneuvers[0].length);
+  });
+
+  it('should not report tolls without turn-by-turn steps', async () => {
+    replay({ ...osrmRoute, routes: [{ ...osrmRoute.routes[0], legs: [{}] }] });
+
+    const [best] = await new OsrmRoutingAdapter(endpoints.osrm).route([paris, versailles], car, { geometry: false });
+
+    expect(best.tollDistance).toBeUndefined();
+  });
+});
+
+describe('NominatimGeocodingAdapter', () => {
+  it('should return the coordinates of the first result', async () => {
+    replay(nominatimSearch);
+
+    const coordinates = await new NominatimGeocodingAdapter(endpoints.nominatim).geocode('Château de Versailles');
+
+    expect(coordinates).toEqual({ latitude: 48.8049033, longitude: 2.1203554 });
+  });
+
+  it('should return null when nothing is found', async () => {
+    replay([]);
+
+    expect(await new NominatimGeocodingAdapter(endpoints.nominatim).geocode('nulle part')).toBeNull();
+  });
+});
+
+describe('ProviderRegistry', () => {
+  const createRegistry = () => new ProviderRegistry({
+    routing: [new OsrmRoutingAdapter(endpoints.osrm), new OpenRouteServiceAdapter(null, endpoints.ors), new ValhallaRoutingAdapter(endpoints.valhalla)],
+    geocoding: [new NominatimGeocodingAdapter(endpoints.nominatim)],
+    routingOrder: { car: ['valhalla', 'osrm'], truck: ['ors', 'graphhopper', 'osrm'] },
+    geocodingOrder: ['nominatim'],
+  });
+
+  it('should order the routing backends per vehicle type', () => {
+    expect(createRegistry().routingChain('car').map(adapter => adapter.id)).toEqual(['valhalla', 'osrm']);
+  });
+
+  it('should skip unregistered and unconfigured backends', () => {
+    expect(createRegistry().routingChain('truck').map(adapter => adapter.id)).toEqual(['osrm']);
+  });
+
+  it('should use a backend registered later', () => {
+    const registry = createRegistry();
+    registry.registerRouting(new OpenRouteServiceAdapter('test-key', endpoints.ors));
+
+    expect(registry.routingChain('truck').map(adapter => adapter.id)).toEqual(['ors', 'osrm']);
+  });
+});
+
+describe('OpenStreetMapRoutingService provider fallback', () => {
+  // Backend without matrix service answering with a fixed 10 km / 12 min per call
+  const createAdapter = (id: 'valhalla' | 'osrm', fails: boolean): RoutingAdapter => ({
+    id,
+    name: id,
+    supportsTruckProfile: false,
+    isConfigured: () => true,
+    checkHealth: async () => !fails,
+    route: vi.fn(async () => {
+      if (fails) throw new Error(`${id} indisponible`);
+      return [{ distance: 10, duration: 12, instructions: [], polyline: null, truckProfileApplied: false, avoidanceApplied: true }];
+    }),
+  });
+
+  it('should fall back to the next backend in the configured order', async () => {
+    clearAllCache();
+    const primary = createAdapter('valhalla', true);
+    const secondary = createAdapter('osrm', false);
+    const service = new OpenStreetMapRoutingService(new ProviderRegistry({
+      routing: [primary, secondary],
+      geocoding: [],
+      routingOrder: { car: ['valhalla', 'osrm'], truck: ['osrm'] },
+      geocodingOrder: [],
+    }));
+
+    const response = await service.calculateRoute({
+      locations: [
+        { id: 'paris', address: 'Paris', coordinates: paris },
+        { id: 'versailles', address: 'Versailles', coordinates: versailles },
+      ],
+      vehicleType: 'car',
+      optimizationMethod: 'shortest_distance',
+      isLoop: false,
+      alternatives: false,
+    });
+
+    expect(primary.route).toHaveBeenCalled();
+    expect(secondary.route).toHaveBeenCalled();
+    expect(response.route.totalDistance).toBe(10);
+    expect(response.metadata.apiProvider).toBe('valhalla+osrm');
+  });
+});
+
+describe('checkProviderHealth', () => {
+  const createAdapter = (id: 'valhalla' | 'osrm', live: boolean): RoutingAdapter => ({
+    id,
+    name: id.toUpperCase(),
+    supportsTruckProfile: false,
+    isConfigured: () => true,
+    checkHealth: vi.fn(async () => live),
+    route: vi.fn(),
+  });
+
+  it('should report the first live backend of each chain', async () => {
+    const valhalla = createAdapter('valhalla', false);
+    const osrm = createAdapter('osrm', true);
+    const registry = new ProviderRegistry({
+      routing: [valhalla, osrm],
+      geocoding: [{ id: 'nominatim', name: 'Nominatim', isConfigured: () => true, checkHealth: async () => false, geocode: vi.fn() }],
+      routingOrder: { car: ['valhalla', 'osrm'], truck: ['valhalla'] },
+      geocodingOrder: ['nominatim'],
+    });
+
+    const health = await checkProviderHealth(registry);
+
+    expect(health).toEqual({ routing: { car: 'OSRM', truck: null }, geocoding: null });
+    // Chaque serveur n'est interrogé qu'une fois
+    expect(valhalla.checkHealth).toHaveBeenCalledTimes(1);
+  });
+});
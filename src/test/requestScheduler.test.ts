@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { combineRequestStats, RequestScheduler } from '../services/requestScheduler';
+
+const NOMINATIM = 'https://nominatim.openstreetmap.org';
+
+// Nominatim public policy: one request per second, one at a time
+const createScheduler = () => new RequestScheduler({
+  hosts: { 'nominatim.openstreetmap.org': { minIntervalMs: 1000, maxConcurrent: 1 } },
+  defaultLimit: { minIntervalMs: 0, maxConcurrent: 2 },
+});
+
+// Answer each request with its own URL, after `delay` ms when given
+const mockServer = (delay = 0) => {
+  const fetchMock = vi.mocked(fetch);
+  fetchMock.mockImplementation(async input => {
+    if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+    return new Response(input.toString());
+  });
+  return fetchMock;
+};
+
+const requestedUrls = (fetchMock: ReturnType<typeof mockServer>) =>
+  fetchMock.mock.calls.map(([input]) => input.toString());
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should space the requests to a rate-limited host', async () => {
+    const fetchMock = mockServer();
+    const scheduler = createScheduler();
+
+    const responses = ['a', 'b', 'c'].map(query => scheduler.fetch(`${NOMINATIM}/search?q=${query}`));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(await Promise.all(responses.map(async response => (await response).text()))).toEqual([
+      `${NOMINATIM}/search?q=a`,
+      `${NOMINATIM}/search?q=b`,
+      `${NOMINATIM}/search?q=c`,
+    ]);
+  });
+
+  it('should cap the concurrent requests of a host', async () => {
+    const fetchMock = mockServer(500);
+    const scheduler = createScheduler();
+
+    const responses = [1, 2, 3].map(id => scheduler.fetch(`https://osrm.example.com/route/${id}`));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats()).toMatchObject({ inFlight: 2, queued: 1 });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(responses);
+    expect(scheduler.getStats()).toMatchObject({ inFlight: 0, queued: 0, completed: 3 });
+  });
+
+  it('should share one call between identical pending requests', async () => {
+    const fetchMock = mockServer(100);
+    const scheduler = createScheduler();
+
+    const first = scheduler.fetch(`${NOMINATIM}/search?q=Lyon`);
+    const second = scheduler.fetch(`${NOMINATIM}/search?q=Lyon`);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    // Chaque demandeur peut lire le corps de la réponse
+    expect(await (await first).text()).toBe(`${NOMINATIM}/search?q=Lyon`);
+    expect(await (await second).text()).toBe(`${NOMINATIM}/search?q=Lyon`);
+    expect(scheduler.getStats().hosts['nominatim.openstreetmap.org'].deduplicated).toBe(1);
+  });
+
+  it('should not share calls whose bodies differ', async () => {
+    const fetchMock = mockServer();
+    const scheduler = createScheduler();
+
+    await Promise.all([
+      scheduler.fetch('https://valhalla.example.com/route', { method: 'POST', body: '{"costing":"auto"}' }),
+      scheduler.fetch('https://valhalla.example.com/route', { method: 'POST', body: '{"costing":"truck"}' }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start interactive requests before queued batch requests', async () => {
+    const fetchMock = mockServer();
+    const scheduler = createScheduler();
+
+    const batch = ['1 rue A', '2 rue B'].map(address =>
+      scheduler.fetch(`${NOMINATIM}/search?q=${encodeURIComponent(address)}`, {}, 'batch'));
+    const typing = scheduler.fetch(`${NOMINATIM}/search?q=Bordeaux`, {}, 'interactive');
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all([...batch, typing]);
+
+    expect(requestedUrls(fetchMock)).toEqual([
+      `${NOMINATIM}/search?q=1%20rue%20A`, // Déjà partie avant la saisie
+      `${NOMINATIM}/search?q=Bordeaux`,
+      `${NOMINATIM}/search?q=2%20rue%20B`,
+    ]);
+  });
+
+  it('should drop an aborted request from the queue', async () => {
+    const fetchMock = mockServer();
+    const scheduler = createScheduler();
+    const controller = new AbortController();
+
+    const first = scheduler.fetch(`${NOMINATIM}/search?q=Lil`);
+    const aborted = scheduler.fetch(`${NOMINATIM}/search?q=Lill`, { signal: controller.signal });
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    await first;
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(requestedUrls(fetchMock)).toEqual([`${NOMINATIM}/search?q=Lil`]);
+    expect(scheduler.getStats().queued).toBe(0);
+  });
+
+  it('should keep a shared call running while another requester waits for it', async () => {
+    const fetchMock = mockServer(100);
+    const scheduler = createScheduler();
+    const controller = new AbortController();
+
+    const aborted = scheduler.fetch(`${NOMINATIM}/search?q=Nantes`, { signal: controller.signal });
+    const kept = scheduler.fetch(`${NOMINATIM}/search?q=Nantes`);
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await kept).ok).toBe(true);
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(false);
+  });
+
+  it('should keep sharing a new call after an aborted one with the same URL ends', async () => {
+    const fetchMock = mockServer(100);
+    const scheduler = createScheduler();
+    const controller = new AbortController();
+
+    const aborted = scheduler.fetch(`${NOMINATIM}/search?q=Brest`, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    const retried = scheduler.fetch(`${NOMINATIM}/search?q=Brest`);
+    // Fin de l'appel annulé pendant que la nouvelle requête attend son tour
+    await vi.advanceTimersByTimeAsync(100);
+    const shared = scheduler.fetch(`${NOMINATIM}/search?q=Brest`);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect((await retried).ok).toBe(true);
+    expect((await shared).ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should notify the listeners and add up the stats of several schedulers', async () => {
+    mockServer();
+    const scheduler = createScheduler();
+    const listener = vi.fn();
+    scheduler.subscribe(listener);
+
+    await scheduler.fetch(`${NOMINATIM}/search?q=Paris`);
+
+    expect(listener).toHaveBeenCalled();
+    expect(listener.mock.lastCall![0]).toMatchObject({ completed: 1, inFlight: 0 });
+    const combined = combineRequestStats(scheduler.getStats(), scheduler.getStats());
+    expect(combined.completed).toBe(2);
+    expect(combined.hosts['nominatim.openstreetmap.org'].completed).toBe(2);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { backoffDelay, CircuitBreaker, isRetryableError, withRetry } from '../services/providers/resilience';
+import { HttpError } from '../services/providers/http';
+
+const retry = { retries: 2, baseDelayMs: 500, maxDelayMs: 5000 };
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should retry transient errors with a growing delay', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new HttpError('Too Many Requests', 429))
+      .mockRejectedValueOnce(new HttpError('Bad Gateway', 502))
+      .mockResolvedValue('ok');
+    const delays: number[] = [];
+
+    const result = withRetry(operation, retry, undefined, (_error, _attempt, delayMs) => delays.push(delayMs));
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(delays[0]).toBeGreaterThanOrEqual(250);
+    expect(delays[0]).toBeLessThanOrEqual(500);
+    expect(delays[1]).toBeGreaterThanOrEqual(500);
+    expect(delays[1]).toBeLessThanOrEqual(1000);
+  });
+
+  it('should give up after the last retry', async () => {
+    const operation = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const result = withRetry(operation, retry);
+    const assertion = expect(result).rejects.toThrow('Failed to fetch');
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry an answer that will not change', async () => {
+    const operation = vi.fn().mockRejectedValue(new HttpError('Bad Request', 400));
+
+    await expect(withRetry(operation, retry)).rejects.toThrow('Bad Request');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait as long as Retry-After asks', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new HttpError('Too Many Requests', 429, 3000))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, retry);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await result).toBe('ok');
+  });
+
+  it('should stop waiting when aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new HttpError('Service Unavailable', 503));
+
+    const result = withRetry(operation, retry, controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should double the delay up to the maximum, half of it random', () => {
+    expect(backoffDelay(0, retry, () => 0)).toBe(250);
+    expect(backoffDelay(0, retry, () => 1)).toBe(500);
+    expect(backoffDelay(3, retry, () => 1)).toBe(4000);
+    expect(backoffDelay(10, retry, () => 1)).toBe(5000);
+  });
+
+  it('should only retry rate limiting, server and network errors', () => {
+    expect(isRetryableError(new HttpError('', 429))).toBe(true);
+    expect(isRetryableError(new HttpError('', 503))).toBe(true);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new HttpError('', 404))).toBe(false);
+    expect(isRetryableError(new Error('Aucun trajet trouvé'))).toBe(false);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures and try again after the cooldown', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(3, 30000, () => now);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 30000;
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+
+    // Un nouvel échec rouvre le circuit pour une période complète
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(false);
+    now = 60000;
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should reset the failure count after a success', () => {
+    const breaker = new CircuitBreaker(2, 30000, () => 0);
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+});
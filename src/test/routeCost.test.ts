@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCostBreakdown,
+  estimateRouteCost,
+  formatCost,
+  formatPreciseCost,
+  resolveCostRates,
+  segmentCost,
+  FUEL_PRICE_PER_LITER,
+  VEHICLE_COST_RATES,
+} from '../utils/routeCost';
+
+describe('estimateRouteCost', () => {
+  it('should add fuel and wear for the distance and driver time for the duration', () => {
+    const cost = estimateRouteCost({ totalDistance: 100, totalDuration: 120, vehicleType: 'car' });
+
+    const { fuelPer100Km, hourlyCost, wearPerKm } = VEHICLE_COST_RATES.car;
+    expect(cost).toBeCloseTo(fuelPer100Km * FUEL_PRICE_PER_LITER + 2 * hourlyCost + 100 * wearPerKm);
+  });
+
+  it('should cost more for a truck on the same route', () => {
+    const route = { totalDistance: 250, totalDuration: 240 };
+
+    expect(estimateRouteCost({ ...route, vehicleType: 'truck' })).toBeGreaterThan(
+      estimateRouteCost({ ...route, vehicleType: 'car' })
+    );
+  });
+
+  it('should be zero for an empty route', () => {
+    expect(estimateRouteCost({ totalDistance: 0, totalDuration: 0, vehicleType: 'truck' })).toBe(0);
+  });
+
+  it('should use the rates set by the user and the tolled distance of the segments', () => {
+    const segments = [{ distance: 100, duration: 60, tollDistance: 40 }].map(segment => ({
+      ...segment,
+      from: { id: 'a', address: 'A' },
+      to: { id: 'b', address: 'B' },
+      instructions: [],
+      polyline: null,
+      source: 'osrm' as const,
+      confidence: 'high' as const,
+    }));
+
+    const cost = estimateRouteCost({
+      totalDistance: 100,
+      totalDuration: 60,
+      vehicleType: 'truck',
+      costSettings: { fuelPrice: 2, hourlyCost: 30, wearPerKm: 0 },
+      segments,
+    });
+
+    expect(cost).toBeCloseTo(30 * 2 + 30 + 40 * VEHICLE_COST_RATES.truck.tollPerKm);
+  });
+});
+
+describe('resolveCostRates', () => {
+  it('should keep the vehicle defaults for the values left empty', () => {
+    expect(resolveCostRates('car', { fuelPrice: 1.5, hourlyCost: undefined })).toEqual({
+      ...VEHICLE_COST_RATES.car,
+      fuelPrice: 1.5,
+    });
+  });
+});
+
+describe('segmentCost', () => {
+  it('should break the cost of a segment down', () => {
+    const rates = resolveCostRates('car');
+
+    const cost = segmentCost({ distance: 10, duration: 12 }, rates);
+
+    expect(cost.fuel).toBeCloseTo(0.7 * FUEL_PRICE_PER_LITER);
+    expect(cost.driver).toBeCloseTo(5);
+    expect(cost.wear).toBeCloseTo(1);
+    expect(cost.tolls).toBe(0);
+    expect(cost.total).toBeCloseTo(cost.fuel + cost.driver + cost.wear);
+  });
+});
+
+describe('formatCost', () => {
+  it('should round to whole euros', () => {
+    expect(formatCost(123.6)).toBe('124 €');
+  });
+
+  it('should show cents for the detail of a step', () => {
+    expect(formatPreciseCost(3.456)).toBe('3,46 €');
+  });
+
+  it('should list the parts of a cost, tolls only when paid', () => {
+    const cost = { fuel: 12.4, driver: 20, wear: 3.05, tolls: 0, total: 35.45 };
+
+    expect(describeCostBreakdown(cost)).toBe('carburant 12 € · chauffeur 20 € · usure 3 €');
+    expect(describeCostBreakdown({ ...cost, tolls: 8 }, formatPreciseCost)).toBe('carburant 12,40 € · chauffeur 20,00 € · usure 3,05 € · péages 8,00 €');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { overnightStop, rescheduleRoute, routeDayLine, scheduleRoute, segmentArrival } from '../utils/routeSchedule';
+import { Location, Route, RouteSegment } from '../types';
+
+const locations: Location[] = Array.from({ length: 3 }, (_, i) => ({
+  id: `loc_${i}`,
+  address: `Address ${i}`,
+  coordinates: { latitude: 45 + i * 0.1, longitude: 4 },
+}));
+
+const segment = (from: Location, to: Location, distance: number, duration: number): RouteSegment => ({
+  from,
+  to,
+  distance,
+  duration,
+  instructions: [],
+  polyline: null,
+  source: 'osrm',
+  confidence: 'high',
+});
+
+// Boucle 0 → 1 → 2 → 0 avec 10 min sur place aux arrêts
+const createLoop = (): Route => {
+  const segments = [
+    segment(locations[0], locations[1], 12, 20),
+    segment(locations[1], locations[2], 8, 15),
+    segment(locations[2], locations[0], 5, 10),
+  ];
+  return {
+    id: 'route_1',
+    locations,
+    totalDistance: 25,
+    totalDuration: 65,
+    vehicleType: 'car',
+    isLoop: true,
+    segments,
+    optimizationMethod: 'balanced',
+    departureTime: '08:00',
+    ...scheduleRoute(locations, segments, [{ serviceDuration: 0 }, { serviceDuration: 10 }, { serviceDuration: 10 }], 480, false),
+  };
+};
+
+describe('scheduleRoute', () => {
+  it('should plan every stop with the distance driven so far', () => {
+    const route = createLoop();
+
+    expect(route.schedule?.map(stop => [stop.arrivalTime, stop.departureTime, stop.cumulativeDistance])).toEqual([
+      [480, 480, 0],
+      [500, 510, 12],
+      [525, 535, 20],
+    ]);
+    expect(route.returnTime).toBe(545);
+  });
+});
+
+describe('rescheduleRoute', () => {
+  it('should shift the times without changing the segments', () => {
+    const route = createLoop();
+
+    const moved = rescheduleRoute(route, { departureTime: '14:00', departureDate: '2026-10-20' });
+
+    expect(moved.segments).toBe(route.segments);
+    expect(moved.departureDate).toBe('2026-10-20');
+    expect(moved.schedule?.map(stop => stop.arrivalTime)).toEqual([840, 860, 885]);
+    expect(moved.schedule?.[2].departureTime).toBe(895);
+    expect(moved.returnTime).toBe(905);
+    expect(moved.totalDuration).toBe(route.totalDuration);
+  });
+
+  it('should recompute waiting and lateness against the time windows', () => {
+    const route = createLoop();
+    route.locations = locations.map((loc, i) => (i === 2 ? { ...loc, timeWindow: { start: '09:00', end: '10:00' } } : loc));
+
+    expect(rescheduleRoute(route, { departureTime: '07:00' }).schedule?.[2]).toMatchObject({ arrivalTime: 465, waitTime: 75, departureTime: 550 });
+    expect(rescheduleRoute(route, { departureTime: '10:00' }).schedule?.[2]).toMatchObject({ arrivalTime: 645, lateness: 45 });
+  });
+});
+
+describe('route days', () => {
+  it('should split the route at the overnight stops', () => {
+    // Journée de 30 min : nuit à l'arrivée au premier arrêt, puis au milieu du retour
+    const route = rescheduleRoute(createLoop(), { maxWorkingDay: 30 });
+
+    expect(route.maxWorkingDay).toBe(30);
+    expect(route.days?.map(({ startTime, endTime, stopIds, distance, workTime }) => ({ startTime, endTime, stopIds, distance, workTime }))).toEqual([
+      { startTime: 480, endTime: 510, stopIds: ['loc_0', 'loc_1'], distance: 12, workTime: 30 },
+      { startTime: 1920, endTime: 1950, stopIds: ['loc_2'], distance: 10.5, workTime: 30 },
+      { startTime: 3360, endTime: 3365, stopIds: [], distance: 2.5, workTime: 5 },
+    ]);
+    expect(route.days?.[1].legs).toEqual([
+      { segmentIndex: 1, from: 0, to: 1 },
+      { segmentIndex: 2, from: 0, to: 0.5 },
+    ]);
+    expect(route.returnTime).toBe(3365);
+  });
+
+  it('should suggest the overnight stops along the route', () => {
+    const route = rescheduleRoute(createLoop(), { maxWorkingDay: 30 });
+    const [first, second, last] = route.days!;
+
+    expect(overnightStop(route, first)).toBe(locations[1]);
+    expect(overnightStop(route, second)).toBeUndefined();
+    expect(second.overnight?.coordinates?.latitude).toBeCloseTo(45.1);
+    expect(routeDayLine(route, last)).toHaveLength(2);
+    expect(last.overnight).toBeUndefined();
+  });
+
+  it('should keep a single day without a working day', () => {
+    const route = rescheduleRoute(rescheduleRoute(createLoop(), { maxWorkingDay: 30 }), { maxWorkingDay: undefined });
+
+    expect(route.days).toBeUndefined();
+    expect(route.returnTime).toBe(545);
+  });
+});
+
+describe('segmentArrival', () => {
+  it('should end the last segment of a loop back at the start', () => {
+    const route = createLoop();
+
+    expect(segmentArrival(route, 0)).toMatchObject({ arrivalTime: 500, departureTime: 510, cumulativeDistance: 12 });
+    expect(segmentArrival(route, 2)).toEqual({ arrivalTime: 545, departureTime: 545, cumulativeDistance: 25 });
+  });
+});
@@ -9,6 +9,9 @@ import {
   trimAddress,
   decodePolyline,
   encodePolyline,
+  interpolateAlongLine,
+  sliceLine,
+  routeStops,
 } from '../utils/routeUtils';
 
 describe('calculateDistance', () => {
@@ -284,3 +287,36 @@ describe('polyline encoding/decoding', () => {
     expect(decoded[0][1]).toBeCloseTo(coords[0][1], 4);
   });
 });
+
+describe('interpolateAlongLine', () => {
+  it('should follow the line by length', () => {
+    const line = [[0, 0], [1, 0], [1, 3]];
+
+    expect(interpolateAlongLine(line, 0)).toEqual([0, 0]);
+    expect(interpolateAlongLine(line, 0.5)).toEqual([1, 1]);
+    expect(interpolateAlongLine(line, 1)).toEqual([1, 3]);
+    expect(interpolateAlongLine([[2, 2]], 0.5)).toEqual([2, 2]);
+  });
+});
+
+describe('sliceLine', () => {
+  it('should keep the vertices between the two fractions', () => {
+    const line = [[0, 0], [1, 0], [1, 3]];
+
+    expect(sliceLine(line, 0.125, 0.5)).toEqual([[0.5, 0], [1, 0], [1, 1]]);
+    expect(sliceLine(line, 0.5, 1)).toEqual([[1, 1], [1, 3]]);
+  });
+});
+
+describe('routeStops', () => {
+  it('should leave out the depots and the returns to the depot', () => {
+    const locations = ['depot', 'a', 'b', 'reload', 'c', 'home'].map(id => ({
+      id,
+      address: id,
+      depotReturnOf: id === 'reload' ? 'depot' : undefined,
+    }));
+
+    expect(routeStops(locations, ['depot', 'home']).map(loc => loc.id)).toEqual(['a', 'b', 'c']);
+    expect(routeStops(locations, [undefined]).map(loc => loc.id)).toEqual(['depot', 'a', 'b', 'c', 'home']);
+  });
+});
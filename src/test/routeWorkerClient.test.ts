@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RouteWorkerClient } from '../services/routeWorkerClient';
+import { freeRoutingService } from '../services/freeRoutingService';
+import {
+  RouteOptimizationRequest,
+  RouteOptimizationResponse,
+  OptimizationWorkerRequest,
+  OptimizationWorkerResponse,
+} from '../types';
+
+const request: RouteOptimizationRequest = {
+  locations: [],
+  vehicleType: 'car',
+  optimizationMethod: 'balanced',
+  isLoop: false,
+};
+
+const response: RouteOptimizationResponse = {
+  route: {
+    id: 'route_test',
+    locations: [],
+    totalDistance: 0,
+    totalDuration: 0,
+    vehicleType: 'car',
+    isLoop: false,
+    optimizationMethod: 'balanced',
+    segments: [],
+  },
+  metadata: { calculationTime: 0, algorithm: 'trivial', apiProvider: 'nominatim+osrm' },
+};
+
+// Minimal worker answering each request with one progress event then a result
+class FakeWorker {
+  static received: OptimizationWorkerRequest[] = [];
+  onmessage: ((event: MessageEvent<OptimizationWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(message: OptimizationWorkerRequest) {
+    FakeWorker.received.push(message);
+    if (message.type !== 'calculate') return;
+    const reply = (data: OptimizationWorkerResponse) =>
+      this.onmessage?.({ data } as MessageEvent<OptimizationWorkerResponse>);
+    setTimeout(() => {
+      reply({ type: 'progress', id: message.id, progress: { phase: 'matrix', completed: 1, total: 1 } });
+      reply({ type: 'result', id: message.id, response });
+    });
+  }
+
+  terminate() {}
+}
+
+describe('RouteWorkerClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    FakeWorker.received = [];
+  });
+
+  it('should post a typed request and relay progress events', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const onProgress = vi.fn();
+    const client = new RouteWorkerClient();
+
+    await expect(client.calculateRoute({ ...request, onProgress })).resolves.toEqual(response);
+
+    expect(FakeWorker.received).toHaveLength(1);
+    const [message] = FakeWorker.received;
+    expect(message.type).toBe('calculate');
+    expect(message.type === 'calculate' && message.request).not.toHaveProperty('onProgress');
+    expect(onProgress).toHaveBeenCalledWith({ phase: 'matrix', completed: 1, total: 1 });
+  });
+
+  it('should send a cancel message and reject when aborted', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const controller = new AbortController();
+    const client = new RouteWorkerClient();
+
+    const pending = client.calculateRoute({ ...request, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(FakeWorker.received.map(message => message.type)).toEqual(['calculate', 'cancel']);
+    expect(FakeWorker.received[0]).not.toHaveProperty('request.signal');
+  });
+
+  it('should fall back to the main thread when workers are unavailable', async () => {
+    vi.stubGlobal('Worker', undefined);
+    const calculateRoute = vi.spyOn(freeRoutingService, 'calculateRoute').mockResolvedValue(response);
+    const onProgress = vi.fn();
+    const client = new RouteWorkerClient();
+
+    await expect(client.calculateRoute({ ...request, onProgress })).resolves.toBe(response);
+    expect(calculateRoute).toHaveBeenCalledWith(expect.objectContaining({ onProgress }));
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeSchedule,
+  createScheduleEvaluator,
+  formatPlannedTime,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  parseTimeWindow,
+  LATENESS_PENALTY,
+} from '../utils/schedule';
+
+describe('time of day helpers', () => {
+  it('should parse and format HH:MM values', () => {
+    expect(parseTimeOfDay('08:30')).toBe(510);
+    expect(parseTimeOfDay('7:05')).toBe(425);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('abc')).toBeNull();
+    expect(formatTimeOfDay(510)).toBe('08:30');
+    expect(formatTimeOfDay(1445)).toBe('00:05');
+  });
+
+  it('should show the day of planned times after the departure day', () => {
+    expect(formatPlannedTime(850, '2026-10-19')).toBe('14:10');
+    expect(formatPlannedTime(1440 + 495, '2026-10-31')).toBe('01/11 08:15');
+    expect(formatPlannedTime(2 * 1440 + 30)).toBe('J+2 00:30');
+  });
+
+  it('should ignore malformed or reversed windows', () => {
+    expect(parseTimeWindow({ start: '08:00', end: '10:30' })).toEqual({ start: 480, end: 630 });
+    expect(parseTimeWindow({ start: '12:00', end: '10:00' })).toBeUndefined();
+    expect(parseTimeWindow(undefined)).toBeUndefined();
+  });
+});
+
+describe('computeSchedule', () => {
+  it('should wait for windows to open and report lateness', () => {
+    const schedule = computeSchedule(
+      [{}, { window: { start: 540, end: 600 } }, { window: { start: 480, end: 500 } }],
+      [30, 20],
+      480
+    );
+
+    expect(schedule.stops[0]).toMatchObject({ arrivalTime: 480, waitTime: 0, lateness: 0 });
+    // Arrivée 08:30, attente jusqu'à 09:00
+    expect(schedule.stops[1]).toMatchObject({ arrivalTime: 510, waitTime: 30, departureTime: 540 });
+    // Arrivée 09:20 pour un créneau fermé à 08:20
+    expect(schedule.stops[2]).toMatchObject({ arrivalTime: 560, lateness: 60 });
+    expect(schedule.totalWaitTime).toBe(30);
+    expect(schedule.totalLateness).toBe(60);
+    expect(schedule.endTime).toBe(560);
+  });
+
+  it('should include service duration and the return leg of loops', () => {
+    const schedule = computeSchedule([{ serviceDuration: 10 }, { serviceDuration: 15 }], [20, 25], 480);
+
+    expect(schedule.stops[1]).toMatchObject({ arrivalTime: 510, departureTime: 525 });
+    expect(schedule.endTime).toBe(550);
+  });
+
+  it('should delay arrivals by the mandatory breaks when driving rules apply', () => {
+    const schedule = computeSchedule([{}, { serviceDuration: 30 }, {}], [200, 200], 480, true);
+
+    // 200 + 70 min de conduite avant la pause de 45 min, pendant le second trajet
+    expect(schedule.stops[1].arrivalTime).toBe(680);
+    expect(schedule.stops[2].arrivalTime).toBe(710 + 200 + 45);
+    expect(schedule.rests).toEqual([expect.objectContaining({ type: 'break', legIndex: 1, legOffset: 70 })]);
+    expect(schedule.totalRestTime).toBe(45);
+  });
+
+  it('should stop for the night on the road once the working day is full', () => {
+    const schedule = computeSchedule([{}, { serviceDuration: 60 }, {}], [400, 300], 480, false, 600);
+
+    // 400 + 60 min le premier jour, il reste 140 min de conduite avant la nuit
+    expect(schedule.overnights).toEqual([{ legIndex: 1, legOffset: 140, startTime: 1080, duration: 840 }]);
+    expect(schedule.stops[2].arrivalTime).toBe(1920 + 160);
+  });
+
+  it('should postpone the time on site to the next day when it does not fit', () => {
+    const schedule = computeSchedule([{}, { serviceDuration: 60 }, {}], [550, 100], 480, false, 600);
+
+    expect(schedule.overnights).toEqual([{ legIndex: 0, legOffset: 550, startTime: 1030, duration: 890 }]);
+    expect(schedule.stops[1]).toMatchObject({ arrivalTime: 1030, departureTime: 1980 });
+    expect(schedule.stops[2].arrivalTime).toBe(2080);
+  });
+
+  it('should spread time on site longer than the working day over several days', () => {
+    const schedule = computeSchedule([{}, { serviceDuration: 700 }, {}], [60, 60], 480, false, 600);
+
+    // 540 min sur place le premier jour, les 160 restantes le lendemain matin
+    expect(schedule.overnights).toEqual([{ legIndex: 0, legOffset: 60, startTime: 1080, duration: 840 }]);
+    expect(schedule.stops[1]).toMatchObject({ arrivalTime: 540, serviceStart: 540, departureTime: 2080 });
+    expect(schedule.stops[2].arrivalTime).toBe(2140);
+  });
+});
+
+describe('createScheduleEvaluator', () => {
+  it('should penalize late orders above any travel saving', () => {
+    const costs = [
+      [0, 1, 10],
+      [1, 0, 1],
+      [10, 1, 0],
+    ];
+    const stops = [{}, {}, { window: { start: 480, end: 485 } }];
+    const evaluate = createScheduleEvaluator(costs, costs, stops, 480, false, 0);
+
+    expect(evaluate([0, 1, 2])).toBe(2);
+    expect(evaluate([0, 2, 1])).toBe(11 + LATENESS_PENALTY * 5);
+    expect(evaluate([2, 0, 1])).toBe(11);
+  });
+
+  it('should count the nights of the return leg of a loop planned over several days', () => {
+    const costs = [
+      [0, 300, 400],
+      [300, 0, 200],
+      [400, 200, 0],
+    ];
+    const evaluate = createScheduleEvaluator(costs, costs, [{}, {}, {}], 480, true, 1, false, 600);
+
+    // 300 + 200 min le premier jour : le retour de 400 min finit le lendemain
+    expect(evaluate([0, 1, 2])).toBe(900 + 840);
+  });
+});
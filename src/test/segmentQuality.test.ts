@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { estimatedSegmentsWarning, routeDataQuality } from '../utils/segmentQuality';
+import { RouteSegment, SegmentConfidence, SegmentSource } from '../types';
+
+const segment = (source: SegmentSource, confidence: SegmentConfidence, distance = 10): RouteSegment => ({
+  from: { id: 'a', address: 'A' },
+  to: { id: 'b', address: 'B' },
+  distance,
+  duration: 10,
+  instructions: [],
+  polyline: { type: 'LineString', coordinates: [] },
+  source,
+  confidence,
+});
+
+describe('routeDataQuality', () => {
+  it('should count the estimated segments and their distance', () => {
+    const quality = routeDataQuality({
+      segments: [segment('osrm', 'high', 12), segment('estimated', 'low', 5), segment('estimated', 'low', 3)],
+    });
+
+    expect(quality).toEqual({ estimatedSegments: 2, estimatedDistance: 8, confidence: 'low' });
+  });
+
+  it('should keep the lowest confidence of the segments', () => {
+    const quality = routeDataQuality({ segments: [segment('cache', 'high'), segment('osrm', 'medium')] });
+
+    expect(quality.confidence).toBe('medium');
+  });
+});
+
+describe('estimatedSegmentsWarning', () => {
+  it('should be null when every segment was routed', () => {
+    expect(estimatedSegmentsWarning({ segments: [segment('ors', 'high'), segment('cache', 'high')] })).toBeNull();
+  });
+
+  it('should count the estimated segments', () => {
+    expect(estimatedSegmentsWarning({ segments: [segment('estimated', 'low')] }))
+      .toBe('1 segment estimé — distance approximative');
+    expect(estimatedSegmentsWarning({ segments: [segment('estimated', 'low'), segment('osrm', 'high'), segment('estimated', 'low'), segment('estimated', 'low')] }))
+      .toBe('3 segments estimés — distance approximative');
+  });
+});
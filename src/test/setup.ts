@@ -1,4 +1,6 @@
 import { vi, beforeEach, afterEach } from 'vitest';
+import { requestScheduler } from '../services/requestScheduler';
+import { config } from '../config';
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -28,6 +30,11 @@ Object.defineProperty(window, 'localStorage', {
 // Mock fetch for API tests
 global.fetch = vi.fn();
 
+// Servers are mocked: no usage policy to honor, tests run without rate limits
+requestScheduler.configure({ hosts: {}, defaultLimit: { minIntervalMs: 0, maxConcurrent: Infinity } });
+// Retries still happen, without waiting
+config.resilience.retry = { ...config.resilience.retry, baseDelayMs: 0, maxDelayMs: 0 };
+
 // Reset mocks between tests
 beforeEach(() => {
   vi.clearAllMocks();
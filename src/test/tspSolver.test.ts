@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { solveHeldKarp, HELD_KARP_MAX_NODES } from '../utils/tspSolver';
+
+// Deterministic pseudo-random asymmetric matrix
+const createMatrix = (size: number, seed = 1): number[][] => {
+  let state = seed;
+  const random = () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+  return Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i === j ? 0 : Math.round(random() * 100) + 1))
+  );
+};
+
+const pathCost = (order: number[], costs: number[][], isLoop: boolean): number => {
+  let total = 0;
+  for (let i = 0; i < order.length - 1; i++) {
+    total += costs[order[i]][order[i + 1]];
+  }
+  if (isLoop && order.length > 1) {
+    total += costs[order[order.length - 1]][order[0]];
+  }
+  return total;
+};
+
+const permutations = (items: number[]): number[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations(items.filter((_, i) => i !== index)).map(rest => [item, ...rest])
+  );
+};
+
+// Brute force reference for small matrices
+const bruteForce = (
+  costs: number[][],
+  isLoop: boolean,
+  filter: (order: number[]) => boolean = () => true
+): number => {
+  const indices = costs.map((_, i) => i);
+  return Math.min(
+    ...permutations(indices).filter(filter).map(order => pathCost(order, costs, isLoop))
+  );
+};
+
+describe('solveHeldKarp', () => {
+  it('should handle empty and single-node matrices', () => {
+    expect(solveHeldKarp([], { isLoop: false }).order).toEqual([]);
+    expect(solveHeldKarp([[0]], { isLoop: true }).order).toEqual([0]);
+  });
+
+  it('should find the optimal open path', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const costs = createMatrix(6, seed);
+      const solution = solveHeldKarp(costs, { isLoop: false });
+
+      expect(solution.cost).toBe(bruteForce(costs, false));
+      expect(pathCost(solution.order, costs, false)).toBe(solution.cost);
+      expect(solution.isOptimal).toBe(true);
+    }
+  });
+
+  it('should find the optimal loop starting from the first node', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const costs = createMatrix(7, seed);
+      const solution = solveHeldKarp(costs, { isLoop: true });
+
+      expect(solution.order[0]).toBe(0);
+      expect(solution.cost).toBe(bruteForce(costs, true));
+      expect(pathCost(solution.order, costs, true)).toBe(solution.cost);
+    }
+  });
+
+  it('should respect a fixed start and end on open paths', () => {
+    const costs = createMatrix(6, 42);
+    const solution = solveHeldKarp(costs, { isLoop: false, startIndex: 2, endIndex: 4 });
+
+    expect(solution.order[0]).toBe(2);
+    expect(solution.order[solution.order.length - 1]).toBe(4);
+    expect(solution.cost).toBe(
+      bruteForce(costs, false, order => order[0] === 2 && order[order.length - 1] === 4)
+    );
+  });
+
+  it('should visit every node exactly once', () => {
+    const costs = createMatrix(HELD_KARP_MAX_NODES, 7);
+    const solution = solveHeldKarp(costs, { isLoop: false });
+
+    expect([...solution.order].sort((a, b) => a - b)).toEqual(costs.map((_, i) => i));
+  });
+
+  it('should beat or match any sampled order', () => {
+    const costs = createMatrix(10, 3);
+    const solution = solveHeldKarp(costs, { isLoop: true });
+    const identity = costs.map((_, i) => i);
+
+    expect(solution.cost).toBeLessThanOrEqual(pathCost(identity, costs, true));
+  });
+
+  it('should visit constrained nodes in order at the lowest cost', () => {
+    const costs = createMatrix(7, 11);
+    const precedences: [number, number][] = [[5, 1], [3, 2]];
+    const solution = solveHeldKarp(costs, { isLoop: true, precedences });
+    const respects = (order: number[]) =>
+      order[0] === 0 && precedences.every(([before, after]) => order.indexOf(before) < order.indexOf(after));
+
+    expect(respects(solution.order)).toBe(true);
+    expect(solution.cost).toBe(bruteForce(costs, true, respects));
+  });
+
+  it('should reject precedences that no order can satisfy', () => {
+    expect(() => solveHeldKarp(createMatrix(4), { isLoop: false, precedences: [[1, 2], [2, 1]] })).toThrow();
+  });
+
+  it('should reject matrices above the size limit', () => {
+    expect(() => solveHeldKarp(createMatrix(HELD_KARP_MAX_NODES + 1), { isLoop: false })).toThrow();
+  });
+});
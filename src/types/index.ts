@@ -12,6 +12,12 @@ export interface GeoJSONLineString {
  */
 export type RouteGeometry = GeoJSONLineString | null;
 
+/**
+ * Where a locked location stays in the visiting order: first (start depot),
+ * last (final destination) or at its `order` index
+ */
+export type LockPosition = 'start' | 'end' | 'fixed';
+
 export interface Location {
   id: string;
   address: string;
@@ -20,21 +26,135 @@ export interface Location {
     longitude: number;
   };
   isLocked?: boolean;
-  lockPosition?: 'start' | 'end' | 'fixed';
+  lockPosition?: LockPosition; // Only read when locked, 'fixed' by default
   order?: number;
+  timeWindow?: TimeWindow; // Accepted delivery slot
+  serviceDuration?: number; // Minutes on site (unloading), overrides the route default
+  demand?: LoadDemand; // Goods delivered at this stop
+  pickupId?: string; // Delivery of a pickup/delivery pair: id of the location where its goods are collected
+  depotReturnOf?: string; // Set on the depot copies inserted between trips (id of the depot)
+}
+
+/**
+ * Quantity of goods, per load dimension; also used for vehicle capacities
+ * (a dimension left undefined is not limited)
+ */
+export interface LoadDemand {
+  weight?: number; // in kilograms
+  volume?: number; // in cubic meters
+  pallets?: number;
+}
+
+/**
+ * What to do when the stops exceed the vehicle capacity:
+ * go back to the depot to reload, or leave the stops that do not fit
+ */
+export type CapacityStrategy = 'multiple_trips' | 'skip_stops';
+
+/**
+ * Delivery slot in local time, "HH:MM" format
+ */
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Planned times at a stop, in minutes since midnight of the departure day
+ */
+export interface ScheduledStop {
+  locationId: string;
+  arrivalTime: number;
+  waitTime: number; // Waiting for the time window to open
+  departureTime: number;
+  lateness: number; // Minutes after the end of the time window
+  serviceDuration: number; // Minutes on site
+  cumulativeDistance: number; // km driven from the start of the route to this stop
+}
+
+/**
+ * Mandatory rest inserted into a truck route (EU driving time rules)
+ */
+export interface RouteBreak {
+  type: 'break' | 'daily_rest';
+  segmentIndex: number; // Taken while driving this segment
+  startTime: number; // Minutes since midnight of the departure day
+  duration: number; // in minutes
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  }; // Estimated position along the segment
+}
+
+/**
+ * Part of a segment driven on one day, as fractions (0..1) of its duration
+ */
+export interface RouteDayLeg {
+  segmentIndex: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * One working day of a multi-day route
+ */
+export interface RouteDay {
+  startTime: number; // Minutes since midnight of the departure day
+  endTime: number; // Arrival at the overnight stop, or end of the route on the last day
+  legs: RouteDayLeg[]; // A segment interrupted by the night is split across two days
+  stopIds: string[]; // Locations served this day, in visiting order
+  distance: number; // km driven this day
+  workTime: number; // Driving plus time on site, in minutes
+  overnight?: {
+    segmentIndex: number; // Stopped on this segment (at its end when the day ends at a stop)
+    coordinates?: {
+      latitude: number;
+      longitude: number;
+    }; // Suggested stop along the segment
+  }; // Every day but the last
+}
+
+export interface UnservedLocation {
+  location: Location;
+  reason: 'time_window' | 'shift_duration' | 'capacity';
 }
 
 export interface Route {
   id: string;
   locations: Location[];
   totalDistance: number; // in kilometers
-  totalDuration: number; // in minutes
+  totalDuration: number; // in minutes, driving plus time on site and mandatory breaks
   vehicleType: VehicleType;
   isLoop: boolean;
   segments: RouteSegment[];
   optimizationMethod: OptimizationMethod;
+  departureTime?: string; // "HH:MM"
+  departureDate?: string; // "YYYY-MM-DD", planned day of departure
+  schedule?: ScheduledStop[]; // Same order as locations
+  returnTime?: number; // Loops only: arrival back at the start, minutes since midnight of the departure day
+  maxWorkingDay?: number; // Multi-day route: working minutes per day (driving plus time on site)
+  days?: RouteDay[]; // Multi-day route only, in driving order
+  totalWaitTime?: number; // in minutes
+  totalServiceTime?: number; // in minutes, time on site included in totalDuration
+  breaks?: RouteBreak[]; // Trucks only, in driving order
+  totalBreakTime?: number; // in minutes, included in totalDuration
+  unservedLocations?: UnservedLocation[]; // Stops left out of the route
+  capacity?: LoadDemand; // Vehicle capacity the route was planned with
+  loads?: LoadDemand[]; // Load on board when leaving each location, same order as locations
+  tripCount?: number; // Number of trips from the depot (more than 1 when reloading)
+  restrictionsVerified?: boolean; // Trucks only: false when a segment fell back to car routing
+  avoidance?: RouteAvoidance; // Only when tolls or highways are avoided
+  costSettings?: CostSettings; // Cost rates set by the user when the route was planned
+  objectiveWeights?: ObjectiveWeights; // Balanced routes only
+  alternativeKind?: RouteAlternativeKind; // Only on the alternative routes of a response
 }
 
+/**
+ * How an alternative route differs from the proposed one: the stop order found by
+ * another optimization method, or the same order on other roads
+ */
+export type RouteAlternativeKind = 'stop_order' | 'roads';
+
 export interface RouteSegment {
   from: Location;
   to: Location;
@@ -42,11 +162,72 @@ export interface RouteSegment {
   duration: number; // in minutes
   instructions: string[];
   polyline: RouteGeometry; // GeoJSON geometry object for actual route traces
+  restrictionsVerified?: boolean; // Routed with the truck profile (OpenRouteService driving-hgv)
+  avoidanceApplied?: boolean; // Set when tolls/highways must be avoided: false if the server could not
+  tollDistance?: number; // km on toll roads, only when the routing backend reports it
+  source: SegmentSource;
+  confidence: SegmentConfidence;
+}
+
+/**
+ * Where the distance and duration of a segment come from: a routing backend,
+ * the cache (routed earlier) or a straight-line estimate when no backend answered
+ */
+export type SegmentSource = 'osrm' | 'ors' | 'valhalla' | 'graphhopper' | 'cache' | 'estimated';
+
+/**
+ * high: routed with the full vehicle profile; medium: routed without the truck
+ * profile or the requested avoidance; low: straight-line estimate
+ */
+export type SegmentConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Avoided road types of a route and what avoiding them costs
+ */
+export interface RouteAvoidance {
+  tolls: boolean;
+  highways: boolean;
+  applied: boolean; // False when a segment was calculated without avoidance
+  extraDistance?: number; // in kilometers, compared with the same stops without avoidance
+  extraDuration?: number; // in minutes, driving only
 }
 
 export type VehicleType = 'car' | 'truck';
 
-export type OptimizationMethod = 'shortest_distance' | 'fastest_time' | 'balanced';
+/**
+ * Dimensions and load of a truck, sent to the routing engine so that
+ * low bridges, narrow streets and weight limits are avoided
+ */
+export interface TruckProfile {
+  height?: number; // in meters
+  width?: number; // in meters
+  length?: number; // in meters
+  weight?: number; // Gross weight, in tonnes
+  axleLoad?: number; // in tonnes
+  hazmat?: boolean; // Dangerous goods on board
+}
+
+export type OptimizationMethod = 'shortest_distance' | 'fastest_time' | 'balanced' | 'lowest_cost';
+
+/**
+ * Operating cost rates set by the user; missing values use the defaults of the vehicle type
+ */
+export interface CostSettings {
+  fuelPrice?: number; // €/L
+  fuelPer100Km?: number; // Liters per 100 km
+  hourlyCost?: number; // Driver wage, €/h
+  wearPerKm?: number; // Tyres, maintenance and depreciation, €/km
+}
+
+/**
+ * Relative importance of each criterion for the balanced method, normalized on use
+ */
+export interface ObjectiveWeights {
+  distance: number;
+  time: number;
+  cost: number; // Operating cost, with the cost rates of the vehicle
+  emissions: number; // CO2, in proportion to the fuel burnt
+}
 
 export interface UploadedFile {
   name: string;
@@ -64,21 +245,150 @@ export interface MapSettings {
   style: 'streets' | 'satellite' | 'terrain';
 }
 
+/**
+ * Where a single-vehicle route ends: back at the start (loop), at a dedicated
+ * address (`endLocation`), or wherever the last stop is
+ */
+export type ArrivalMode = 'return_to_start' | 'end_depot' | 'last_stop';
+
 export interface RouteOptimizationRequest {
   locations: Location[];
+  startLocation?: Location; // Departure depot, in addition to `locations`
+  endLocation?: Location; // Final destination of an open route (home, second warehouse); ignored for loops
   vehicleType: VehicleType;
+  truckProfile?: TruckProfile; // Only used for trucks
   isLoop: boolean;
   optimizationMethod: OptimizationMethod;
-  avoidTolls?: boolean;
-  avoidHighways?: boolean;
+  avoidTolls?: boolean; // OSRM `exclude=toll`, ORS `avoid_features: tollways`
+  avoidHighways?: boolean; // OSRM `exclude=motorway`, ORS `avoid_features: highways`
+  departureTime?: string; // "HH:MM", defaults to 08:00
+  departureDate?: string; // "YYYY-MM-DD", only used to date the planned times
+  maxWorkingDay?: number; // Minutes of driving plus time on site per day; splits the route into days
+  defaultServiceDuration?: number; // Minutes on site for stops without their own value
+  costSettings?: CostSettings; // Cost rates of the vehicle, used by lowest_cost and the cost breakdown
+  objectiveWeights?: ObjectiveWeights; // Balanced method only, defaults to 40 % distance and 60 % time
+  vehicleCapacity?: LoadDemand; // No capacity constraint when undefined
+  capacityStrategy?: CapacityStrategy; // Defaults to multiple_trips; the depot is the start location (or the first one)
+  alternatives?: boolean; // Also look for alternative routes, defaults to true
+  onProgress?: (progress: OptimizationProgress) => void; // Not sent to the worker
+  signal?: AbortSignal; // Cancels network calls and optimization; not sent to the worker
+}
+
+export type OptimizationPhase = 'validation' | 'matrix' | 'optimization' | 'segments';
+
+/**
+ * Progress event emitted while a route is being calculated
+ */
+export interface OptimizationProgress {
+  phase: OptimizationPhase;
+  completed?: number; // Matrix blocks or segments done
+  total?: number;
+  iterations?: number; // Improving moves applied by the local search
+  bestScore?: number;
+}
+
+/**
+ * Road distance/duration matrix between every pair of locations.
+ * Cells that could not be fetched from the routing API are filled with
+ * a straight-line estimate and counted in `estimatedPairs`.
+ */
+export interface DistanceMatrix {
+  indexById: Record<string, number>; // Location id -> row/column index
+  distances: number[][]; // in kilometers
+  durations: number[][]; // in minutes
+  estimatedPairs: number;
+  requestCount: number; // Number of /table calls needed to build the matrix
 }
 
 export interface RouteOptimizationResponse {
   route: Route;
-  alternativeRoutes?: Route[];
+  alternativeRoutes?: Route[]; // Distinct candidates the user can pick instead of `route`
   metadata: {
     calculationTime: number;
     algorithm: string;
     apiProvider: string;
+    isOptimal?: boolean; // Order proven optimal by the exact solver
+    localSearch?: {
+      initialScore: number; // Score of the construction heuristic tour
+      finalScore: number;
+      improvementPercent: number;
+      iterations: number;
+      timedOut: boolean;
+    };
   };
 }
+
+/**
+ * Vehicle of a fleet, leaving from its own depot
+ */
+export interface FleetVehicle {
+  id: string;
+  name: string;
+  vehicleType: VehicleType;
+  startLocation: Location;
+  endLocation?: Location; // Defaults to the start depot (round trip)
+  maxShiftDuration?: number; // in minutes, driving + waiting + time on site
+  capacity?: LoadDemand; // Single trip: stops that do not fit are unserved
+}
+
+export interface FleetOptimizationRequest {
+  vehicles: FleetVehicle[];
+  locations: Location[]; // Stops to split across the fleet (depots excluded)
+  truckProfile?: TruckProfile; // Applied to the trucks of the fleet
+  optimizationMethod: OptimizationMethod;
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  departureTime?: string; // "HH:MM", defaults to 08:00
+  departureDate?: string; // "YYYY-MM-DD"
+  defaultServiceDuration?: number;
+  costSettings?: Partial<Record<VehicleType, CostSettings>>; // Per vehicle type
+  objectiveWeights?: ObjectiveWeights; // Balanced method only
+  onProgress?: (progress: OptimizationProgress) => void; // Not sent to the worker
+  signal?: AbortSignal; // Not sent to the worker
+}
+
+export interface FleetRoute {
+  vehicle: FleetVehicle;
+  route?: Route; // Undefined when no stop was assigned to the vehicle
+}
+
+export interface FleetOptimizationResponse {
+  routes: FleetRoute[]; // One entry per vehicle, in request order
+  unservedLocations: UnservedLocation[];
+  metadata: {
+    calculationTime: number;
+    algorithm: string;
+    apiProvider: string;
+  };
+}
+
+/**
+ * Counters of the HTTP request scheduler, per host and in total
+ */
+export interface HostRequestStats {
+  queued: number;
+  inFlight: number;
+  completed: number;
+  failed: number;
+  deduplicated: number; // Requests answered by an identical request already pending
+}
+
+export interface RequestSchedulerStats extends HostRequestStats {
+  hosts: Record<string, HostRequestStats>;
+}
+
+/**
+ * Messages exchanged with the route optimization worker
+ */
+export type OptimizationWorkerRequest =
+  | { type: 'calculate'; id: number; request: Omit<RouteOptimizationRequest, 'onProgress' | 'signal'> }
+  | { type: 'calculateFleet'; id: number; request: Omit<FleetOptimizationRequest, 'onProgress' | 'signal'> }
+  | { type: 'recalculateEstimated'; id: number; request: Omit<RouteOptimizationRequest, 'onProgress' | 'signal'>; route: Route }
+  | { type: 'cancel'; id: number };
+
+export type OptimizationWorkerResponse =
+  | { type: 'progress'; id: number; progress: OptimizationProgress }
+  | { type: 'result'; id: number; response: RouteOptimizationResponse }
+  | { type: 'fleetResult'; id: number; response: FleetOptimizationResponse }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'requestStats'; stats: RequestSchedulerStats }; // Requests of the worker's own scheduler
@@ -0,0 +1,27 @@
+/**
+ * Helpers for cancelling a route calculation with an AbortSignal
+ */
+
+export const CALCULATION_ABORTED_MESSAGE = 'Calcul annulé par l\'utilisateur';
+
+/**
+ * Create an error recognized as an abort (same `name` as fetch abort errors)
+ */
+export function createAbortError(): Error {
+  const error = new Error(CALCULATION_ABORTED_MESSAGE);
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Throw an abort error when the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
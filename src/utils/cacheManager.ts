@@ -1,6 +1,8 @@
 // Cache management for route calculations and user preferences
-import { Route, RouteOptimizationRequest } from '../types/index';
+import { Route, RouteOptimizationRequest, LoadDemand, CapacityStrategy, TruckProfile, ArrivalMode, Location, OptimizationMethod, CostSettings, ObjectiveWeights } from '../types/index';
 import { cacheLogger as logger } from './logger';
+import { getLockPosition } from './lockPosition';
+import { resolveObjectiveWeights } from './objective';
 
 // Cache pour les routes calculées
 const routeCache = new Map<string, { route: Route, timestamp: number }>();
@@ -11,19 +13,62 @@ const PREFERENCES_KEY = 'routeOptimizer_preferences';
 
 export interface UserPreferences {
   vehicleType: 'car' | 'truck';
-  optimizationMethod: 'shortest_distance' | 'fastest_time' | 'balanced';
+  optimizationMethod: OptimizationMethod;
   isLoop: boolean;
+  arrivalMode?: ArrivalMode; // Supersedes isLoop, kept for older preferences
+  startDepot?: Location;
+  endDepot?: Location;
   autoSaveLocations: boolean;
   darkMode?: boolean;
+  departureTime?: string; // "HH:MM"
+  maxWorkingDay?: number; // Minutes per day when planning over several days
+  defaultServiceDuration?: number; // Minutes on site per stop
+  vehicleCapacities?: Record<'car' | 'truck', LoadDemand>;
+  capacityStrategy?: CapacityStrategy;
+  truckProfile?: TruckProfile;
+  costSettings?: Record<'car' | 'truck', CostSettings>;
+  objectiveWeights?: ObjectiveWeights; // Balanced method
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+}
+
+function formatLoadKey(load: LoadDemand): string {
+  return `${load.weight ?? ''}/${load.volume ?? ''}/${load.pallets ?? ''}`;
 }
 
 // Génère une clé de cache pour une requête de route
 export function generateRouteKey(request: RouteOptimizationRequest): string {
   const locationIds = request.locations
-    .map(loc => `${loc.coordinates?.latitude?.toFixed(4)}_${loc.coordinates?.longitude?.toFixed(4)}`)
+    .map(loc => {
+      const window = loc.timeWindow ? `@${loc.timeWindow.start}-${loc.timeWindow.end}` : '';
+      const service = loc.serviceDuration !== undefined ? `~${loc.serviceDuration}` : '';
+      const demand = loc.demand ? `#${formatLoadKey(loc.demand)}` : '';
+      const pickup = loc.pickupId ? `<${request.locations.findIndex(other => other.id === loc.pickupId)}` : '';
+      const lockPosition = getLockPosition(loc);
+      const lock = lockPosition ? `!${lockPosition}${lockPosition === 'fixed' ? loc.order ?? '' : ''}` : '';
+      return `${loc.coordinates?.latitude?.toFixed(4)}_${loc.coordinates?.longitude?.toFixed(4)}${window}${service}${demand}${pickup}${lock}`;
+    })
     .join('-');
   
-  return `${locationIds}_${request.vehicleType}_${request.optimizationMethod}_${request.isLoop}`;
+  const capacity = request.vehicleCapacity ? `_${formatLoadKey(request.vehicleCapacity)}_${request.capacityStrategy ?? 'multiple_trips'}` : '';
+  const profile = request.truckProfile;
+  const truck = request.vehicleType === 'truck' && profile
+    ? `_${profile.height ?? ''}x${profile.width ?? ''}x${profile.length ?? ''}/${profile.weight ?? ''}/${profile.axleLoad ?? ''}${profile.hazmat ? '/adr' : ''}`
+    : '';
+  const avoid = request.avoidTolls || request.avoidHighways
+    ? `_avoid${request.avoidTolls ? '-toll' : ''}${request.avoidHighways ? '-motorway' : ''}`
+    : '';
+  const days = request.maxWorkingDay ? `_day${request.maxWorkingDay}` : '';
+  const objective = resolveObjectiveWeights(request);
+  const weights = request.optimizationMethod === 'balanced'
+    ? `_obj${[objective.distance, objective.time, objective.cost, objective.emissions].map(weight => weight.toFixed(3)).join('/')}`
+    : '';
+  // Les taux de coût ne changent l'ordre que lorsque le coût ou les émissions comptent
+  const rates = request.costSettings;
+  const cost = (objective.cost > 0 || objective.emissions > 0) && rates
+    ? `_cost${rates.fuelPrice ?? ''}/${rates.fuelPer100Km ?? ''}/${rates.hourlyCost ?? ''}/${rates.wearPerKm ?? ''}`
+    : '';
+  return `${locationIds}_${request.vehicleType}_${request.optimizationMethod}_${request.isLoop}_${request.departureTime ?? ''}_${request.defaultServiceDuration ?? 0}${capacity}${truck}${avoid}${days}${weights}${cost}`;
 }
 
 // Nettoie le cache des routes expirées
@@ -0,0 +1,196 @@
+/**
+ * Vehicle capacity helpers (weight, volume, pallets)
+ * Trips are split on a fixed visiting order; the first stop of the order is the depot.
+ */
+
+import { LoadDemand, Location, VehicleType } from '../types/index.ts';
+
+export const LOAD_DIMENSIONS = ['weight', 'volume', 'pallets'] as const;
+
+export type LoadDimension = typeof LOAD_DIMENSIONS[number];
+
+export const LOAD_UNITS: Record<LoadDimension, string> = {
+  weight: 'kg',
+  volume: 'm³',
+  pallets: 'pal.',
+};
+
+// Capacité proposée par défaut pour chaque profil de véhicule
+export const DEFAULT_VEHICLE_CAPACITIES: Record<VehicleType, LoadDemand> = {
+  car: { weight: 500, volume: 3 },
+  truck: { weight: 12000, volume: 50, pallets: 18 },
+};
+
+// Ignore floating point noise when comparing loads
+const EPSILON = 1e-9;
+
+export function addLoads(a: LoadDemand | undefined, b: LoadDemand | undefined): LoadDemand {
+  const total: LoadDemand = {};
+  LOAD_DIMENSIONS.forEach(dimension => {
+    const value = (a?.[dimension] ?? 0) + (b?.[dimension] ?? 0);
+    if (value !== 0) total[dimension] = value;
+  });
+  return total;
+}
+
+export function subtractLoads(a: LoadDemand | undefined, b: LoadDemand | undefined): LoadDemand {
+  const negated: LoadDemand = {};
+  LOAD_DIMENSIONS.forEach(dimension => {
+    if (b?.[dimension]) negated[dimension] = -b[dimension]!;
+  });
+  return addLoads(a, negated);
+}
+
+export function hasDemand(demand?: LoadDemand): boolean {
+  return LOAD_DIMENSIONS.some(dimension => (demand?.[dimension] ?? 0) > 0);
+}
+
+/**
+ * Check a load against a capacity; dimensions without a capacity are not limited
+ */
+export function fitsCapacity(load: LoadDemand | undefined, capacity?: LoadDemand): boolean {
+  if (!capacity) return true;
+  return LOAD_DIMENSIONS.every(dimension => {
+    const limit = capacity[dimension];
+    return limit === undefined || (load?.[dimension] ?? 0) <= limit + EPSILON;
+  });
+}
+
+/**
+ * Fill rate of the most constrained dimension (1 = full)
+ */
+export function loadRatio(load: LoadDemand | undefined, capacity?: LoadDemand): number {
+  if (!capacity) return 0;
+  return Math.max(0, ...LOAD_DIMENSIONS.map(dimension => {
+    const limit = capacity[dimension];
+    return limit ? (load?.[dimension] ?? 0) / limit : 0;
+  }));
+}
+
+/**
+ * Stop as seen by the load computation. The delivery of a pickup/delivery pair
+ * gives the position of its pickup in the same list: its goods are loaded there
+ * instead of at the depot.
+ */
+export interface LoadStop {
+  demand?: LoadDemand;
+  pickupIndex?: number;
+}
+
+/**
+ * Load on board along one trip: when leaving the depot, then when leaving each stop
+ */
+export function computeTripLoads(stops: LoadStop[]): { start: LoadDemand; loads: LoadDemand[] } {
+  const pickedUp: LoadDemand[] = stops.map(() => ({}));
+  let start: LoadDemand = {};
+  stops.forEach((stop, index) => {
+    if (stop.pickupIndex !== undefined && stop.pickupIndex >= 0 && stop.pickupIndex < index) {
+      pickedUp[stop.pickupIndex] = addLoads(pickedUp[stop.pickupIndex], stop.demand);
+    } else {
+      start = addLoads(start, stop.demand);
+    }
+  });
+
+  let onBoard = start;
+  const loads = stops.map((stop, index) => {
+    onBoard = subtractLoads(addLoads(onBoard, pickedUp[index]), stop.demand);
+    return onBoard;
+  });
+  return { start, loads };
+}
+
+/**
+ * Check the load at every point of a trip against the capacity
+ */
+export function tripFitsCapacity(stops: LoadStop[], capacity?: LoadDemand): boolean {
+  if (!capacity) return true;
+  const { start, loads } = computeTripLoads(stops);
+  return [start, ...loads].every(load => fitsCapacity(load, capacity));
+}
+
+/**
+ * Split an ordered list of stops into consecutive trips that each fit the capacity,
+ * minimizing the total cost (optimal split of a giant tour). A pickup and its delivery
+ * always stay in the same trip; the order must already visit pickups first.
+ * `legCost(from, to)` takes stop positions, -1 standing for the depot.
+ * Returns the stop positions of every trip, or null when a single stop exceeds the capacity.
+ */
+export function splitIntoTrips(
+  stops: LoadStop[],
+  capacity: LoadDemand,
+  legCost: (from: number, to: number) => number,
+  returnAfterLastTrip: boolean
+): number[][] | null {
+  const count = stops.length;
+  if (stops.some(stop => !fitsCapacity(stop.demand, capacity))) return null;
+
+  const isPickup = new Array<boolean>(count).fill(false);
+  stops.forEach(stop => {
+    if (stop.pickupIndex !== undefined) isPickup[stop.pickupIndex] = true;
+  });
+
+  // best[j] = coût minimal pour servir les j premiers arrêts, previous[j] = début du dernier voyage
+  const best = new Array<number>(count + 1).fill(Infinity);
+  const previous = new Array<number>(count + 1).fill(0);
+  best[0] = 0;
+
+  for (let first = 0; first < count; first++) {
+    let cost = 0;
+    let openPairs = 0; // Collectes dont la livraison n'est pas encore dans le voyage
+    for (let last = first; last < count; last++) {
+      const pickupIndex = stops[last].pickupIndex;
+      // La collecte est dans un voyage précédent : aucun voyage plus long ne convient
+      if (pickupIndex !== undefined && pickupIndex < first) break;
+      if (pickupIndex !== undefined) openPairs--;
+      if (isPickup[last]) openPairs++;
+
+      const trip = stops.slice(first, last + 1).map(stop => ({
+        demand: stop.demand,
+        pickupIndex: stop.pickupIndex !== undefined ? stop.pickupIndex - first : undefined,
+      }));
+      // Ajouter des arrêts ne fait jamais baisser la charge
+      if (!tripFitsCapacity(trip, capacity)) break;
+
+      cost += last === first ? legCost(-1, first) : legCost(last - 1, last);
+      if (openPairs > 0) continue;
+
+      const tripCost = cost + (last === count - 1 && !returnAfterLastTrip ? 0 : legCost(last, -1));
+      if (best[first] + tripCost < best[last + 1]) {
+        best[last + 1] = best[first] + tripCost;
+        previous[last + 1] = first;
+      }
+    }
+  }
+
+  if (best[count] === Infinity) return null;
+
+  const trips: number[][] = [];
+  for (let end = count; end > 0; end = previous[end]) {
+    trips.unshift(Array.from({ length: end - previous[end] }, (_, i) => previous[end] + i));
+  }
+  return trips;
+}
+
+/**
+ * Load on board when leaving each location: every trip leaves the depot with the
+ * goods for its stops, picks up paired shipments and unloads them one by one
+ */
+export function computeLoadProfile(locations: Location[]): LoadDemand[] {
+  const loads: LoadDemand[] = [];
+
+  for (let tripStart = 0; tripStart < locations.length;) {
+    let tripEnd = tripStart + 1;
+    while (tripEnd < locations.length && !locations[tripEnd].depotReturnOf) tripEnd++;
+
+    const stops = locations.slice(tripStart + 1, tripEnd);
+    const positionById: Record<string, number> = Object.fromEntries(stops.map((stop, index) => [stop.id, index]));
+    const trip = computeTripLoads(stops.map(stop => ({
+      demand: stop.demand,
+      pickupIndex: stop.pickupId !== undefined ? positionById[stop.pickupId] : undefined,
+    })));
+    loads.push(trip.start, ...trip.loads);
+    tripStart = tripEnd;
+  }
+
+  return loads;
+}
@@ -0,0 +1,81 @@
+/**
+ * EU driving time rules for trucks (Regulation (EC) No 561/2006)
+ * Breaks and daily rests are planned from the driving time only: time on site
+ * is other work and does not count as a break.
+ */
+
+// 45 min de pause après 4h30 de conduite
+export const MAX_CONTINUOUS_DRIVING = 270;
+export const BREAK_DURATION = 45;
+
+// 9h de conduite par jour (10h deux fois par semaine, non planifié), puis 11h de repos
+export const MAX_DAILY_DRIVING = 540;
+export const DAILY_REST_DURATION = 660;
+
+export type DrivingRestType = 'break' | 'daily_rest';
+
+export const DRIVING_REST_LABELS: Record<DrivingRestType, string> = {
+  break: 'Pause réglementaire',
+  daily_rest: 'Repos journalier',
+};
+
+export interface DrivingRest {
+  type: DrivingRestType;
+  startTime: number; // Minutes since midnight of the departure day
+  duration: number;
+  legOffset: number; // Driving minutes into the leg when the rest starts
+}
+
+export interface DrivingState {
+  sinceBreak: number; // Driving since the last break, in minutes
+  today: number; // Driving since the last daily rest, in minutes
+}
+
+export const INITIAL_DRIVING_STATE: DrivingState = { sinceBreak: 0, today: 0 };
+
+/**
+ * Drive one leg from `startTime`, stopping for a break or a daily rest
+ * as soon as a limit is reached
+ */
+export function driveLeg(
+  state: DrivingState,
+  duration: number,
+  startTime: number
+): { arrivalTime: number; rests: DrivingRest[]; state: DrivingState } {
+  const rests: DrivingRest[] = [];
+  let { sinceBreak, today } = state;
+  let clock = startTime;
+  let driven = 0;
+
+  while (duration - driven > 0) {
+    const allowed = Math.min(MAX_CONTINUOUS_DRIVING - sinceBreak, MAX_DAILY_DRIVING - today);
+    const remaining = duration - driven;
+    if (remaining <= allowed) {
+      clock += remaining;
+      sinceBreak += remaining;
+      today += remaining;
+      break;
+    }
+
+    clock += allowed;
+    driven += allowed;
+    today += allowed;
+    const type: DrivingRestType = today >= MAX_DAILY_DRIVING ? 'daily_rest' : 'break';
+    const restDuration = type === 'daily_rest' ? DAILY_REST_DURATION : BREAK_DURATION;
+    rests.push({ type, startTime: clock, duration: restDuration, legOffset: driven });
+    clock += restDuration;
+    sinceBreak = 0;
+    if (type === 'daily_rest') today = 0;
+  }
+
+  return { arrivalTime: clock, rests, state: { sinceBreak, today } };
+}
+
+/**
+ * Waiting at a stop counts as the break once it lasts long enough
+ */
+export function restAtStop(state: DrivingState, waitTime: number): DrivingState {
+  if (waitTime >= DAILY_REST_DURATION) return INITIAL_DRIVING_STATE;
+  if (waitTime >= BREAK_DURATION) return { ...state, sinceBreak: 0 };
+  return state;
+}
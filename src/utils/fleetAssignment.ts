@@ -0,0 +1,178 @@
+/**
+ * Split stops across a fleet of vehicles (balanced insertion heuristic)
+ * Works on matrix indices; each vehicle route goes from its start depot to its end depot.
+ */
+
+import { LoadDemand } from '../types/index.ts';
+import { tripFitsCapacity } from './capacity.ts';
+import { computeSchedule, ScheduleStopInput } from './schedule.ts';
+
+export interface AssignmentVehicle {
+  startIndex: number;
+  endIndex: number;
+  durations?: number[][]; // Matrix of the vehicle profile, defaults to the shared one
+  maxShiftDuration?: number; // in minutes
+  capacity?: LoadDemand; // Single trip: the whole tour must fit
+  drivingRules?: boolean; // Mandatory breaks count in the workload (trucks)
+}
+
+export interface FleetAssignmentOptions {
+  durations: number[][]; // Base matrix durations, in minutes
+  stops: Record<number, ScheduleStopInput>; // Time window and service time per matrix index
+  demands?: Record<number, LoadDemand>; // Goods delivered per matrix index
+  pickupOf?: Record<number, number>; // Delivery matrix index -> its pickup matrix index
+  departureTime: number; // Minutes since midnight
+  signal?: AbortSignal;
+}
+
+export interface FleetAssignmentResult {
+  tours: number[][]; // Stop indices per vehicle, depots excluded
+  workloads: number[]; // Shift duration per vehicle, in minutes
+  unassigned: UnassignedStop[];
+}
+
+export interface UnassignedStop {
+  stop: number;
+  reason: 'capacity' | 'shift_duration'; // capacity: no vehicle had room left for the goods
+}
+
+// Weight of the resulting workload when choosing a vehicle (higher = more balanced routes)
+const BALANCE_WEIGHT = 0.5;
+
+// Maximum number of relocations tried to even out the longest route
+const MAX_BALANCING_MOVES = 200;
+
+/**
+ * Assign every stop to a vehicle by cheapest balanced insertion, farthest stops first,
+ * then move stops away from the busiest vehicle while it shortens the longest shift.
+ * A vehicle only takes a stop while its load stays within its capacity; a pickup and
+ * its delivery go to the same vehicle, pickup first.
+ */
+export function assignStopsToVehicles(
+  stopIndices: number[],
+  vehicles: AssignmentVehicle[],
+  options: FleetAssignmentOptions
+): FleetAssignmentResult {
+  const { durations, stops, departureTime, demands = {}, pickupOf = {} } = options;
+  const deliveryOf: Record<number, number> = {};
+  Object.entries(pickupOf).forEach(([delivery, pickup]) => {
+    deliveryOf[pickup] = Number(delivery);
+  });
+
+  // Durée de service d'une tournée, ou null si un créneau ou l'amplitude est dépassé
+  const evaluate = (vehicle: AssignmentVehicle, tour: number[]): number | null => {
+    const sequence = [vehicle.startIndex, ...tour, vehicle.endIndex];
+    const vehicleDurations = vehicle.durations ?? durations;
+    const legs = sequence.slice(1).map((to, i) => vehicleDurations[sequence[i]][to]);
+    const schedule = computeSchedule(
+      sequence.map((index, position) => (position === 0 || position === sequence.length - 1 ? {} : stops[index] ?? {})),
+      legs,
+      departureTime,
+      vehicle.drivingRules
+    );
+    const workload = schedule.endTime - departureTime;
+    if (schedule.totalLateness > 0) return null;
+    if (vehicle.maxShiftDuration !== undefined && workload > vehicle.maxShiftDuration) return null;
+    return workload;
+  };
+
+  const fitsLoad = (vehicle: AssignmentVehicle, tour: number[]): boolean =>
+    tripFitsCapacity(
+      tour.map(stop => ({
+        demand: demands[stop],
+        pickupIndex: pickupOf[stop] !== undefined ? tour.indexOf(pickupOf[stop]) : undefined,
+      })),
+      vehicle.capacity
+    );
+
+  // Tournées candidates : l'arrêt seul, ou la collecte puis sa livraison plus loin
+  const insertions = (tour: number[], stop: number, delivery?: number): number[][] => {
+    const candidates: number[][] = [];
+    for (let position = 0; position <= tour.length; position++) {
+      const withStop = [...tour.slice(0, position), stop, ...tour.slice(position)];
+      if (delivery === undefined) {
+        candidates.push(withStop);
+        continue;
+      }
+      for (let after = position + 1; after <= withStop.length; after++) {
+        candidates.push([...withStop.slice(0, after), delivery, ...withStop.slice(after)]);
+      }
+    }
+    return candidates;
+  };
+
+  const tours: number[][] = vehicles.map(() => []);
+  const workloads: number[] = vehicles.map(vehicle => evaluate(vehicle, []) ?? 0);
+  const unassigned: UnassignedStop[] = [];
+
+  // Les arrêts les plus éloignés du premier dépôt structurent les tournées ;
+  // une livraison liée est insérée avec sa collecte
+  const firstDepot = vehicles[0]?.startIndex ?? 0;
+  const ordered = stopIndices
+    .filter(stop => pickupOf[stop] === undefined || !stopIndices.includes(pickupOf[stop]))
+    .sort((a, b) => durations[firstDepot][b] - durations[firstDepot][a]);
+
+  for (const stop of ordered) {
+    if (options.signal?.aborted) break;
+    const unit = deliveryOf[stop] !== undefined && stopIndices.includes(deliveryOf[stop]) ? [stop, deliveryOf[stop]] : [stop];
+
+    let best: { vehicle: number; tour: number[]; workload: number; score: number } | null = null;
+    let hasRoom = false;
+    for (let v = 0; v < vehicles.length; v++) {
+      for (const candidate of insertions(tours[v], stop, unit[1])) {
+        if (!fitsLoad(vehicles[v], candidate)) continue;
+        hasRoom = true;
+        const workload = evaluate(vehicles[v], candidate);
+        if (workload === null) continue;
+        const score = workload - workloads[v] + BALANCE_WEIGHT * workload;
+        if (!best || score < best.score) {
+          best = { vehicle: v, tour: candidate, workload, score };
+        }
+      }
+    }
+
+    if (!best) {
+      unit.forEach(index => unassigned.push({ stop: index, reason: hasRoom ? 'shift_duration' : 'capacity' }));
+      continue;
+    }
+    tours[best.vehicle] = best.tour;
+    workloads[best.vehicle] = best.workload;
+  }
+
+  // Rééquilibrage : déplacer un arrêt de la tournée la plus longue tant que le maximum baisse
+  // (les arrêts d'une paire collecte/livraison restent dans leur tournée)
+  for (let move = 0; move < MAX_BALANCING_MOVES && !options.signal?.aborted; move++) {
+    const busiest = workloads.indexOf(Math.max(...workloads));
+    let best: { from: number; to: number; fromTour: number[]; toTour: number[]; fromWorkload: number; toWorkload: number } | null = null;
+
+    for (let stopPosition = 0; stopPosition < tours[busiest].length; stopPosition++) {
+      const stop = tours[busiest][stopPosition];
+      if (pickupOf[stop] !== undefined || deliveryOf[stop] !== undefined) continue;
+      const remaining = tours[busiest].filter((_, i) => i !== stopPosition);
+      const fromWorkload = evaluate(vehicles[busiest], remaining);
+      if (fromWorkload === null) continue;
+
+      for (let to = 0; to < vehicles.length; to++) {
+        if (to === busiest) continue;
+        for (let position = 0; position <= tours[to].length; position++) {
+          const candidate = [...tours[to].slice(0, position), stop, ...tours[to].slice(position)];
+          if (!fitsLoad(vehicles[to], candidate)) continue;
+          const toWorkload = evaluate(vehicles[to], candidate);
+          if (toWorkload === null) continue;
+          const newMax = Math.max(fromWorkload, toWorkload);
+          if (newMax < workloads[busiest] && (!best || newMax < Math.max(best.fromWorkload, best.toWorkload))) {
+            best = { from: busiest, to, fromTour: remaining, toTour: candidate, fromWorkload, toWorkload };
+          }
+        }
+      }
+    }
+
+    if (!best) break;
+    tours[best.from] = best.fromTour;
+    tours[best.to] = best.toTour;
+    workloads[best.from] = best.fromWorkload;
+    workloads[best.to] = best.toWorkload;
+  }
+
+  return { tours, workloads, unassigned };
+}
@@ -0,0 +1,144 @@
+/**
+ * Local search improvement phase (2-opt, Or-opt, relocate)
+ * Applied after a construction heuristic to remove crossings and misplaced stops.
+ * Tours are arrays of matrix indices; the caller provides the evaluation function.
+ */
+
+export type TourEvaluator = (order: number[]) => number;
+
+export interface LocalSearchOptions {
+  isLoop: boolean;
+  fixedPositions?: Set<number>; // Positions whose stop must not move (locked locations)
+  timeBudgetMs: number;
+  deadline?: number; // Date.now() time shared by several searches; the earlier of it and the budget applies
+  signal?: AbortSignal; // Stops the search early, like an exhausted time budget
+  onImprovement?: (iterations: number, score: number) => void; // Called after each improving move
+}
+
+export interface LocalSearchResult {
+  order: number[];
+  initialScore: number;
+  finalScore: number;
+  iterations: number; // Number of improving moves applied
+  timedOut: boolean;
+}
+
+// Ignore floating point noise when comparing scores
+const EPSILON = 1e-9;
+
+// Longest chain of consecutive stops moved by Or-opt
+const MAX_CHAIN_LENGTH = 3;
+
+/**
+ * Build an evaluator summing matrix costs along the tour (with return leg for loops)
+ */
+export function createMatrixEvaluator(costs: number[][], isLoop: boolean): TourEvaluator {
+  return (order: number[]) => {
+    let total = 0;
+    for (let i = 0; i < order.length - 1; i++) {
+      total += costs[order[i]][order[i + 1]];
+    }
+    if (isLoop && order.length > 1) {
+      total += costs[order[order.length - 1]][order[0]];
+    }
+    return total;
+  };
+}
+
+/**
+ * Improve a tour with first-improvement local search until no move helps
+ * or the time budget is spent.
+ */
+export function improveTour(
+  initialOrder: number[],
+  evaluate: TourEvaluator,
+  options: LocalSearchOptions
+): LocalSearchResult {
+  const deadline = Math.min(Date.now() + options.timeBudgetMs, options.deadline ?? Infinity);
+  const size = initialOrder.length;
+  const fixed = new Set(options.fixedPositions);
+  // Loops are rotation-invariant: keep the depot in first position
+  if (options.isLoop) fixed.add(0);
+
+  // fixedBefore[k] = number of fixed positions in [0, k)
+  const fixedBefore = new Array<number>(size + 1).fill(0);
+  for (let k = 0; k < size; k++) {
+    fixedBefore[k + 1] = fixedBefore[k] + (fixed.has(k) ? 1 : 0);
+  }
+  const isRangeMovable = (from: number, to: number) => fixedBefore[to + 1] - fixedBefore[from] === 0;
+
+  let order = [...initialOrder];
+  let score = evaluate(order);
+  const initialScore = score;
+  let iterations = 0;
+  let timedOut = false;
+
+  const accept = (candidate: number[]): boolean => {
+    const candidateScore = evaluate(candidate);
+    if (candidateScore < score - EPSILON) {
+      order = candidate;
+      score = candidateScore;
+      iterations++;
+      options.onImprovement?.(iterations, score);
+      return true;
+    }
+    return false;
+  };
+
+  // 2-opt: reverse the stretch between positions i and j
+  const tryTwoOpt = (): boolean => {
+    for (let i = 0; i < size - 1; i++) {
+      if (Date.now() > deadline || options.signal?.aborted) {
+        timedOut = true;
+        return false;
+      }
+      for (let j = i + 1; j < size; j++) {
+        if (!isRangeMovable(i, j)) break;
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, j + 1).reverse(),
+          ...order.slice(j + 1),
+        ];
+        if (accept(candidate)) return true;
+      }
+    }
+    return false;
+  };
+
+  // Or-opt / relocate: move a chain of 1 to 3 stops to another position
+  const tryChainMoves = (chainLength: number): boolean => {
+    for (let i = 0; i + chainLength <= size; i++) {
+      if (Date.now() > deadline || options.signal?.aborted) {
+        timedOut = true;
+        return false;
+      }
+      const chainEnd = i + chainLength - 1;
+      if (!isRangeMovable(i, chainEnd)) continue;
+
+      const chain = order.slice(i, chainEnd + 1);
+      const rest = [...order.slice(0, i), ...order.slice(chainEnd + 1)];
+
+      for (let insertAt = 0; insertAt <= rest.length; insertAt++) {
+        if (insertAt === i) continue;
+        // Every stop shifted by the move must be movable
+        const from = Math.min(i, insertAt);
+        const to = Math.max(chainEnd, insertAt + chainLength - 1);
+        if (!isRangeMovable(from, to)) continue;
+
+        const candidate = [...rest.slice(0, insertAt), ...chain, ...rest.slice(insertAt)];
+        if (accept(candidate)) return true;
+      }
+    }
+    return false;
+  };
+
+  let improved = size > 2;
+  while (improved && !timedOut) {
+    improved = tryTwoOpt();
+    for (let chainLength = 1; !improved && !timedOut && chainLength <= MAX_CHAIN_LENGTH; chainLength++) {
+      improved = tryChainMoves(chainLength);
+    }
+  }
+
+  return { order, initialScore, finalScore: score, iterations, timedOut };
+}
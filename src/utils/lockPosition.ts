@@ -0,0 +1,50 @@
+/**
+ * Locked locations in the visiting order
+ * A location locked at the start is the origin of the route, one locked at the end
+ * its final destination (the last stop before going back, for a loop); the other
+ * locked locations keep their index (`order`) while the rest is optimized around them.
+ */
+
+import { Location, LockPosition } from '../types/index.ts';
+
+export const LOCK_POSITION_LABELS: Record<LockPosition, string> = {
+  start: 'Départ',
+  end: 'Arrivée',
+  fixed: 'Position fixe',
+};
+
+export function getLockPosition(location: Pick<Location, 'isLocked' | 'lockPosition'>): LockPosition | undefined {
+  return location.isLocked ? location.lockPosition ?? 'fixed' : undefined;
+}
+
+/**
+ * Give every locked location the index it must keep: 0 for the start, the last
+ * index for the end, its `order` (or its current index) for a fixed position
+ */
+export function resolveLockedOrder(locations: Location[]): Location[] {
+  const last = locations.length - 1;
+  const taken: Record<number, Location> = {};
+
+  return locations.map((loc, index) => {
+    const position = getLockPosition(loc);
+    if (!position) return loc;
+
+    const order = position === 'start' ? 0 : position === 'end' ? last : Math.min(loc.order ?? index, last);
+    const other = taken[order];
+    if (other) {
+      throw new Error(`"${other.address}" et "${loc.address}" sont verrouillés à la même position (${order + 1})`);
+    }
+    taken[order] = loc;
+    return loc.order === order ? loc : { ...loc, order };
+  });
+}
+
+/**
+ * Locations locked at the start and at the end, if any
+ */
+export function findRouteEnds(locations: Location[]): { start?: Location; end?: Location } {
+  return {
+    start: locations.find(loc => getLockPosition(loc) === 'start'),
+    end: locations.find(loc => getLockPosition(loc) === 'end'),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Objective of the stop order optimization. Distance, time, cost and emissions
+ * are each brought to a kilometre equivalent, so that their weights can be
+ * compared: a minute of driving counts as a kilometre (60 km/h) for every
+ * vehicle, as the former balanced score did, and emissions count the
+ * kilometres of an average car that burn the same fuel.
+ */
+
+import { ObjectiveWeights, RouteOptimizationRequest } from '../types/index.ts';
+import { costPerKm, resolveCostRates, VEHICLE_COST_RATES } from './routeCost.ts';
+
+export const OBJECTIVE_CRITERIA = ['distance', 'time', 'cost', 'emissions'] as const;
+
+export type ObjectiveCriterion = typeof OBJECTIVE_CRITERIA[number];
+
+export const OBJECTIVE_CRITERION_LABELS: Record<ObjectiveCriterion, string> = {
+  distance: 'Distance',
+  time: 'Temps',
+  cost: 'Coût',
+  emissions: 'Émissions CO₂',
+};
+
+// Équilibré par défaut : 40 % distance, 60 % temps
+export const DEFAULT_OBJECTIVE_WEIGHTS: ObjectiveWeights = { distance: 0.4, time: 0.6, cost: 0, emissions: 0 };
+
+/**
+ * Score of a leg: weight per km, per minute of driving and per minute of
+ * waiting or break (only counted when the schedule is evaluated)
+ */
+export interface SegmentWeights {
+  distance: number;
+  duration: number;
+  wait: number;
+}
+
+/**
+ * Weights summing to 1; the default weights when none is positive
+ */
+export function normalizeObjectiveWeights(weights: ObjectiveWeights): ObjectiveWeights {
+  const values = OBJECTIVE_CRITERIA.map(criterion => Math.max(0, weights[criterion] || 0));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (total <= 0) return DEFAULT_OBJECTIVE_WEIGHTS;
+  const [distance, time, cost, emissions] = values.map(value => value / total);
+  return { distance, time, cost, emissions };
+}
+
+/**
+ * Weights of an optimization method: a single criterion, or the weights chosen
+ * by the user for the balanced method
+ */
+export function resolveObjectiveWeights(
+  request: Pick<RouteOptimizationRequest, 'optimizationMethod' | 'objectiveWeights'>
+): ObjectiveWeights {
+  const only = (criterion: ObjectiveCriterion): ObjectiveWeights => ({ distance: 0, time: 0, cost: 0, emissions: 0, [criterion]: 1 });
+  switch (request.optimizationMethod) {
+    case 'shortest_distance':
+      return only('distance');
+    case 'fastest_time':
+      return only('time');
+    case 'lowest_cost':
+      return only('cost');
+    default:
+      return normalizeObjectiveWeights(request.objectiveWeights ?? DEFAULT_OBJECTIVE_WEIGHTS);
+  }
+}
+
+/**
+ * Score per km and per minute of a request on its vehicle.
+ * Tolls are only known once the segments are routed, so the cost leaves them
+ * out; emissions follow the fuel burnt, hence the distance and the consumption.
+ */
+export function objectiveSegmentWeights(
+  request: Pick<RouteOptimizationRequest, 'optimizationMethod' | 'objectiveWeights' | 'vehicleType' | 'costSettings'>
+): SegmentWeights {
+  const objective = resolveObjectiveWeights(request);
+  const rates = resolveCostRates(request.vehicleType, request.costSettings);
+  const driverPerMinute = rates.hourlyCost / 60;
+  const kmCost = costPerKm(rates);
+
+  // Coût d'un kilomètre roulé en une minute
+  const referenceCost = kmCost + driverPerMinute;
+  const costWeight = referenceCost > 0 ? objective.cost / referenceCost : 0;
+  const fuelPerCarKm = rates.fuelPer100Km / VEHICLE_COST_RATES.car.fuelPer100Km;
+  // Les attentes et les pauses comptent comme du temps, payé au chauffeur
+  const perMinute = objective.time + costWeight * driverPerMinute;
+
+  return {
+    distance: objective.distance + objective.emissions * fuelPerCarKm + costWeight * kmCost,
+    duration: perMinute,
+    wait: perMinute,
+  };
+}
+
+export function formatObjectiveWeights(weights: ObjectiveWeights): string {
+  const normalized = normalizeObjectiveWeights(weights);
+  return OBJECTIVE_CRITERIA
+    .filter(criterion => normalized[criterion] > 0)
+    .map(criterion => `${OBJECTIVE_CRITERION_LABELS[criterion].toLowerCase()} ${Math.round(normalized[criterion] * 100)} %`)
+    .join(', ');
+}
@@ -0,0 +1,59 @@
+/**
+ * Pickup/delivery precedence on tours of indices
+ * A pair is [pickup, delivery]: the pickup must be visited first.
+ */
+
+import { Location } from '../types/index.ts';
+
+export type PrecedencePair = [pickup: number, delivery: number];
+
+/**
+ * Pairs of a location list, as positions in that list.
+ * Links to a missing location are ignored.
+ */
+export function findPickupDeliveryPairs(locations: Location[]): PrecedencePair[] {
+  const positionById: Record<string, number> = Object.fromEntries(locations.map((loc, index) => [loc.id, index]));
+  return locations.flatMap((loc, index): PrecedencePair[] => {
+    const pickup = loc.pickupId !== undefined ? positionById[loc.pickupId] : undefined;
+    return pickup !== undefined && pickup !== index ? [[pickup, index]] : [];
+  });
+}
+
+export function violatesPrecedence(order: number[], pairs: PrecedencePair[]): boolean {
+  if (pairs.length === 0) return false;
+  const position: number[] = [];
+  order.forEach((node, index) => {
+    position[node] = index;
+  });
+  return pairs.some(([pickup, delivery]) =>
+    position[pickup] !== undefined && position[delivery] !== undefined && position[pickup] > position[delivery]
+  );
+}
+
+/**
+ * Swap every delivery visited before its pickup with that pickup.
+ * Other stops keep their position; pairs touching a fixed node are left as they are.
+ */
+export function repairPrecedence(order: number[], pairs: PrecedencePair[], fixedNodes?: Set<number>): number[] {
+  const repaired = [...order];
+  pairs.forEach(([pickup, delivery]) => {
+    const pickupPosition = repaired.indexOf(pickup);
+    const deliveryPosition = repaired.indexOf(delivery);
+    if (pickupPosition < 0 || deliveryPosition < 0 || pickupPosition < deliveryPosition) return;
+    if (fixedNodes?.has(pickup) || fixedNodes?.has(delivery)) return;
+    repaired[deliveryPosition] = pickup;
+    repaired[pickupPosition] = delivery;
+  });
+  return repaired;
+}
+
+/**
+ * Wrap a tour evaluator so that orders breaking a pair are never accepted
+ */
+export function withPrecedence(
+  evaluate: (order: number[]) => number,
+  pairs: PrecedencePair[]
+): (order: number[]) => number {
+  if (pairs.length === 0) return evaluate;
+  return order => (violatesPrecedence(order, pairs) ? Infinity : evaluate(order));
+}
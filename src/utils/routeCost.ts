@@ -0,0 +1,110 @@
+/**
+ * Operating cost of a route: fuel and wear for the distance driven, driver time
+ * for the whole duration, tolls on the tolled distance reported by the routing
+ * backend. Average rates per vehicle type, which the user can override.
+ */
+
+import { CostSettings, Route, RouteSegment, VehicleType } from '../types/index.ts';
+
+// Prix moyen du gazole à la pompe, en €/L
+export const FUEL_PRICE_PER_LITER = 1.8;
+
+export interface VehicleCostRates {
+  fuelPer100Km: number; // Liters per 100 km
+  hourlyCost: number; // Driver cost, in €/h
+  wearPerKm: number; // Tyres, maintenance and depreciation, in €/km
+  tollPerKm: number; // Average toll on a tolled motorway, in €/km
+}
+
+export const VEHICLE_COST_RATES: Record<VehicleType, VehicleCostRates> = {
+  car: { fuelPer100Km: 7, hourlyCost: 25, wearPerKm: 0.1, tollPerKm: 0.1 },
+  truck: { fuelPer100Km: 30, hourlyCost: 35, wearPerKm: 0.25, tollPerKm: 0.25 },
+};
+
+export type CostRates = VehicleCostRates & { fuelPrice: number };
+
+export const COST_SETTINGS = ['fuelPrice', 'fuelPer100Km', 'hourlyCost', 'wearPerKm'] as const;
+
+export const COST_SETTING_LABELS: Record<keyof CostSettings, { label: string; unit: string; step: number }> = {
+  fuelPrice: { label: 'Prix du carburant', unit: '€/L', step: 0.01 },
+  fuelPer100Km: { label: 'Consommation', unit: 'L/100', step: 0.5 },
+  hourlyCost: { label: 'Salaire chauffeur', unit: '€/h', step: 1 },
+  wearPerKm: { label: 'Usure', unit: '€/km', step: 0.01 },
+};
+
+export interface CostBreakdown {
+  fuel: number;
+  driver: number;
+  wear: number;
+  tolls: number;
+  total: number;
+}
+
+/**
+ * Rates of a vehicle type, with the values set by the user
+ */
+export function resolveCostRates(vehicleType: VehicleType, settings?: CostSettings): CostRates {
+  const defaults = { ...VEHICLE_COST_RATES[vehicleType], fuelPrice: FUEL_PRICE_PER_LITER };
+  const overrides = Object.fromEntries(
+    Object.entries(settings ?? {}).filter(([, value]) => typeof value === 'number' && value >= 0)
+  );
+  return { ...defaults, ...overrides };
+}
+
+// Coût d'un kilomètre hors péage
+export function costPerKm(rates: CostRates): number {
+  return (rates.fuelPer100Km / 100) * rates.fuelPrice + rates.wearPerKm;
+}
+
+function breakdown(distance: number, duration: number, tollDistance: number, rates: CostRates): CostBreakdown {
+  const fuel = (distance * rates.fuelPer100Km / 100) * rates.fuelPrice;
+  const driver = (duration / 60) * rates.hourlyCost;
+  const wear = distance * rates.wearPerKm;
+  const tolls = tollDistance * rates.tollPerKm;
+  return { fuel, driver, wear, tolls, total: fuel + driver + wear + tolls };
+}
+
+/**
+ * Cost of driving one segment; tolls only when the backend reported the tolled distance
+ */
+export function segmentCost(segment: Pick<RouteSegment, 'distance' | 'duration' | 'tollDistance'>, rates: CostRates): CostBreakdown {
+  return breakdown(segment.distance, segment.duration, segment.tollDistance ?? 0, rates);
+}
+
+/**
+ * Cost of a route: the driver is paid for the whole duration, time on site,
+ * waiting and breaks included
+ */
+export function routeCostBreakdown(
+  route: Pick<Route, 'totalDistance' | 'totalDuration' | 'vehicleType' | 'costSettings'> & { segments?: RouteSegment[] }
+): CostBreakdown {
+  const tollDistance = (route.segments ?? []).reduce((sum, segment) => sum + (segment.tollDistance ?? 0), 0);
+  return breakdown(route.totalDistance, route.totalDuration, tollDistance, resolveCostRates(route.vehicleType, route.costSettings));
+}
+
+/**
+ * Estimated cost of a route in euros
+ */
+export function estimateRouteCost(
+  route: Pick<Route, 'totalDistance' | 'totalDuration' | 'vehicleType' | 'costSettings'> & { segments?: RouteSegment[] }
+): number {
+  return routeCostBreakdown(route).total;
+}
+
+export function formatCost(euros: number): string {
+  return `${Math.round(euros)} €`;
+}
+
+// Montant au centime près, pour le détail par étape
+export function formatPreciseCost(euros: number): string {
+  return `${euros.toFixed(2).replace('.', ',')} €`;
+}
+
+/**
+ * Parts of a cost, tolls only when there are some
+ */
+export function describeCostBreakdown(cost: CostBreakdown, format: (euros: number) => string = formatCost): string {
+  return [`carburant ${format(cost.fuel)}`, `chauffeur ${format(cost.driver)}`, `usure ${format(cost.wear)}`, cost.tolls > 0 && `péages ${format(cost.tolls)}`]
+    .filter(Boolean)
+    .join(' · ');
+}
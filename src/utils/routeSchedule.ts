@@ -0,0 +1,187 @@
+/**
+ * Planned times of a calculated route: arrival, departure and distance driven
+ * at every stop. They only depend on the segment durations, so a new departure
+ * time is applied to a route without calling the routing API again.
+ * With a maximum working day, the route is also split into days, each ending
+ * at an overnight stop suggested along the segment geometry.
+ */
+
+import { Location, Route, RouteBreak, RouteDay, RouteDayLeg, RouteSegment, ScheduledStop } from '../types/index.ts';
+import { computeSchedule, parseTimeOfDay, parseTimeWindow, DEFAULT_DEPARTURE_TIME, ScheduledOvernight, ScheduleStopInput } from './schedule.ts';
+import { interpolateAlongLine, sliceLine } from './routeUtils.ts';
+
+export type RouteScheduleFields = Pick<Route, 'schedule' | 'returnTime' | 'totalWaitTime' | 'breaks' | 'totalBreakTime' | 'days'>;
+
+// Tracé d'un segment, ou la ligne droite entre ses extrémités
+function segmentLine(segment: RouteSegment): number[][] {
+  if (segment.polyline?.coordinates.length) return segment.polyline.coordinates;
+  return [segment.from, segment.to].flatMap(loc => (loc.coordinates ? [[loc.coordinates.longitude, loc.coordinates.latitude]] : []));
+}
+
+function pointOnSegment(segment: RouteSegment, fraction: number): { latitude: number; longitude: number } | undefined {
+  const line = segmentLine(segment);
+  if (line.length === 0) return undefined;
+  const [longitude, latitude] = interpolateAlongLine(line, fraction);
+  return { latitude, longitude };
+}
+
+/**
+ * Planned arrival at every stop from the real segment durations,
+ * with the mandatory breaks placed along the segments they interrupt
+ * and, with a `workingDay`, the days of the route
+ */
+export function scheduleRoute(
+  locations: Location[],
+  segments: RouteSegment[],
+  stops: ScheduleStopInput[],
+  departureTime: number,
+  drivingRules: boolean,
+  workingDay?: number
+): RouteScheduleFields {
+  const schedule = computeSchedule(stops, segments.map(segment => segment.duration), departureTime, drivingRules, workingDay);
+  const breaks: RouteBreak[] = schedule.rests.map(rest => {
+    const segment = segments[rest.legIndex];
+    return {
+      type: rest.type,
+      segmentIndex: rest.legIndex,
+      startTime: rest.startTime,
+      duration: rest.duration,
+      coordinates: pointOnSegment(segment, segment.duration > 0 ? rest.legOffset / segment.duration : 0),
+    };
+  });
+
+  let cumulativeDistance = 0;
+  const scheduledStops: ScheduledStop[] = schedule.stops.map((stop, index) => {
+    if (index > 0) cumulativeDistance += segments[index - 1]?.distance ?? 0;
+    return {
+      locationId: locations[index].id,
+      arrivalTime: stop.arrivalTime,
+      waitTime: stop.waitTime,
+      departureTime: stop.departureTime,
+      lateness: stop.lateness,
+      serviceDuration: stops[index].serviceDuration ?? 0,
+      cumulativeDistance,
+    };
+  });
+
+  return {
+    schedule: scheduledStops,
+    returnTime: segments.length >= locations.length && locations.length > 1 ? schedule.endTime : undefined,
+    totalWaitTime: schedule.totalWaitTime,
+    breaks: drivingRules ? breaks : undefined,
+    totalBreakTime: drivingRules ? schedule.totalRestTime : undefined,
+    days: workingDay ? buildRouteDays(segments, scheduledStops, schedule.overnights, departureTime, schedule.endTime) : undefined,
+  };
+}
+
+/**
+ * Cut the route at every overnight stop: a day goes from one position on the
+ * route (segment and fraction of its duration) to the next
+ */
+function buildRouteDays(
+  segments: RouteSegment[],
+  stops: ScheduledStop[],
+  overnights: ScheduledOvernight[],
+  departureTime: number,
+  endTime: number
+): RouteDay[] {
+  const position = (night: ScheduledOvernight) => {
+    const duration = segments[night.legIndex]?.duration ?? 0;
+    return { legIndex: night.legIndex, fraction: duration > 0 ? Math.min(1, night.legOffset / duration) : 1 };
+  };
+  let nextStop = 0;
+
+  return Array.from({ length: overnights.length + 1 }, (_, dayIndex) => {
+    const previous = overnights[dayIndex - 1];
+    const night = overnights[dayIndex];
+    const start = previous ? position(previous) : { legIndex: 0, fraction: 0 };
+    const end = night ? position(night) : { legIndex: segments.length - 1, fraction: 1 };
+    const endOfDay = night ? night.startTime : endTime;
+
+    const legs: RouteDayLeg[] = [];
+    for (let segmentIndex = start.legIndex; segmentIndex <= end.legIndex; segmentIndex++) {
+      const from = segmentIndex === start.legIndex ? start.fraction : 0;
+      const to = segmentIndex === end.legIndex ? end.fraction : 1;
+      if (to > from) legs.push({ segmentIndex, from, to });
+    }
+
+    // Un arrêt compte pour le jour où il est quitté (on peut y arriver la veille au soir)
+    const served: ScheduledStop[] = [];
+    while (nextStop < stops.length && (!night || stops[nextStop].departureTime <= endOfDay)) {
+      served.push(stops[nextStop++]);
+    }
+
+    const drivingTime = legs.reduce((sum, leg) => sum + segments[leg.segmentIndex].duration * (leg.to - leg.from), 0);
+    return {
+      startTime: previous ? previous.startTime + previous.duration : departureTime,
+      endTime: endOfDay,
+      legs,
+      stopIds: served.map(stop => stop.locationId),
+      distance: legs.reduce((sum, leg) => sum + segments[leg.segmentIndex].distance * (leg.to - leg.from), 0),
+      workTime: drivingTime + served.reduce((sum, stop) => sum + stop.serviceDuration, 0),
+      overnight: night
+        ? { segmentIndex: night.legIndex, coordinates: pointOnSegment(segments[night.legIndex], end.fraction) }
+        : undefined,
+    };
+  });
+}
+
+/**
+ * Move a calculated route to another departure or working day, keeping its
+ * order and segments. Time on site is taken from the current schedule; breaks
+ * are placed again when the route was planned with driving rules.
+ */
+export function rescheduleRoute(
+  route: Route,
+  changes: Partial<Pick<Route, 'departureTime' | 'departureDate' | 'maxWorkingDay'>>
+): Route {
+  const planned = { ...route, ...changes };
+  const start = parseTimeOfDay(planned.departureTime ?? DEFAULT_DEPARTURE_TIME) ?? parseTimeOfDay(DEFAULT_DEPARTURE_TIME)!;
+  const stops: ScheduleStopInput[] = route.locations.map((loc, index) => ({
+    window: parseTimeWindow(loc.timeWindow),
+    serviceDuration: route.schedule?.[index]?.serviceDuration ?? 0,
+  }));
+  const fields = scheduleRoute(route.locations, route.segments, stops, start, route.breaks !== undefined, planned.maxWorkingDay);
+
+  return {
+    ...planned,
+    ...fields,
+    // Seules les pauses changent : les attentes aux créneaux comptent comme temps de repos
+    totalDuration: route.totalDuration - (route.totalBreakTime ?? 0) + (fields.totalBreakTime ?? 0),
+  };
+}
+
+export interface SegmentArrival {
+  arrivalTime: number;
+  departureTime: number; // Equal to the arrival at the end of a loop
+  cumulativeDistance: number; // km
+}
+
+/**
+ * Planned times at the end of a segment: the next stop, or the start
+ * when the segment closes a loop
+ */
+export function segmentArrival(route: Route, segmentIndex: number): SegmentArrival | undefined {
+  const stop = route.schedule?.[segmentIndex + 1];
+  if (stop) return stop;
+  if (route.returnTime === undefined || segmentIndex !== route.segments.length - 1) return undefined;
+  return { arrivalTime: route.returnTime, departureTime: route.returnTime, cumulativeDistance: route.totalDistance };
+}
+
+/**
+ * Geometry driven on one day of a multi-day route, as [lng, lat] points
+ */
+export function routeDayLine(route: Route, day: RouteDay): number[][] {
+  return day.legs.flatMap(leg => sliceLine(segmentLine(route.segments[leg.segmentIndex]), leg.from, leg.to));
+}
+
+/**
+ * Stop where the night is spent when a day ends on arrival at it,
+ * undefined when the day ends on the road
+ */
+export function overnightStop(route: Route, day: RouteDay): Location | undefined {
+  if (!day.overnight) return undefined;
+  const lastLeg = day.legs[day.legs.length - 1];
+  if (!lastLeg) return route.segments[day.overnight.segmentIndex]?.from;
+  return lastLeg.to === 1 ? route.segments[lastLeg.segmentIndex].to : undefined;
+}
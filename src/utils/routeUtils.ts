@@ -2,6 +2,8 @@
  * Utility functions for route optimization and map operations
  */
 
+import { Location } from '../types/index.ts';
+
 /**
  * Decode a polyline string to an array of coordinates
  * This is a simplified implementation of Google's polyline algorithm
@@ -287,3 +289,67 @@ export function trimAddress(fullAddress: string): string {
   // Fallback: return just the main name or first two parts
   return parts.length > 1 ? `${parts[0]}, ${parts[1]}` : parts[0];
 }
+
+// Palette used to tell fleet vehicles apart on the map
+const VEHICLE_COLORS = ['#3b82f6', '#f97316', '#10b981', '#a855f7', '#ef4444', '#eab308', '#06b6d4', '#ec4899'];
+
+/**
+ * Get the display color of a fleet vehicle (cycles beyond the palette)
+ */
+export function getVehicleColor(index: number): string {
+  return VEHICLE_COLORS[index % VEHICLE_COLORS.length];
+}
+
+/**
+ * Point at a fraction (0..1) of the length of a [lng, lat] line
+ * Lengths are measured in degrees, which is precise enough along one route segment.
+ */
+export function interpolateAlongLine(coordinates: number[][], fraction: number): number[] {
+  if (coordinates.length === 1) return coordinates[0];
+  const lengths = coordinates.slice(1).map((point, i) =>
+    Math.hypot(point[0] - coordinates[i][0], point[1] - coordinates[i][1])
+  );
+  let remaining = Math.min(1, Math.max(0, fraction)) * lengths.reduce((sum, length) => sum + length, 0);
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const ratio = remaining / lengths[i];
+      return [
+        coordinates[i][0] + (coordinates[i + 1][0] - coordinates[i][0]) * ratio,
+        coordinates[i][1] + (coordinates[i + 1][1] - coordinates[i][1]) * ratio,
+      ];
+    }
+    remaining -= lengths[i];
+  }
+  return coordinates[coordinates.length - 1];
+}
+
+/**
+ * Part of a [lng, lat] line between two fractions (0..1) of its length
+ */
+export function sliceLine(coordinates: number[][], from: number, to: number): number[][] {
+  if (coordinates.length < 2) return coordinates;
+  const lengths = coordinates.slice(1).map((point, i) =>
+    Math.hypot(point[0] - coordinates[i][0], point[1] - coordinates[i][1])
+  );
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const start = Math.min(1, Math.max(0, from)) * total;
+  const end = Math.min(1, Math.max(0, to)) * total;
+
+  // Sommets intermédiaires strictement compris entre les deux extrémités
+  const inner: number[][] = [];
+  let travelled = 0;
+  for (let i = 0; i < lengths.length - 1; i++) {
+    travelled += lengths[i];
+    if (travelled > start && travelled < end) inner.push(coordinates[i + 1]);
+  }
+  return [interpolateAlongLine(coordinates, from), ...inner, interpolateAlongLine(coordinates, to)];
+}
+
+/**
+ * Stops actually served by a route: the start and end depots and the returns
+ * to the depot between two trips are not stops
+ */
+export function routeStops(locations: Location[], depotIds: (string | undefined)[]): Location[] {
+  return locations.filter(loc => !loc.depotReturnOf && !depotIds.includes(loc.id));
+}
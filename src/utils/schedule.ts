@@ -0,0 +1,240 @@
+/**
+ * Route schedule computation (arrival, wait and lateness per stop)
+ * Times are minutes since midnight of the departure day.
+ */
+
+import { TimeWindow } from '../types/index.ts';
+import { driveLeg, restAtStop, DrivingRest, DrivingState, INITIAL_DRIVING_STATE } from './drivingRules.ts';
+
+export const DEFAULT_DEPARTURE_TIME = '08:00';
+
+// Journée de travail proposée pour une tournée sur plusieurs jours (conduite + temps sur place)
+export const DEFAULT_WORKING_DAY = 600;
+
+// Cost of one minute of lateness, far above any travel cost so late stops are avoided first
+export const LATENESS_PENALTY = 1000;
+
+export interface ScheduleStopInput {
+  window?: { start: number; end: number }; // Minutes since midnight
+  serviceDuration?: number; // Minutes spent on site
+}
+
+export interface ScheduleStopResult {
+  arrivalTime: number;
+  waitTime: number; // Waiting for the window to open
+  serviceStart: number;
+  departureTime: number;
+  lateness: number; // Minutes after the window end (0 when on time)
+}
+
+export interface ScheduledRest extends DrivingRest {
+  legIndex: number; // Taken while driving legDurations[legIndex]
+}
+
+/**
+ * End of a working day: the route stops on legDurations[legIndex] (at its end
+ * when the day ends on arrival at a stop) and resumes the next day at the departure time
+ */
+export interface ScheduledOvernight {
+  legIndex: number;
+  legOffset: number; // Driving minutes into the leg
+  startTime: number;
+  duration: number; // Until the next working day starts
+}
+
+export interface ScheduleResult {
+  stops: ScheduleStopResult[];
+  totalWaitTime: number;
+  totalLateness: number;
+  rests: ScheduledRest[]; // Only filled when driving rules apply
+  totalRestTime: number;
+  overnights: ScheduledOvernight[]; // Only filled with a working day limit
+  endTime: number; // Departure from the last stop, or arrival back at the start for loops
+}
+
+/**
+ * Parse a "HH:MM" time of day into minutes since midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes since midnight as "HH:MM" (days beyond the first wrap around)
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60) % 24;
+  return `${String(hours).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Date of the local day as "YYYY-MM-DD" (value of a date input)
+ */
+export function localIsoDate(date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Local date and time of a planned time, from the "YYYY-MM-DD" departure day
+ */
+export function plannedDateTime(minutes: number, departureDate: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(departureDate);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 0, Math.round(minutes));
+}
+
+/**
+ * Format a planned time: "HH:MM" on the departure day, prefixed with the date
+ * ("21/10 08:15") or, without a departure date, the day offset ("J+1 08:15") after it
+ */
+export function formatPlannedTime(minutes: number, departureDate?: string): string {
+  const time = formatTimeOfDay(minutes);
+  const day = Math.floor(Math.round(minutes) / 1440);
+  if (day === 0) return time;
+  const date = departureDate ? plannedDateTime(minutes, departureDate) : null;
+  return date
+    ? `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')} ${time}`
+    : `J+${day} ${time}`;
+}
+
+/**
+ * Convert a location time window into minutes, ignoring malformed values
+ */
+export function parseTimeWindow(window?: TimeWindow): { start: number; end: number } | undefined {
+  if (!window) return undefined;
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null || end < start) return undefined;
+  return { start, end };
+}
+
+/**
+ * Walk the stops in visiting order.
+ * `legDurations[i]` is the travel time from stop i to stop i + 1; an extra
+ * last entry is the return leg of a loop. With `drivingRules`, mandatory
+ * breaks and daily rests are inserted into the legs (trucks). With a
+ * `workingDay` (minutes of driving plus time on site), the route stops for the
+ * night once the day is full, on the road or on arrival at a stop; time on site
+ * longer than a working day goes on over several days.
+ */
+export function computeSchedule(
+  stops: ScheduleStopInput[],
+  legDurations: number[],
+  departureTime: number,
+  drivingRules = false,
+  workingDay?: number
+): ScheduleResult {
+  const results: ScheduleStopResult[] = [];
+  const rests: ScheduledRest[] = [];
+  const overnights: ScheduledOvernight[] = [];
+  let clock = departureTime;
+  let totalWaitTime = 0;
+  let totalLateness = 0;
+  let driving: DrivingState = INITIAL_DRIVING_STATE;
+  let worked = 0;
+  const dayLimit = workingDay && workingDay > 0 ? workingDay : Infinity;
+
+  // Reprise le lendemain à l'heure du départ, après une nuit qui vaut repos journalier
+  const stopForNight = (legIndex: number, legOffset: number, startTime: number): number => {
+    const resumeTime = departureTime + 1440 * (Math.floor((startTime - departureTime) / 1440) + 1);
+    overnights.push({ legIndex, legOffset, startTime, duration: resumeTime - startTime });
+    worked = 0;
+    driving = INITIAL_DRIVING_STATE;
+    return resumeTime;
+  };
+
+  const drivePart = (legIndex: number, legOffset: number, duration: number, startTime: number): number => {
+    if (!drivingRules) return startTime + duration;
+    const leg = driveLeg(driving, duration, startTime);
+    driving = leg.state;
+    rests.push(...leg.rests.map(rest => ({ ...rest, legIndex, legOffset: legOffset + rest.legOffset })));
+    return leg.arrivalTime;
+  };
+
+  const drive = (legIndex: number, startTime: number): number => {
+    const duration = legDurations[legIndex];
+    let time = startTime;
+    let driven = 0;
+    while (duration - driven > dayLimit - worked) {
+      const allowed = Math.max(0, dayLimit - worked);
+      time = drivePart(legIndex, driven, allowed, time);
+      driven += allowed;
+      time = stopForNight(legIndex, driven, time);
+    }
+    worked += duration - driven;
+    return drivePart(legIndex, driven, duration - driven, time);
+  };
+
+  stops.forEach((stop, index) => {
+    const arrivalTime = index === 0 ? departureTime : drive(index - 1, clock);
+    const serviceDuration = stop.serviceDuration ?? 0;
+    // Journée pleine à l'arrivée : le temps sur place est reporté au lendemain, s'il y tient
+    const readyTime = worked > 0 && worked + serviceDuration > dayLimit && serviceDuration <= dayLimit
+      ? stopForNight(index - 1, legDurations[index - 1], arrivalTime)
+      : arrivalTime;
+    const waitTime = stop.window ? Math.max(0, stop.window.start - readyTime) : 0;
+    const serviceStart = readyTime + waitTime;
+    const lateness = stop.window ? Math.max(0, serviceStart - stop.window.end) : 0;
+
+    // Temps sur place plus long que la journée : réparti sur plusieurs jours, nuits sur place
+    let serviceTime = serviceStart;
+    let remaining = serviceDuration;
+    while (remaining > dayLimit - worked) {
+      const allowed = Math.max(0, dayLimit - worked);
+      remaining -= allowed;
+      serviceTime = stopForNight(Math.max(0, index - 1), index > 0 ? legDurations[index - 1] : 0, serviceTime + allowed);
+    }
+    const departure = serviceTime + remaining;
+
+    results.push({ arrivalTime, waitTime, serviceStart, departureTime: departure, lateness });
+    totalWaitTime += waitTime;
+    totalLateness += lateness;
+    driving = restAtStop(driving, waitTime);
+    worked += remaining;
+    clock = departure;
+  });
+
+  const endTime = legDurations.length >= stops.length ? drive(stops.length - 1, clock) : clock;
+  const totalRestTime = rests.reduce((sum, rest) => sum + rest.duration, 0);
+  return { stops: results, totalWaitTime, totalLateness, rests, totalRestTime, overnights, endTime };
+}
+
+/**
+ * Build a local search evaluator on matrix indices: travel cost, weighted waiting,
+ * rest and overnight time, and a heavy penalty for every minute of lateness
+ */
+export function createScheduleEvaluator(
+  costs: number[][],
+  durations: number[][],
+  stops: ScheduleStopInput[],
+  departureTime: number,
+  isLoop: boolean,
+  waitWeight: number,
+  drivingRules = false,
+  workingDay?: number
+): (order: number[]) => number {
+  return (order: number[]) => {
+    let travelCost = 0;
+    const legDurations: number[] = [];
+    for (let i = 0; i < order.length - 1; i++) {
+      travelCost += costs[order[i]][order[i + 1]];
+      legDurations.push(durations[order[i]][order[i + 1]]);
+    }
+    if (isLoop && order.length > 1) {
+      travelCost += costs[order[order.length - 1]][order[0]];
+      // Les pauses et les nuits du trajet retour comptent aussi
+      if (drivingRules || workingDay) legDurations.push(durations[order[order.length - 1]][order[0]]);
+    }
+
+    const schedule = computeSchedule(order.map(index => stops[index]), legDurations, departureTime, drivingRules, workingDay);
+    const nightTime = schedule.overnights.reduce((sum, night) => sum + night.duration, 0);
+    const idleTime = schedule.totalWaitTime + schedule.totalRestTime + nightTime;
+    return travelCost + waitWeight * idleTime + LATENESS_PENALTY * schedule.totalLateness;
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Data quality of a calculated route: where each segment comes from and how far
+ * its distance and duration can be trusted. Segments estimated in a straight line
+ * (no routing backend answered) make the route totals approximate.
+ */
+
+import { Route, RouteSegment, SegmentConfidence, SegmentSource } from '../types/index.ts';
+
+export const SEGMENT_SOURCE_LABELS: Record<SegmentSource, string> = {
+  osrm: 'OSRM',
+  ors: 'OpenRouteService',
+  valhalla: 'Valhalla',
+  graphhopper: 'GraphHopper',
+  cache: 'Cache',
+  estimated: 'Estimation à vol d\'oiseau',
+};
+
+export const SEGMENT_CONFIDENCE_LABELS: Record<SegmentConfidence, string> = {
+  high: 'Fiable',
+  medium: 'Approximatif',
+  low: 'Estimé',
+};
+
+const CONFIDENCE_ORDER: SegmentConfidence[] = ['low', 'medium', 'high'];
+
+export function isEstimatedSegment(segment: Pick<RouteSegment, 'source'>): boolean {
+  return segment.source === 'estimated';
+}
+
+export interface RouteDataQuality {
+  estimatedSegments: number;
+  estimatedDistance: number; // km
+  confidence: SegmentConfidence; // Lowest confidence of the segments
+}
+
+export function routeDataQuality(route: Pick<Route, 'segments'>): RouteDataQuality {
+  const estimated = route.segments.filter(isEstimatedSegment);
+  const confidence = route.segments.reduce<SegmentConfidence>(
+    (lowest, segment) => CONFIDENCE_ORDER.indexOf(segment.confidence) < CONFIDENCE_ORDER.indexOf(lowest) ? segment.confidence : lowest,
+    'high'
+  );
+  return {
+    estimatedSegments: estimated.length,
+    estimatedDistance: estimated.reduce((sum, segment) => sum + segment.distance, 0),
+    confidence,
+  };
+}
+
+/**
+ * Warning shown with the route and in the exports, null when every segment was routed
+ */
+export function estimatedSegmentsWarning(route: Pick<Route, 'segments'>): string | null {
+  const { estimatedSegments } = routeDataQuality(route);
+  if (estimatedSegments === 0) return null;
+  return estimatedSegments === 1
+    ? '1 segment estimé — distance approximative'
+    : `${estimatedSegments} segments estimés — distance approximative`;
+}
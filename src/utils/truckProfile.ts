@@ -0,0 +1,38 @@
+/**
+ * Truck profile helpers (dimensions and weight sent to OpenRouteService driving-hgv)
+ */
+
+import { TruckProfile } from '../types/index.ts';
+
+export const TRUCK_DIMENSIONS = ['height', 'width', 'length', 'weight', 'axleLoad'] as const;
+
+export type TruckDimension = typeof TRUCK_DIMENSIONS[number];
+
+export const TRUCK_DIMENSION_LABELS: Record<TruckDimension, { label: string; unit: string; example: number }> = {
+  height: { label: 'Hauteur', unit: 'm', example: 4 },
+  width: { label: 'Largeur', unit: 'm', example: 2.55 },
+  length: { label: 'Longueur', unit: 'm', example: 16.5 },
+  weight: { label: 'Poids total', unit: 't', example: 44 },
+  axleLoad: { label: 'Charge à l\'essieu', unit: 't', example: 11.5 },
+};
+
+export function hasTruckRestrictions(profile?: TruckProfile): boolean {
+  return !!profile && (profile.hazmat === true || TRUCK_DIMENSIONS.some(dimension => (profile[dimension] ?? 0) > 0));
+}
+
+/**
+ * `options` block of an ORS directions request; undefined when the profile sets nothing
+ */
+export function toOrsOptions(profile?: TruckProfile): Record<string, unknown> | undefined {
+  if (!profile || !hasTruckRestrictions(profile)) return undefined;
+
+  const restrictions: Record<string, number | boolean> = {};
+  if (profile.height) restrictions.height = profile.height;
+  if (profile.width) restrictions.width = profile.width;
+  if (profile.length) restrictions.length = profile.length;
+  if (profile.weight) restrictions.weight = profile.weight;
+  if (profile.axleLoad) restrictions.axleload = profile.axleLoad;
+  if (profile.hazmat) restrictions.hazmat = true;
+
+  return { vehicle_type: 'hgv', profile_params: { restrictions } };
+}
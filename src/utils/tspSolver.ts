@@ -0,0 +1,109 @@
+/**
+ * Exact travelling salesman solver (Held-Karp dynamic programming)
+ * Works on a precomputed cost matrix, so it never calls the routing API itself.
+ */
+
+// Beyond this size the 2^n * n table becomes too slow for the browser
+export const HELD_KARP_MAX_NODES = 13;
+
+export interface HeldKarpOptions {
+  isLoop: boolean;
+  startIndex?: number; // Fixed first stop (defaults to 0 for loops, free for open paths)
+  endIndex?: number; // Fixed last stop (open paths only)
+  precedences?: [before: number, after: number][]; // `before` must be visited earlier than `after`
+}
+
+export interface TspSolution {
+  order: number[]; // Matrix indices in visiting order
+  cost: number;
+  isOptimal: boolean;
+}
+
+/**
+ * Find the optimal visiting order for every node of the matrix.
+ * Loops return to the start; open paths may have a fixed start and/or end.
+ */
+export function solveHeldKarp(costs: number[][], options: HeldKarpOptions): TspSolution {
+  const size = costs.length;
+  if (size > HELD_KARP_MAX_NODES) {
+    throw new Error(`Held-Karp limité à ${HELD_KARP_MAX_NODES} points (reçu ${size})`);
+  }
+  if (size === 0) {
+    return { order: [], cost: 0, isOptimal: true };
+  }
+  if (size === 1) {
+    return { order: [0], cost: options.isLoop ? costs[0][0] : 0, isOptimal: true };
+  }
+
+  const start = options.isLoop ? options.startIndex ?? 0 : options.startIndex;
+  const end = options.isLoop ? undefined : options.endIndex;
+  const fullMask = (1 << size) - 1;
+
+  // requiredBefore[node] = nœuds à avoir visités avant de pouvoir aller en `node`
+  const requiredBefore = new Array<number>(size).fill(0);
+  options.precedences?.forEach(([before, after]) => {
+    requiredBefore[after] |= 1 << before;
+  });
+
+  // best[mask * size + last] = cheapest path visiting `mask` and ending at `last`
+  const best = new Float64Array((1 << size) * size).fill(Infinity);
+  const parent = new Int8Array((1 << size) * size).fill(-1);
+
+  for (let node = 0; node < size; node++) {
+    if ((start === undefined || node === start) && requiredBefore[node] === 0) {
+      best[(1 << node) * size + node] = 0;
+    }
+  }
+
+  for (let mask = 1; mask <= fullMask; mask++) {
+    for (let last = 0; last < size; last++) {
+      const current = best[mask * size + last];
+      if (current === Infinity || !(mask & (1 << last))) continue;
+
+      for (let next = 0; next < size; next++) {
+        if (mask & (1 << next)) continue;
+        const nextMask = mask | (1 << next);
+        // The fixed end can only be visited last
+        if (next === end && nextMask !== fullMask) continue;
+        if ((mask & requiredBefore[next]) !== requiredBefore[next]) continue;
+
+        const candidate = current + costs[last][next];
+        const key = nextMask * size + next;
+        if (candidate < best[key]) {
+          best[key] = candidate;
+          parent[key] = last;
+        }
+      }
+    }
+  }
+
+  let bestLast = -1;
+  let bestCost = Infinity;
+  for (let last = 0; last < size; last++) {
+    if (end !== undefined && last !== end) continue;
+    const pathCost = best[fullMask * size + last];
+    const total = options.isLoop ? pathCost + costs[last][start!] : pathCost;
+    if (total < bestCost) {
+      bestCost = total;
+      bestLast = last;
+    }
+  }
+
+  if (bestLast < 0) {
+    throw new Error('Aucun ordre ne respecte les contraintes de précédence');
+  }
+
+  // Remonter les parents pour reconstruire l'ordre
+  const order: number[] = [];
+  let mask = fullMask;
+  let node = bestLast;
+  while (node !== -1) {
+    order.push(node);
+    const previous = parent[mask * size + node];
+    mask &= ~(1 << node);
+    node = previous;
+  }
+  order.reverse();
+
+  return { order, cost: bestCost, isOptimal: true };
+}
@@ -9,6 +9,22 @@ interface ImportMetaEnv {
   readonly VITE_ENABLE_TRUCK_ROUTING: string
   readonly VITE_ENABLE_FILE_UPLOAD: string
   readonly VITE_ENABLE_ANALYTICS: string
+  readonly VITE_OPENROUTESERVICE_API_KEY?: string
+  readonly VITE_GRAPHHOPPER_API_KEY?: string
+  readonly VITE_ROUTING_PROVIDERS_CAR?: string
+  readonly VITE_ROUTING_PROVIDERS_TRUCK?: string
+  readonly VITE_GEOCODING_PROVIDERS?: string
+  readonly VITE_OSRM_URL?: string
+  readonly VITE_OSRM_AUTH_HEADER?: string
+  readonly VITE_OSRM_TRUCK_PROFILE?: string
+  readonly VITE_ORS_URL?: string
+  readonly VITE_ORS_AUTH_HEADER?: string
+  readonly VITE_VALHALLA_URL?: string
+  readonly VITE_VALHALLA_AUTH_HEADER?: string
+  readonly VITE_GRAPHHOPPER_URL?: string
+  readonly VITE_GRAPHHOPPER_AUTH_HEADER?: string
+  readonly VITE_NOMINATIM_URL?: string
+  readonly VITE_NOMINATIM_AUTH_HEADER?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,66 @@
+/**
+ * Web Worker running the route optimization off the main thread
+ * Receives typed `calculate` / `calculateFleet` / `recalculateEstimated` / `cancel` messages and streams progress events
+ * and request scheduler stats back.
+ */
+
+import { freeRoutingService } from '../services/freeRoutingService.ts';
+import { requestScheduler } from '../services/requestScheduler.ts';
+import { OptimizationWorkerRequest, OptimizationWorkerResponse, OptimizationProgress } from '../types/index.ts';
+
+const workerScope = self as unknown as Worker;
+
+// Contrôleurs d'abandon des calculs en cours, par identifiant de requête
+const controllers = new Map<number, AbortController>();
+
+const post = (message: OptimizationWorkerResponse) => workerScope.postMessage(message);
+
+// Les requêtes du calcul passent par le planificateur du worker : en publier l'état
+requestScheduler.subscribe(stats => post({ type: 'requestStats', stats }));
+
+workerScope.onmessage = async (event: MessageEvent<OptimizationWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    controllers.get(message.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(message.id, controller);
+
+  const onProgress = (progress: OptimizationProgress) => post({ type: 'progress', id: message.id, progress });
+
+  try {
+    if (message.type === 'calculateFleet') {
+      const response = await freeRoutingService.calculateFleetRoutes({
+        ...message.request,
+        signal: controller.signal,
+        onProgress,
+      });
+      post({ type: 'fleetResult', id: message.id, response });
+    } else if (message.type === 'recalculateEstimated') {
+      const response = await freeRoutingService.recalculateEstimatedSegments({
+        ...message.request,
+        signal: controller.signal,
+        onProgress,
+      }, message.route);
+      post({ type: 'result', id: message.id, response });
+    } else {
+      const response = await freeRoutingService.calculateRoute({
+        ...message.request,
+        signal: controller.signal,
+        onProgress,
+      });
+      post({ type: 'result', id: message.id, response });
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id: message.id,
+      message: error instanceof Error ? error.message : 'Erreur inconnue du calcul d\'itinéraire',
+    });
+  } finally {
+    controllers.delete(message.id);
+  }
+};